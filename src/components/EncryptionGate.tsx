@@ -0,0 +1,72 @@
+import { useState, useEffect, type FormEvent, type ReactNode } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Lock } from "lucide-react";
+import { useEncryptionManager } from "@/hooks/useStorage";
+import { type EncryptionStatus } from "@/managers/EncryptionManager";
+
+// Holds the app back until the database can be read: straight through when
+// encryption is off, otherwise behind the passphrase prompt
+export const EncryptionGate = ({ children }: { children: ReactNode }) => {
+  const encryption = useEncryptionManager();
+  const [status, setStatus] = useState<EncryptionStatus | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = encryption.onStatusChange(setStatus);
+    encryption.status().then((res) => {
+      // The app reports storage errors itself once it loads
+      if (!res.success) setStatus("off");
+    });
+    return unsubscribe;
+  }, [encryption]);
+
+  const unlock = async (e: FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    const res = await encryption.unlock(passphrase);
+    setUnlocking(false);
+    setPassphrase("");
+    if (!res.success) setError(res.error);
+  };
+
+  if (status === null) return null;
+  if (status !== "locked") return <>{children}</>;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm shadow-receipt">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <Lock className="w-5 h-5 text-primary" />
+            Shop Locked
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={unlock} className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="unlock-passphrase">Passphrase</Label>
+              <Input
+                id="unlock-passphrase"
+                type="password"
+                autoFocus
+                autoComplete="current-password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+            </div>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+            <Button type="submit" className="w-full" disabled={unlocking || !passphrase}>
+              {unlocking ? "Unlocking..." : "Unlock"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
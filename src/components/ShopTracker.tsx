@@ -8,47 +8,35 @@ import { Dashboard } from "./shop/Dashboard";
 import { Restocking } from "./shop/Restocking";
 import { Sales } from "./shop/Sales";
 import { Reports } from "./shop/Reports";
+import { MpesaReconciliation } from "./shop/MpesaReconciliation";
+import { EncryptionSettings } from "./shop/EncryptionSettings";
+import { ReceiptSettings } from "./shop/ReceiptSettings";
+import { CashDrawer } from "./shop/CashDrawer";
+import { StaffOnDuty } from "./shop/StaffOnDuty";
+import { AuditLog } from "./shop/AuditLog";
+import { Backups } from "./shop/Backups";
+import { BackupOverdueBadge } from "./shop/BackupOverdueBadge";
 import { useShopData } from "@/hooks/useShopData";
-import { StockManager } from "@/managers/StockManager";
-import { DatabaseManager } from "@/storage/DatabaseManager";
-import { StorageService } from "@/storage/StorageService";
+import { useStorage, useStockManager, useShiftManager, useEncryptionManager, useStaffManager, useAuditManager, useBackupManager, useSyncManager } from "@/hooks/useStorage";
 import { useToast } from "@/hooks/use-toast";
-
-// Get client ID for IndexedDB
-const getClientId = () => {
-  let clientId = localStorage.getItem('shop_client_id');
-  if (!clientId) {
-    clientId = Math.random().toString(36).substring(2, 15);
-    localStorage.setItem('shop_client_id', clientId);
-  }
-  return clientId;
-};
+import { type SyncStatus } from "@/managers/SyncManager";
 
 export const ShopTracker = () => {
   const { toast } = useToast();
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [pendingSyncs, setPendingSyncs] = useState(0);
-  const [stockManager, setStockManager] = useState<StockManager | null>(null);
-  
-  // Use our custom hook for shop data
-  const { products, sales, loading, productManager, salesManager, refreshData } = useShopData();
-  
-  // Initialize stock manager
-  useEffect(() => {
-    const initStockManager = async () => {
-      try {
-        const clientId = getClientId();
-        const dbManager = new DatabaseManager(clientId);
-        const storageService = new StorageService(dbManager);
-        const stockMgr = new StockManager(storageService);
-        setStockManager(stockMgr);
-      } catch (error) {
-        console.error('Failed to initialize stock manager:', error);
-      }
-    };
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const stockManager = useStockManager();
+  const shiftManager = useShiftManager();
+  const encryptionManager = useEncryptionManager();
+  const staffManager = useStaffManager();
+  const auditManager = useAuditManager();
+  const backupManager = useBackupManager();
+  const syncManager = useSyncManager();
+  const { storage } = useStorage();
 
-    initStockManager();
-  }, []);
+  // Use our custom hook for shop data
+  const { products, sales, refunds, loading, productManager, salesManager, refreshData } = useShopData();
 
   // Listen for network status changes
   useEffect(() => {
@@ -64,31 +52,83 @@ export const ShopTracker = () => {
     };
   }, []);
 
+  // Scheduled backups run while the shop is open (and unlocked)
+  useEffect(() => backupManager.start(), [backupManager]);
+
+  // Audit entries past the retention period are dropped once per start
+  useEffect(() => { void auditManager.prune(); }, [auditManager]);
+
+  // Local writes queue up in the outbox and are pushed to Supabase when online
+  useEffect(() => {
+    const show = (status: SyncStatus) => {
+      setPendingSyncs(status.pending);
+      setSyncError(status.error);
+    };
+    syncManager.status().then(res => { if (res.success) show(res.data); });
+    const unsubscribe = syncManager.onStatusChange(show);
+    const stop = syncManager.start();
+    return () => { unsubscribe(); stop(); };
+  }, [syncManager]);
+
   // Calculate metrics
-  const totalValue = products.reduce((sum, product) => 
+  // Archived products are kept for history only; the till and stock views skip them
+  const activeProducts = products.filter(p => !p.archived_at);
+
+  const totalValue = activeProducts.reduce((sum, product) => 
     sum + (product.current_stock * product.cost_price), 0
   );
   
-  const todaysSales = sales.filter(sale => {
-    const saleDate = new Date(sale.date);
-    const today = new Date();
-    return saleDate.toDateString() === today.toDateString();
-  }).reduce((sum, sale) => sum + sale.total_amount, 0);
-  
-  const todaysProfit = sales.filter(sale => {
-    const saleDate = new Date(sale.date);
-    const today = new Date();
-    return saleDate.toDateString() === today.toDateString();
-  }).reduce((sum, sale) => {
-    const profit = sale.items.reduce((itemSum, item) => {
+  // Voided sales never happened as far as the figures are concerned
+  const activeSales = sales.filter(sale => sale.status !== "voided");
+
+  const isToday = (iso: string) => new Date(iso).toDateString() === new Date().toDateString();
+
+  // Lines carry the cost at the time of sale; older ones fall back to today's cost price
+  const itemsProfit = (items: { product_id: string; unit_price: number; quantity: number; unit_cost?: number }[]) =>
+    items.reduce((itemSum, item) => {
       const product = products.find(p => p.id === item.product_id);
-      const costPerItem = product ? product.cost_price : 0;
+      const costPerItem = item.unit_cost ?? product?.cost_price ?? 0;
       return itemSum + ((item.unit_price - costPerItem) * item.quantity);
     }, 0);
-    return sum + profit;
-  }, 0);
 
-  const lowStockProducts = products.filter(product => 
+  const todaysRefunds = refunds.filter(refund => isToday(refund.date));
+
+  const todaysSales = activeSales.filter(sale => isToday(sale.date))
+    .reduce((sum, sale) => sum + sale.total_amount, 0)
+    - todaysRefunds.reduce((sum, refund) => sum + refund.total_amount, 0);
+
+  const todaysProfit = activeSales.filter(sale => isToday(sale.date))
+    .reduce((sum, sale) => sum + itemsProfit(sale.items), 0)
+    - todaysRefunds.reduce((sum, refund) => sum + itemsProfit(refund.items), 0);
+
+  const reportSales = [
+    ...activeSales.map(s => ({
+      id: s.id,
+      productId: s.items[0]?.product_id || "",
+      productName: s.items[0]?.product_name || "",
+      quantity: s.items.reduce((sum, item) => sum + item.quantity, 0),
+      unitPrice: s.total_amount / s.items.reduce((sum, item) => sum + item.quantity, 1),
+      totalAmount: s.total_amount,
+      profit: itemsProfit(s.items),
+      date: new Date(s.date),
+      tenders: s.tenders ?? [{ method: s.payment_method, amount: s.total_amount }]
+    })),
+    // Refunds enter the reports as negative rows so every total nets them out
+    ...refunds.map(r => ({
+      id: r.id,
+      productId: r.items[0]?.product_id || "",
+      productName: r.items[0]?.product_name || "",
+      quantity: -r.items.reduce((sum, item) => sum + item.quantity, 0),
+      unitPrice: r.total_amount / r.items.reduce((sum, item) => sum + item.quantity, 1),
+      totalAmount: -r.total_amount,
+      profit: -itemsProfit(r.items),
+      date: new Date(r.date),
+      tenders: [{ method: r.receipt.payment_method, amount: -r.total_amount }],
+      isRefund: true
+    }))
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const lowStockProducts = activeProducts.filter(product => 
     product.current_stock <= (product.low_stock_threshold || 0)
   );
 
@@ -114,12 +154,14 @@ export const ShopTracker = () => {
           <p className="text-sm text-muted-foreground">Stock & Sales Management</p>
         </div>
         <div className="flex items-center gap-2">
+          <StaffOnDuty staffManager={staffManager} />
+          <BackupOverdueBadge backupManager={backupManager} />
           <Badge variant={isOnline ? "default" : "secondary"} className="gap-1">
             {isOnline ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
             {isOnline ? "Online" : "Offline"}
           </Badge>
           {pendingSyncs > 0 && (
-            <Badge variant="outline" className="gap-1">
+            <Badge variant="outline" className="gap-1" title={syncError ?? undefined}>
               <AlertCircle className="w-3 h-3" />
               {pendingSyncs} pending
             </Badge>
@@ -188,7 +230,7 @@ export const ShopTracker = () => {
 
         <TabsContent value="dashboard">
           <Dashboard 
-            products={products.map(p => ({
+            products={activeProducts.map(p => ({
               id: p.id,
               name: p.name,
               category: p.category || "",
@@ -198,18 +240,14 @@ export const ShopTracker = () => {
               sellingPrice: p.selling_price,
               lastRestocked: undefined
             }))}
-            sales={sales.map(s => ({
+            sales={activeSales.map(s => ({
               id: s.id,
               productId: s.items[0]?.product_id || "",
               productName: s.items[0]?.product_name || "",
               quantity: s.items.reduce((sum, item) => sum + item.quantity, 0),
               unitPrice: s.total_amount / s.items.reduce((sum, item) => sum + item.quantity, 1),
               totalAmount: s.total_amount,
-              profit: s.items.reduce((sum, item) => {
-                const product = products.find(p => p.id === item.product_id);
-                const costPerItem = product ? product.cost_price : 0;
-                return sum + ((item.unit_price - costPerItem) * item.quantity);
-              }, 0),
+              profit: itemsProfit(s.items),
               date: new Date(s.date)
             }))}
             totalValue={totalValue}
@@ -219,56 +257,33 @@ export const ShopTracker = () => {
         </TabsContent>
 
         <TabsContent value="restock">
-          {productManager && stockManager ? (
-            <Restocking 
-              products={products} 
-              productManager={productManager}
-              stockManager={stockManager}
-              onProductsChange={refreshData}
-            />
-          ) : (
-            <Card className="shadow-receipt">
-              <CardContent className="p-6 text-center">
-                <Package className="w-8 h-8 animate-pulse mx-auto mb-2 text-primary" />
-                <p className="text-muted-foreground">Initializing stock management...</p>
-              </CardContent>
-            </Card>
-          )}
+          <Restocking 
+            products={products} 
+            productManager={productManager}
+            stockManager={stockManager}
+            onProductsChange={refreshData}
+          />
         </TabsContent>
 
         <TabsContent value="sales">
-          {productManager && salesManager ? (
-            <Sales 
-              products={products}
-              salesManager={salesManager}
-              productManager={productManager}
-              onSaleComplete={refreshData}
-            />
-          ) : (
-            <Card className="shadow-receipt">
-              <CardContent className="p-6 text-center">
-                <Package className="w-8 h-8 animate-pulse mx-auto mb-2 text-primary" />
-                <p className="text-muted-foreground">Initializing sales system...</p>
-              </CardContent>
-            </Card>
-          )}
+          <Sales 
+            products={activeProducts}
+            salesManager={salesManager}
+            productManager={productManager}
+            onSaleComplete={refreshData}
+          />
         </TabsContent>
 
         <TabsContent value="reports">
-          <Reports sales={sales.map(s => ({
-            id: s.id,
-            productId: s.items[0]?.product_id || "",
-            productName: s.items[0]?.product_name || "",
-            quantity: s.items.reduce((sum, item) => sum + item.quantity, 0),
-            unitPrice: s.total_amount / s.items.reduce((sum, item) => sum + item.quantity, 1),
-            totalAmount: s.total_amount,
-            profit: s.items.reduce((sum, item) => {
-              const product = products.find(p => p.id === item.product_id);
-              const costPerItem = product ? product.cost_price : 0;
-              return sum + ((item.unit_price - costPerItem) * item.quantity);
-            }, 0),
-            date: new Date(s.date)
-          }))} />
+          <div className="space-y-4">
+            <Reports sales={reportSales} />
+            <CashDrawer shiftManager={shiftManager} />
+            <MpesaReconciliation salesManager={salesManager} onReferencesSaved={refreshData} />
+            <ReceiptSettings salesManager={salesManager} />
+            <Backups storage={storage} backupManager={backupManager} />
+            <EncryptionSettings encryptionManager={encryptionManager} />
+            <AuditLog auditManager={auditManager} staffManager={staffManager} />
+          </div>
         </TabsContent>
       </Tabs>
     </div>
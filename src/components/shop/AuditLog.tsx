@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { History, X } from "lucide-react";
+import { format } from "date-fns";
+import { AuditManager, type AuditFilter } from "@/managers/AuditManager";
+import { StaffManager } from "@/managers/StaffManager";
+import { useStorageChanges } from "@/hooks/useStorageChanges";
+import { type PageCursor } from "@/storage/StorageService";
+import { type AuditEntry, type Staff, type StoreName } from "@/types/business";
+
+interface AuditLogProps {
+  auditManager: AuditManager;
+  staffManager: StaffManager;
+}
+
+const PAGE_SIZE = 30;
+const ANY = "any";
+const NOBODY = "none";
+
+const STORE_LABELS: Partial<Record<StoreName, string>> = {
+  products: "Products",
+  sales: "Sales",
+  refunds: "Refunds",
+  stock_movements: "Stock movements",
+  shifts: "Shifts",
+  staff: "Staff",
+  business_settings: "Settings",
+};
+
+const OPERATION_VARIANTS = { create: "default", update: "secondary", delete: "destructive" } as const;
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+// Admin-only view of who changed what; hidden from everyone else
+export const AuditLog = ({ auditManager, staffManager }: AuditLogProps) => {
+  const { toast } = useToast();
+  const [allowed, setAllowed] = useState(false);
+  const [staff, setStaff] = useState<Staff[]>([]);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [next, setNext] = useState<PageCursor | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [store, setStore] = useState<string>(ANY);
+  const [actor, setActor] = useState<string>(ANY);
+  const [recordId, setRecordId] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  useEffect(() => {
+    const check = () => { staffManager.canCurrent("view_audit").then(setAllowed); };
+    check();
+    return staffManager.onDutyChange(check);
+  }, [staffManager]);
+
+  const filter: AuditFilter = {
+    store: store === ANY ? undefined : (store as StoreName),
+    actorId: actor === ANY ? undefined : actor === NOBODY ? null : actor,
+    recordId: recordId.trim() || undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+  };
+  const filterKey = JSON.stringify(filter);
+
+  const load = useCallback(async (after: PageCursor | null) => {
+    setLoading(true);
+    const res = await auditManager.list(JSON.parse(filterKey) as AuditFilter, { limit: PAGE_SIZE, after });
+    setLoading(false);
+    if (!res.success || !res.data) {
+      toast({ title: "Error", description: res.error || "Failed to load the audit log", variant: "destructive" });
+      return;
+    }
+    const page = res.data;
+    setEntries(current => (after ? [...current, ...page.items] : page.items));
+    setNext(page.next);
+  }, [auditManager, filterKey, toast]);
+
+  useEffect(() => {
+    if (allowed) load(null);
+  }, [allowed, load]);
+
+  useEffect(() => {
+    if (!allowed) return;
+    staffManager.list().then(res => { if (res.success) setStaff(res.data ?? []); });
+  }, [allowed, staffManager]);
+
+  useStorageChanges(["audit_log"], () => { if (allowed) load(null); });
+
+  if (!allowed) return null;
+
+  const staffName = (id: string | null) => (id ? staff.find(s => s.id === id)?.name ?? "Former staff" : "Nobody signed in");
+
+  return (
+    <Card className="shadow-receipt">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <History className="w-4 h-4 text-primary" />
+          Audit Log
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={store} onValueChange={setStore}>
+            <SelectTrigger className="h-9 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All records</SelectItem>
+              {Object.entries(STORE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={actor} onValueChange={setActor}>
+            <SelectTrigger className="h-9 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Anyone</SelectItem>
+              <SelectItem value={NOBODY}>Nobody signed in</SelectItem>
+              {staff.map(member => (
+                <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input type="date" className="h-9 text-xs" value={fromDate} onChange={(e) => setFromDate(e.target.value)} aria-label="From date" />
+          <Input type="date" className="h-9 text-xs" value={toDate} onChange={(e) => setToDate(e.target.value)} aria-label="To date" />
+        </div>
+        {recordId && (
+          <Badge variant="outline" className="gap-1 text-xs">
+            Record {recordId.slice(0, 8)}
+            <button type="button" onClick={() => setRecordId("")} aria-label="Show all records">
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        )}
+
+        {entries.length === 0 && !loading && (
+          <p className="text-xs text-muted-foreground">No changes recorded for this filter.</p>
+        )}
+
+        <div className="space-y-2">
+          {entries.map(entry => (
+            <div key={entry.id} className="rounded-md border p-2 space-y-1">
+              <div className="flex items-center gap-2 text-xs">
+                <Badge variant={OPERATION_VARIANTS[entry.operation]} className="text-xs capitalize">{entry.operation}</Badge>
+                <span className="font-medium">{STORE_LABELS[entry.store] ?? entry.store}</span>
+                <button
+                  type="button"
+                  className="font-receipt text-muted-foreground underline-offset-2 hover:underline"
+                  onClick={() => setRecordId(entry.record_id)}
+                  title="Show this record's history"
+                >
+                  {entry.record_id.slice(0, 8)}
+                </button>
+                <span className="ml-auto text-muted-foreground">{format(new Date(entry.at), "MMM d, h:mm a")}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">by {staffName(entry.actor_id)}</p>
+              {entry.operation === "update" && (
+                <ul className="text-xs font-receipt space-y-0.5">
+                  {entry.changes.map(change => (
+                    <li key={change.field}>
+                      {change.field}: {formatValue(change.before)} → {formatValue(change.after)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {next && (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => load(next)} disabled={loading}>
+            {loading ? "Loading..." : "Load older changes"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,27 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Archive } from "lucide-react";
+import { BackupManager, type BackupSchedule } from "@/managers/BackupManager";
+
+interface BackupOverdueBadgeProps {
+  backupManager: BackupManager;
+}
+
+// Header warning when a scheduled backup is due and couldn't be made
+export const BackupOverdueBadge = ({ backupManager }: BackupOverdueBadgeProps) => {
+  const [schedule, setSchedule] = useState<BackupSchedule | null>(null);
+
+  useEffect(() => {
+    backupManager.status().then(res => { if (res.success) setSchedule(res.data); });
+    return backupManager.onStatusChange(setSchedule);
+  }, [backupManager]);
+
+  if (!schedule?.overdue) return null;
+
+  return (
+    <Badge variant="destructive" className="gap-1" title={schedule.error ?? undefined}>
+      <Archive className="w-3 h-3" />
+      Backup overdue
+    </Badge>
+  );
+};
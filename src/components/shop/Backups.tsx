@@ -0,0 +1,475 @@
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Archive, Download, FolderOpen, Upload } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { StorageService } from "@/storage/StorageService";
+import { BackupManager, type BackupSchedule } from "@/managers/BackupManager";
+import { folderBackupsSupported, opfsBackupsSupported, type StoredBackup } from "@/utils/backupTargets";
+import {
+  BACKUP_EXTENSION,
+  BACKUP_STORES,
+  BackupLockedError,
+  mergeBackupChain,
+  readBackup,
+  type BackupBundle,
+  type BackupManifest,
+  type BackupStore,
+} from "@/utils/backup";
+import { planRestore, restoreBackup, type RestoreMode, type RestorePlan } from "@/utils/restore";
+
+interface BackupsProps {
+  storage: StorageService;
+  backupManager: BackupManager;
+}
+
+const formatSize = (bytes: number) => (bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`);
+
+const STORE_LABELS: Record<BackupStore, string> = {
+  products: "Products",
+  sales: "Sales",
+  stock_movements: "Stock movements",
+  staff: "Staff",
+  business_settings: "Settings",
+  counters: "Receipt counters",
+  refunds: "Refunds",
+  shifts: "Shifts",
+};
+
+const MODE_NOTES: Record<RestoreMode, string> = {
+  merge: "Adds what's missing and takes the backup's copy where it is newer. Nothing on this device is deleted.",
+  replace: "Makes this device match the backup exactly. Records the backup doesn't have are deleted.",
+};
+
+interface OpenedBackup {
+  name: string;
+  manifest: BackupManifest;
+  bundle: BackupBundle;
+}
+
+export const Backups = ({ storage, backupManager }: BackupsProps) => {
+  const { toast } = useToast();
+  const [isWorking, setIsWorking] = useState(false);
+  const [opened, setOpened] = useState<OpenedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [schedule, setSchedule] = useState<BackupSchedule | null>(null);
+  const [stored, setStored] = useState<StoredBackup[]>([]);
+  // Encrypted files waiting for their passphrase
+  const [locked, setLocked] = useState<File[] | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+
+  useEffect(() => {
+    backupManager.status().then(res => { if (res.success) setSchedule(res.data); });
+    return backupManager.onStatusChange(setSchedule);
+  }, [backupManager]);
+
+  // Backups already written where the schedule writes them
+  const destination = schedule?.destination;
+  const lastRun = schedule?.last_run_at;
+  useEffect(() => {
+    if (!destination) return;
+    let cancelled = false;
+    backupManager.target(destination)
+      .then(target => target.list())
+      .then(list => { if (!cancelled) setStored(list); })
+      .catch(() => { if (!cancelled) setStored([]); });
+    return () => { cancelled = true; };
+  }, [backupManager, destination, lastRun]);
+
+  // Dry run whenever a file is picked or the mode changes
+  useEffect(() => {
+    if (!opened) return;
+    let cancelled = false;
+    setPlan(null);
+    planRestore(storage, opened.bundle, mode)
+      .then(next => { if (!cancelled) setPlan(next); })
+      .catch((error: unknown) => {
+        const msg = error instanceof Error ? error.message : String(error);
+        toast({ title: "Restore Preview Failed", description: msg, variant: "destructive" });
+      });
+    return () => { cancelled = true; };
+  }, [storage, opened, mode, toast]);
+
+  const download = async () => {
+    setIsWorking(true);
+    try {
+      const { bundle, size } = await backupManager.download();
+      toast({
+        title: "Backup Downloaded",
+        description: `${bundle.products.length} products and ${bundle.sales.length} sales (${formatSize(size)})`,
+      });
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Backup Failed", description: msg, variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // A full backup, or a full backup plus the incrementals that follow it
+  const openFiles = async (files: File[], passphrase?: string) => {
+    if (!files.length) return;
+    try {
+      const backups = await Promise.all(files.map(file => readBackup(file, passphrase)));
+      const { manifest, bundle } = mergeBackupChain(backups);
+      const name = files.length === 1 ? files[0].name : `${files.length} backups up to ${format(new Date(manifest.generated_at), "MMM d")}`;
+      setLocked(null);
+      setPassphrase("");
+      setOpened({ name, manifest, bundle });
+    } catch (error: unknown) {
+      if (error instanceof BackupLockedError) {
+        setLocked(files);
+        return;
+      }
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Can't Open Backup", description: msg, variant: "destructive" });
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const report = (res: { success: boolean; error?: string }, failure: string) => {
+    if (!res.success && res.error) toast({ title: failure, description: res.error, variant: "destructive" });
+  };
+
+  const backUpNow = async () => {
+    const res = await backupManager.runNow();
+    if (res.success) toast({ title: "Backup Saved", description: `Written to ${schedule?.destination === "folder" ? schedule.folder : "this device"}` });
+    else report(res, "Backup Failed");
+  };
+
+  const openStored = async (name: string) => {
+    if (!schedule) return;
+    try {
+      const target = await backupManager.target(schedule.destination);
+      const chain = await target.chain(name);
+      await openFiles(await Promise.all(chain.map(backup => target.read(backup.name))));
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Can't Open Backup", description: msg, variant: "destructive" });
+    }
+  };
+
+  const downloadStored = async (name: string) => {
+    if (!schedule) return;
+    const target = await backupManager.target(schedule.destination);
+    const url = URL.createObjectURL(await target.read(name));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = name;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const restore = async () => {
+    if (!opened) return;
+    setIsWorking(true);
+    const res = await restoreBackup(storage, opened.bundle, mode);
+    setIsWorking(false);
+    if (!res.success || !res.data) {
+      toast({ title: "Restore Failed", description: res.error || "Nothing was restored", variant: "destructive" });
+      return;
+    }
+    const totals = Object.values(res.data.stores);
+    const written = totals.reduce((sum, s) => sum + s.added + s.changed, 0);
+    const removed = totals.reduce((sum, s) => sum + s.removed, 0);
+    toast({
+      title: "Backup Restored",
+      description: `${written} records written${removed ? `, ${removed} removed` : ""}`,
+    });
+    setOpened(null);
+    setPlan(null);
+  };
+
+  const rows = plan ? BACKUP_STORES.filter(store => {
+    const s = plan.stores[store];
+    return s.added || s.changed || s.removed || s.conflicts.length;
+  }) : [];
+  const hasChanges = rows.length > 0;
+
+  return (
+    <Card className="shadow-receipt">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <Archive className="w-4 h-4 text-primary" />
+          Backups
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Saves every product, sale, refund, stock movement, shift and staff record to a compressed .swbak file.
+          Keep it off this device. While encryption is on, backups are encrypted too and need the passphrase to restore.
+        </p>
+        <Button size="sm" onClick={download} disabled={isWorking}>
+          <Download className="w-4 h-4 mr-2" />
+          {isWorking ? "Preparing..." : "Download Backup"}
+        </Button>
+
+        {schedule && (opfsBackupsSupported() || folderBackupsSupported()) && (
+          <div className="border-t pt-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="backup-schedule" className="text-xs font-medium">Automatic backups</Label>
+              <Switch
+                id="backup-schedule"
+                checked={schedule.enabled}
+                onCheckedChange={(enabled) => backupManager.setPreferences({ enabled }).then(res => report(res, "Couldn't Save"))}
+              />
+            </div>
+            {schedule.enabled && (
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={schedule.frequency}
+                  onValueChange={(frequency) => backupManager.setPreferences({ frequency: frequency as BackupSchedule["frequency"] }).then(res => report(res, "Couldn't Save"))}
+                >
+                  <SelectTrigger className="h-9 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={1}
+                  max={90}
+                  className="h-9 text-xs"
+                  aria-label="Backups to keep"
+                  title="Backups to keep"
+                  defaultValue={schedule.retention}
+                  key={schedule.retention}
+                  onBlur={(e) => {
+                    const retention = Math.round(Number(e.target.value));
+                    if (retention >= 1 && retention !== schedule.retention) {
+                      backupManager.setPreferences({ retention }).then(res => report(res, "Couldn't Save"));
+                    }
+                  }}
+                />
+                <Select
+                  value={schedule.destination}
+                  onValueChange={(value) => (value === "folder" && !schedule.folder
+                    ? backupManager.chooseFolder()
+                    : backupManager.setPreferences({ destination: value as BackupSchedule["destination"] })
+                  ).then(res => report(res, "Couldn't Save"))}
+                >
+                  <SelectTrigger className="h-9 text-xs col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {opfsBackupsSupported() && <SelectItem value="opfs">Keep on this device</SelectItem>}
+                    {folderBackupsSupported() && (
+                      <SelectItem value="folder">{schedule.folder ? `Folder: ${schedule.folder}` : "Choose a folder..."}</SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+                <div className="col-span-2 flex items-center justify-between">
+                  <Label htmlFor="backup-incremental" className="text-xs">Between full backups, save only changes</Label>
+                  <Switch
+                    id="backup-incremental"
+                    checked={schedule.incremental}
+                    onCheckedChange={(incremental) => backupManager.setPreferences({ incremental }).then(res => report(res, "Couldn't Save"))}
+                  />
+                </div>
+              </div>
+            )}
+            {schedule.enabled && (
+              <p className="text-xs text-muted-foreground">
+                Keeps the newest {schedule.retention}.{" "}
+                {schedule.last_run_at ? `Last backup ${formatDistanceToNow(new Date(schedule.last_run_at), { addSuffix: true })}` : "No backup yet"}
+                {schedule.due_at && !schedule.overdue && new Date(schedule.due_at) > new Date() && `, next ${format(new Date(schedule.due_at), "MMM d, h:mm a")}`}.
+                {schedule.destination === "opfs" && " Backups kept on this device won't survive losing it; download one now and then."}
+              </p>
+            )}
+            {schedule.overdue && (
+              <p className="text-xs text-destructive">
+                A backup is overdue{schedule.error ? `: ${schedule.error}` : "."}
+              </p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {schedule.enabled && (
+                <Button size="sm" variant="outline" onClick={backUpNow} disabled={schedule.running}>
+                  {schedule.running ? "Backing up..." : "Back Up Now"}
+                </Button>
+              )}
+              {schedule.enabled && schedule.destination === "folder" && (
+                <Button size="sm" variant="ghost" onClick={() => backupManager.chooseFolder().then(res => report(res, "Couldn't Save"))}>
+                  <FolderOpen className="w-4 h-4 mr-2" />
+                  Change Folder
+                </Button>
+              )}
+              {schedule.overdue && schedule.destination === "folder" && schedule.folder && (
+                <Button size="sm" variant="ghost" onClick={() => backupManager.allowFolderAccess().then(res => report(res, "Backup Failed"))}>
+                  Allow Folder Access
+                </Button>
+              )}
+            </div>
+            {stored.length > 0 && (
+              <ul className="space-y-1 text-xs">
+                {stored.map(backup => (
+                  <li key={backup.name} className="flex items-center gap-2">
+                    <span className="font-receipt truncate">{format(new Date(backup.modified), "MMM d, yyyy h:mm a")}</span>
+                    <span className="text-muted-foreground">{formatSize(backup.size)}</span>
+                    {backup.incremental && <span className="text-muted-foreground">changes</span>}
+                    <Button size="sm" variant="ghost" className="ml-auto h-7 px-2" onClick={() => downloadStored(backup.name)} aria-label="Download">
+                      <Download className="w-3 h-3" />
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => openStored(backup.name)} disabled={isWorking}>
+                      Restore
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="border-t pt-3 space-y-3">
+          <input
+            ref={fileInput}
+            type="file"
+            accept={BACKUP_EXTENSION}
+            multiple
+            className="hidden"
+            onChange={(e) => openFiles(Array.from(e.target.files ?? []))}
+          />
+          <Button size="sm" variant="outline" onClick={() => fileInput.current?.click()} disabled={isWorking}>
+            <Upload className="w-4 h-4 mr-2" />
+            Restore from Backup
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            For backups that hold only changes, pick the full backup together with every one after it.
+          </p>
+
+          {locked && (
+            <div className="flex gap-2">
+              <Input
+                type="password"
+                className="h-9 text-xs"
+                placeholder="Passphrase for this backup"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => { if (e.key === "Enter") void openFiles(locked, passphrase); }}
+              />
+              <Button size="sm" onClick={() => openFiles(locked, passphrase)} disabled={!passphrase}>Open</Button>
+            </div>
+          )}
+
+          {opened && (
+            <div className="space-y-3">
+              <p className="text-xs text-muted-foreground">
+                {opened.name} — made {format(new Date(opened.manifest.generated_at), "MMM d, yyyy h:mm a")} by version {opened.manifest.app_version}
+              </p>
+              <Select value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+                <SelectTrigger className="h-9 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merge">Merge with this device</SelectItem>
+                  <SelectItem value="replace">Replace everything on this device</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{MODE_NOTES[mode]}</p>
+
+              {!plan && <p className="text-xs text-muted-foreground">Comparing with this device...</p>}
+
+              {plan && plan.invalid.length > 0 && (
+                <div className="text-xs text-destructive space-y-1">
+                  <p>{plan.invalid.length} records in this backup are invalid, so it can't be restored:</p>
+                  <ul className="font-receipt space-y-0.5">
+                    {plan.invalid.slice(0, 5).map(record => (
+                      <li key={`${record.store}:${record.id}`}>
+                        {STORE_LABELS[record.store]} {record.id.slice(0, 8)}: {record.error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {plan && plan.invalid.length === 0 && !hasChanges && (
+                <p className="text-xs text-muted-foreground">This device already has everything in the backup.</p>
+              )}
+
+              {plan && hasChanges && (
+                <table className="w-full text-xs">
+                  <thead className="text-muted-foreground">
+                    <tr>
+                      <th className="text-left font-normal"></th>
+                      <th className="text-right font-normal">New</th>
+                      <th className="text-right font-normal">Changed</th>
+                      <th className="text-right font-normal">Conflicting</th>
+                      {mode === "replace" && <th className="text-right font-normal">Removed</th>}
+                    </tr>
+                  </thead>
+                  <tbody className="font-receipt">
+                    {rows.map(store => {
+                      const s = plan.stores[store];
+                      return (
+                        <tr key={store}>
+                          <td className="font-sans">{STORE_LABELS[store]}</td>
+                          <td className="text-right">{s.added}</td>
+                          <td className="text-right">{s.changed}</td>
+                          <td className="text-right">{s.conflicts.length}</td>
+                          {mode === "replace" && <td className="text-right">{s.removed}</td>}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+              {plan && rows.some(store => plan.stores[store].conflicts.length) && (
+                <p className="text-xs text-muted-foreground">
+                  Conflicting records were edited on this device and aren't older than the backup's copy.
+                  {mode === "merge" ? " Merging keeps this device's copy." : " Replacing overwrites them."}
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" disabled={isWorking || !plan || plan.invalid.length > 0 || !hasChanges}>
+                      {isWorking ? "Restoring..." : "Restore"}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>{mode === "replace" ? "Replace all data with this backup?" : "Merge this backup?"}</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {MODE_NOTES[mode]} Download a backup of this device first if you might want it back.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={restore}>{mode === "replace" ? "Replace" : "Merge"}</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+                <Button size="sm" variant="ghost" onClick={() => { setOpened(null); setPlan(null); }} disabled={isWorking}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,207 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useStorageChanges } from "@/hooks/useStorageChanges";
+import { Wallet, Printer, FileText } from "lucide-react";
+import { jsPDF } from "jspdf";
+import { format } from "date-fns";
+import { ShiftManager } from "@/managers/ShiftManager";
+import { type Shift, type ShiftReport, type PaymentMethod } from "@/types/business";
+import { PAYMENT_METHODS, paymentMethodLabel } from "@/utils/payments";
+
+interface CashDrawerProps {
+  shiftManager: ShiftManager;
+}
+
+const printReport = (shift: Shift, report: ShiftReport) => {
+  const doc = new jsPDF({ unit: "pt", format: "a5" });
+  const margin = 32;
+  let y = 48;
+  doc.setFontSize(14);
+  doc.text(`${report.kind} Report`, margin, y);
+  y += 18;
+  doc.setFontSize(10);
+  doc.text(`Opened: ${format(new Date(shift.opened_at), "MMM d, yyyy h:mm a")}`, margin, y);
+  y += 14;
+  if (shift.closed_at) {
+    doc.text(`Closed: ${format(new Date(shift.closed_at), "MMM d, yyyy h:mm a")}`, margin, y);
+    y += 14;
+  }
+  doc.text(`Sales: ${report.sales_count} (KSh ${report.gross.toFixed(2)})`, margin, y);
+  y += 14;
+  doc.text(`Refunds: ${report.refunds_count} (KSh ${report.refunded.toFixed(2)})`, margin, y);
+  y += 14;
+  doc.text(`Opening float: KSh ${report.opening_float.toFixed(2)}`, margin, y);
+  y += 22;
+
+  doc.setFontSize(11);
+  doc.text("Method", margin, y);
+  doc.text("Expected", 180, y, { align: "right" });
+  doc.text("Counted", 260, y, { align: "right" });
+  doc.text("Variance", 340, y, { align: "right" });
+  y += 16;
+  doc.setFontSize(10);
+  for (const m of PAYMENT_METHODS) {
+    doc.text(paymentMethodLabel(m), margin, y);
+    doc.text(report.expected[m].toFixed(2), 180, y, { align: "right" });
+    doc.text(report.counted ? report.counted[m].toFixed(2) : "-", 260, y, { align: "right" });
+    doc.text(report.variance ? report.variance[m].toFixed(2) : "-", 340, y, { align: "right" });
+    y += 14;
+  }
+
+  doc.save(`${report.kind.toLowerCase()}_report_${report.generated_at.slice(0, 10)}.pdf`);
+};
+
+export const CashDrawer = ({ shiftManager }: CashDrawerProps) => {
+  const { toast } = useToast();
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [history, setHistory] = useState<Shift[]>([]);
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [counted, setCounted] = useState<Partial<Record<PaymentMethod, string>>>({});
+  const [xReport, setXReport] = useState<ShiftReport | null>(null);
+
+  const load = useCallback(async () => {
+    const [current, closed] = await Promise.all([shiftManager.current(), shiftManager.list({ status: "closed", limit: 5 })]);
+    setShift(current.success ? current.data ?? null : null);
+    setHistory(closed.success ? closed.data ?? [] : []);
+  }, [shiftManager]);
+
+  useEffect(() => { load(); }, [load]);
+  // Sales rung up in another window move the expected drawer totals
+  useStorageChanges(["shifts", "sales", "refunds"], () => { load(); });
+
+  const openShift = async () => {
+    const res = await shiftManager.openShift({ opening_float: parseFloat(openingFloat) || 0 });
+    if (!res.success) {
+      toast({ title: "Error", description: res.error, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Shift Opened", description: `Float: KSh ${res.data.opening_float.toFixed(2)}` });
+    setOpeningFloat("");
+    load();
+  };
+
+  const showXReport = async () => {
+    if (!shift) return;
+    const res = await shiftManager.xReport(shift.id);
+    if (res.success) setXReport(res.data);
+  };
+
+  const closeShift = async () => {
+    const amounts: Partial<Record<PaymentMethod, number>> = {};
+    PAYMENT_METHODS.forEach(m => { amounts[m] = parseFloat(counted[m] ?? "") || 0; });
+    const res = await shiftManager.closeShift({ counted: amounts });
+    if (!res.success) {
+      toast({ title: "Error", description: res.error, variant: "destructive" });
+      return;
+    }
+    const variance = res.data.report?.variance?.cash ?? 0;
+    toast({
+      title: "Shift Closed",
+      description: `Cash variance: KSh ${variance.toFixed(2)}`,
+      variant: variance === 0 ? "default" : "destructive",
+    });
+    setCounted({});
+    setXReport(null);
+    load();
+  };
+
+  return (
+    <Card className="shadow-receipt">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <Wallet className="w-4 h-4 text-primary" />
+          Cash Drawer
+          {shift && <Badge variant="secondary" className="ml-auto text-xs">Open since {format(new Date(shift.opened_at), "h:mm a")}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!shift ? (
+          <div className="space-y-2">
+            <Label htmlFor="openingFloat" className="text-xs">Opening Float (KSh)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="openingFloat"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                className="font-receipt"
+              />
+              <Button onClick={openShift}>Open Shift</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Button variant="outline" onClick={showXReport} className="w-full justify-start">
+              <FileText className="w-4 h-4 mr-2" />
+              X Report (mid-shift)
+            </Button>
+
+            {xReport && (
+              <div className="bg-muted/50 p-3 rounded-lg space-y-1 text-sm">
+                {PAYMENT_METHODS.map(m => (
+                  <div key={m} className="flex justify-between">
+                    <span className="text-muted-foreground">{paymentMethodLabel(m)}</span>
+                    <span className="font-receipt">KSh {xReport.expected[m].toFixed(2)}</span>
+                  </div>
+                ))}
+                <Button variant="ghost" size="sm" onClick={() => printReport(shift, xReport)} className="w-full">
+                  <Printer className="w-3 h-3 mr-1" />
+                  Print
+                </Button>
+              </div>
+            )}
+
+            <div className="space-y-2 p-3 border rounded-lg bg-muted/30">
+              <Label className="text-xs font-medium">Counted at Close (KSh)</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {PAYMENT_METHODS.map(m => (
+                  <div key={m} className="space-y-1">
+                    <Label htmlFor={`counted-${m}`} className="text-xs">{paymentMethodLabel(m)}</Label>
+                    <Input
+                      id={`counted-${m}`}
+                      type="number"
+                      step="0.01"
+                      placeholder="0.00"
+                      value={counted[m] ?? ""}
+                      onChange={(e) => setCounted({ ...counted, [m]: e.target.value })}
+                      className="h-9 font-receipt"
+                    />
+                  </div>
+                ))}
+              </div>
+              <Button onClick={closeShift} className="w-full">Close Shift & Z Report</Button>
+            </div>
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="space-y-2 pt-2 border-t border-border">
+            <p className="text-xs font-semibold text-muted-foreground">Recent Z Reports</p>
+            {history.map(s => (
+              <div key={s.id} className="flex justify-between items-center text-xs">
+                <span>{format(new Date(s.opened_at), "MMM d, h:mm a")}</span>
+                <div className="flex items-center gap-2">
+                  <span className={`font-receipt ${(s.report?.variance?.cash ?? 0) === 0 ? "" : "text-destructive"}`}>
+                    {(s.report?.variance?.cash ?? 0).toFixed(2)}
+                  </span>
+                  {s.report && (
+                    <Button variant="ghost" size="sm" onClick={() => printReport(s, s.report!)} className="h-6 px-2">
+                      <Printer className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
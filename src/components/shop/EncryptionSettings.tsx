@@ -0,0 +1,141 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldCheck, Lock, KeyRound } from "lucide-react";
+import { EncryptionManager, type EncryptionStatus } from "@/managers/EncryptionManager";
+
+interface EncryptionSettingsProps {
+  encryptionManager: EncryptionManager;
+}
+
+type Mode = "enable" | "change" | "disable" | null;
+
+export const EncryptionSettings = ({ encryptionManager }: EncryptionSettingsProps) => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<EncryptionStatus>("off");
+  const [mode, setMode] = useState<Mode>(null);
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = encryptionManager.onStatusChange(setStatus);
+    encryptionManager.status();
+    return unsubscribe;
+  }, [encryptionManager]);
+
+  const reset = () => {
+    setMode(null);
+    setCurrent("");
+    setNext("");
+    setConfirm("");
+  };
+
+  const submit = async () => {
+    if (mode !== "disable" && next !== confirm) {
+      toast({ title: "Error", description: "The new passphrases don't match", variant: "destructive" });
+      return;
+    }
+    setIsWorking(true);
+    try {
+      const res =
+        mode === "enable" ? await encryptionManager.enable(next)
+        : mode === "change" ? await encryptionManager.changePassphrase(current, next)
+        : await encryptionManager.disable(current);
+      if (!res.success) {
+        toast({ title: "Error", description: res.error, variant: "destructive" });
+        return;
+      }
+      toast({
+        title: mode === "enable" ? "Encryption On" : mode === "change" ? "Passphrase Changed" : "Encryption Off",
+        description: mode === "enable"
+          ? "Sales, products, staff and shifts are now encrypted on this device. Don't lose the passphrase: it can't be recovered."
+          : mode === "change" ? "Use the new passphrase from now on" : "Records are stored unencrypted again",
+      });
+      reset();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-receipt">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4 text-primary" />
+          Encryption
+          <Badge variant={status === "off" ? "secondary" : "default"} className="text-xs">
+            {status === "off" ? "Off" : "On"}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Encrypts prices, sale lines, customers, staff and cash counts on this device with a passphrase asked for
+          at startup. Names, dates and codes used for lookups stay searchable.
+        </p>
+
+        {mode === null && (
+          <div className="flex flex-wrap gap-2">
+            {status === "off" ? (
+              <Button size="sm" onClick={() => setMode("enable")}>
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                Turn On
+              </Button>
+            ) : (
+              <>
+                <Button size="sm" variant="outline" onClick={() => encryptionManager.lock()}>
+                  <Lock className="w-4 h-4 mr-2" />
+                  Lock Now
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setMode("change")}>
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  Change Passphrase
+                </Button>
+                <Button size="sm" variant="ghost" className="text-destructive" onClick={() => setMode("disable")}>
+                  Turn Off
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+
+        {mode !== null && (
+          <div className="space-y-2">
+            {mode !== "enable" && (
+              <div className="space-y-1">
+                <Label htmlFor="encryption-current">Current passphrase</Label>
+                <Input id="encryption-current" type="password" value={current} onChange={(e) => setCurrent(e.target.value)} />
+              </div>
+            )}
+            {mode !== "disable" && (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="encryption-next">New passphrase</Label>
+                  <Input id="encryption-next" type="password" autoComplete="new-password" value={next} onChange={(e) => setNext(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="encryption-confirm">Repeat new passphrase</Label>
+                  <Input id="encryption-confirm" type="password" autoComplete="new-password" value={confirm} onChange={(e) => setConfirm(e.target.value)} />
+                </div>
+              </>
+            )}
+            <div className="flex gap-2">
+              <Button size="sm" onClick={submit} disabled={isWorking}>
+                {isWorking ? "Working..." : "Confirm"}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={reset} disabled={isWorking}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
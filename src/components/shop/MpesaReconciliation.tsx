@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Smartphone, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { SalesManager } from "@/managers/SalesManager";
+import { parseMpesaStatement, reconcileMpesa, type MpesaReconciliation as Result } from "@/utils/mpesa";
+
+interface MpesaReconciliationProps {
+  salesManager: SalesManager;
+  onReferencesSaved?: () => void;
+}
+
+export const MpesaReconciliation = ({ salesManager, onReferencesSaved }: MpesaReconciliationProps) => {
+  const { toast } = useToast();
+  const [result, setResult] = useState<Result | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const importStatement = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const payments = parseMpesaStatement(await file.text());
+      if (payments.length === 0) throw new Error("No completed incoming payments in this statement");
+
+      // Reconcile against every sale on the days the statement covers
+      const times = payments.map(p => new Date(p.completed_at).getTime());
+      const from = new Date(Math.min(...times));
+      from.setHours(0, 0, 0, 0);
+      const to = new Date(Math.max(...times));
+      to.setHours(23, 59, 59, 999);
+      const sales = await salesManager.salesByDateRange(from.toISOString(), to.toISOString());
+      if (!sales.success) throw new Error(sales.error || "Failed to load sales");
+
+      setResult(reconcileMpesa(sales.data ?? [], payments));
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Import Failed", description: msg, variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+      event.target.value = "";
+    }
+  };
+
+  // Copies statement codes onto sales that were matched by amount and time
+  const saveCodes = async () => {
+    if (!result) return;
+    const pending = result.matched.filter(m => m.by === "amount_time");
+    const saved = new Set<(typeof pending)[number]>();
+    for (const m of pending) {
+      const res = await salesManager.setMpesaReference(m.sale_id, m.tender_index, {
+        transaction_code: m.payment.transaction_code,
+      });
+      if (res.success) saved.add(m);
+    }
+    toast({
+      title: "Codes Saved",
+      description: `Saved ${saved.size} of ${pending.length} M-Pesa codes`,
+      variant: saved.size < pending.length ? "destructive" : "default",
+    });
+    // Only the saved ones now carry the code; the rest stay to be retried
+    setResult({ ...result, matched: result.matched.map(m => (saved.has(m) ? { ...m, by: "code" } : m)) });
+    onReferencesSaved?.();
+  };
+
+  return (
+    <Card className="shadow-receipt">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <Smartphone className="w-4 h-4 text-primary" />
+          M-Pesa Reconciliation
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <input
+          type="file"
+          accept=".csv"
+          onChange={importStatement}
+          style={{ display: "none" }}
+          id="mpesa-statement-import"
+        />
+        <Button
+          variant="outline"
+          onClick={() => document.getElementById("mpesa-statement-import")?.click()}
+          disabled={isImporting}
+          className="w-full justify-start"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          {isImporting ? "Reading statement..." : "Import M-Pesa Statement (CSV)"}
+        </Button>
+
+        {result && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <p className="font-receipt text-lg font-bold">{result.matched.length}</p>
+                <p className="text-xs text-muted-foreground">Matched</p>
+              </div>
+              <div>
+                <p className="font-receipt text-lg font-bold text-warning">{result.unmatched_payments.length}</p>
+                <p className="text-xs text-muted-foreground">Unmatched payments</p>
+              </div>
+              <div>
+                <p className="font-receipt text-lg font-bold text-destructive">{result.unpaid_sales.length}</p>
+                <p className="text-xs text-muted-foreground">Unpaid sales</p>
+              </div>
+            </div>
+
+            {result.unmatched_payments.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-semibold text-warning">Payments with no sale</p>
+                {result.unmatched_payments.map(p => (
+                  <div key={p.transaction_code} className="flex justify-between text-xs">
+                    <span className="font-receipt">{p.transaction_code} • {format(new Date(p.completed_at), "h:mm a")}</span>
+                    <span className="font-receipt">KSh {p.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {result.unpaid_sales.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-semibold text-destructive">M-Pesa sales with no payment</p>
+                {result.unpaid_sales.map(s => (
+                  <div key={`${s.sale_id}:${s.tender_index}`} className="flex justify-between text-xs">
+                    <span className="font-receipt">{s.receipt_number ?? s.sale_id.slice(0, 8)} • {format(new Date(s.date), "h:mm a")}</span>
+                    <span className="font-receipt">KSh {s.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {result.matched.some(m => m.by === "amount_time") && (
+              <Button onClick={saveCodes} className="w-full">
+                Save {result.matched.filter(m => m.by === "amount_time").length} matched codes
+                <Badge variant="secondary" className="ml-2 text-xs">by amount & time</Badge>
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useBarcodeScanner } from "@/hooks/useBarcodeScanner";
+import { Pencil, X, Save, Archive, ArchiveRestore, Trash2, Camera, CameraOff, Wand2 } from "lucide-react";
+import { ProductManager } from "@/managers/ProductManager";
+import { type Product } from "@/types/business";
+import { generateInternalEan13 } from "@/utils/barcode";
+
+const productEditSchema = z.object({
+  name: z.string().trim().min(1, "Product name is required"),
+  category: z.string().trim().optional(),
+  sku: z.string().trim().min(1, "SKU is required"),
+  barcode: z.string().trim().regex(/^[0-9A-Za-z-]*$/, "Barcode may only contain letters, digits and dashes").optional(),
+  low_stock_threshold: z.number().int().min(0, "Low stock threshold must be non-negative"),
+});
+
+type ProductEditData = z.infer<typeof productEditSchema>;
+
+interface ProductEditorProps {
+  product: Product;
+  productManager: ProductManager;
+  existingCategories: string[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export const ProductEditor = ({ product, productManager, existingCategories, onClose, onChanged }: ProductEditorProps) => {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const archived = Boolean(product.archived_at);
+
+  const form = useForm<ProductEditData>({
+    resolver: zodResolver(productEditSchema),
+    defaultValues: {
+      name: product.name,
+      category: product.category ?? "",
+      sku: product.sku,
+      barcode: product.barcode ?? "",
+      low_stock_threshold: product.low_stock_threshold ?? 0,
+    },
+  });
+
+  const scanner = useBarcodeScanner({
+    keyboard: false,
+    onScan: (code) => {
+      form.setValue("barcode", code, { shouldValidate: true, shouldDirty: true });
+      scanner.stop();
+    },
+  });
+
+  const onSubmit = async (data: ProductEditData) => {
+    setIsSaving(true);
+    try {
+      const result = await productManager.editProduct(product.id, {
+        name: data.name,
+        category: data.category || null,
+        sku: data.sku,
+        barcode: data.barcode || null,
+        low_stock_threshold: data.low_stock_threshold,
+      });
+      if (result.success) {
+        toast({ title: "Product Updated", description: `${data.name} has been saved` });
+        onChanged();
+        onClose();
+      } else {
+        toast({ title: "Error", description: result.error || "Failed to update product", variant: "destructive" });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleArchive = async () => {
+    const result = archived
+      ? await productManager.restoreProduct(product.id)
+      : await productManager.archiveProduct(product.id);
+    if (!result.success) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return;
+    }
+    toast({
+      title: archived ? "Product Restored" : "Product Archived",
+      description: archived ? `${product.name} is back on sale` : `${product.name} is hidden from sales; its history is kept`,
+    });
+    onChanged();
+    onClose();
+  };
+
+  const deleteProduct = async () => {
+    const result = await productManager.deleteProduct(product.id);
+    if (!result.success) {
+      toast({ title: "Cannot Delete", description: result.error, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Product Deleted", description: `${product.name} has been removed` });
+    onChanged();
+    onClose();
+  };
+
+  return (
+    <Card className="shadow-receipt">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <Pencil className="w-4 h-4 text-primary" />
+            Edit Product
+            {archived && <Badge variant="secondary" className="text-xs">Archived</Badge>}
+          </CardTitle>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Product Name *</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <FormControl>
+                    <Input list="product-editor-categories" placeholder="Uncategorized" {...field} />
+                  </FormControl>
+                  <datalist id="product-editor-categories">
+                    {existingCategories.map(c => <option key={c} value={c} />)}
+                  </datalist>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="sku"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>SKU *</FormLabel>
+                    <FormControl>
+                      <Input className="font-receipt" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="low_stock_threshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Low Stock Alert *</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="barcode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Barcode</FormLabel>
+                  <div className="flex gap-2">
+                    <FormControl>
+                      <Input
+                        className="font-receipt"
+                        {...field}
+                        onKeyDown={(e) => { if (e.key === "Enter") e.preventDefault(); }}
+                      />
+                    </FormControl>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      title="Scan with camera"
+                      onClick={() => (scanner.isScanning ? scanner.stop() : scanner.start())}
+                    >
+                      {scanner.isScanning ? <CameraOff className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      title="Generate internal EAN-13"
+                      onClick={() => form.setValue("barcode", generateInternalEan13(), { shouldValidate: true, shouldDirty: true })}
+                    >
+                      <Wand2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <video
+                    ref={scanner.videoRef}
+                    muted
+                    className={scanner.isScanning ? "w-full rounded-lg bg-black aspect-video object-cover" : "hidden"}
+                  />
+                  {scanner.error && <p className="text-xs text-destructive">{scanner.error}</p>}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-between text-xs text-muted-foreground bg-muted/50 p-2 rounded-lg">
+              <span>Stock: <span className="font-receipt">{product.current_stock}</span></span>
+              <span>Price: <span className="font-receipt">KSh {product.selling_price.toFixed(2)}</span></span>
+            </div>
+
+            <div className="flex gap-2 pt-2">
+              <Button type="submit" disabled={isSaving} className="flex-1">
+                <Save className="w-4 h-4 mr-2" />
+                {isSaving ? "Saving..." : "Save Changes"}
+              </Button>
+              <Button type="button" variant="outline" onClick={toggleArchive}>
+                {archived ? <ArchiveRestore className="w-4 h-4 mr-2" /> : <Archive className="w-4 h-4 mr-2" />}
+                {archived ? "Restore" : "Archive"}
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button type="button" variant="outline" size="icon" className="text-destructive">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete {product.name}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This permanently removes the product. Products that appear on any sale or have been
+                      restocked or adjusted can't be deleted; archive them instead.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={deleteProduct}>Delete</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+};
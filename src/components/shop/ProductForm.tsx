@@ -11,12 +11,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Package, X } from "lucide-react";
+import { useBarcodeScanner } from "@/hooks/useBarcodeScanner";
+import { Plus, Package, X, Camera, CameraOff, Wand2 } from "lucide-react";
 import { ProductManager, type NewProduct } from "@/managers/ProductManager";
+import { generateInternalEan13 } from "@/utils/barcode";
 
 const productFormSchema = z.object({
   name: z.string().min(1, "Product name is required"),
   category: z.string().optional(),
+  barcode: z.string().trim().regex(/^[0-9A-Za-z-]*$/, "Barcode may only contain letters, digits and dashes").optional(),
   cost_price: z.number().min(0, "Cost price must be positive").optional(),
   selling_price: z.number().min(0, "Selling price must be positive").optional(),
   current_stock: z.number().int().min(0, "Current stock must be non-negative").optional(),
@@ -30,20 +33,31 @@ interface ProductFormProps {
   onProductAdded: () => void;
   productManager: ProductManager;
   existingCategories: string[];
+  initialBarcode?: string;
 }
 
-export const ProductForm = ({ onClose, onProductAdded, productManager, existingCategories }: ProductFormProps) => {
+export const ProductForm = ({ onClose, onProductAdded, productManager, existingCategories, initialBarcode }: ProductFormProps) => {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [customCategory, setCustomCategory] = useState("");
   const [showCustomCategory, setShowCustomCategory] = useState(false);
   const [showCategorySection, setShowCategorySection] = useState(false);
 
+  // Camera only: a keyboard-wedge scanner types straight into the barcode input
+  const scanner = useBarcodeScanner({
+    keyboard: false,
+    onScan: (code) => {
+      form.setValue("barcode", code, { shouldValidate: true });
+      scanner.stop();
+    },
+  });
+
   const form = useForm<ProductFormData>({
     resolver: zodResolver(productFormSchema),
     defaultValues: {
       name: "",
       category: "",
+      barcode: initialBarcode ?? "",
       cost_price: undefined,
       selling_price: undefined,
       current_stock: undefined,
@@ -58,6 +72,7 @@ export const ProductForm = ({ onClose, onProductAdded, productManager, existingC
       const productData: NewProduct = {
         name: data.name,
         category: showCustomCategory ? customCategory : data.category || null,
+        barcode: data.barcode || null, // left empty, an internal EAN-13 is generated
         cost_price: data.cost_price,
         selling_price: data.selling_price,
         current_stock: data.current_stock,
@@ -131,6 +146,52 @@ export const ProductForm = ({ onClose, onProductAdded, productManager, existingC
               )}
             />
 
+            {/* Barcode: typed, scanned or generated */}
+            <FormField
+              control={form.control}
+              name="barcode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Barcode</FormLabel>
+                  <div className="flex gap-2">
+                    <FormControl>
+                      <Input
+                        placeholder="Scan, type or leave empty to generate"
+                        className="font-receipt"
+                        {...field}
+                        onKeyDown={(e) => { if (e.key === "Enter") e.preventDefault(); }}
+                      />
+                    </FormControl>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      title="Scan with camera"
+                      onClick={() => (scanner.isScanning ? scanner.stop() : scanner.start())}
+                    >
+                      {scanner.isScanning ? <CameraOff className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      title="Generate internal EAN-13"
+                      onClick={() => form.setValue("barcode", generateInternalEan13(), { shouldValidate: true })}
+                    >
+                      <Wand2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <video
+                    ref={scanner.videoRef}
+                    muted
+                    className={scanner.isScanning ? "w-full rounded-lg bg-black aspect-video object-cover" : "hidden"}
+                  />
+                  {scanner.error && <p className="text-xs text-destructive">{scanner.error}</p>}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             {/* Category - Collapsible */}
             {!showCategorySection ? (
               <Button
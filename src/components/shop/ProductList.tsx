@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Boxes, ChevronRight } from "lucide-react";
+import { ProductEditor } from "./ProductEditor";
+import { ProductManager } from "@/managers/ProductManager";
+import { type Product } from "@/types/business";
+
+interface ProductListProps {
+  products: Product[];
+  productManager: ProductManager;
+  existingCategories: string[];
+  onProductsChange: () => void;
+}
+
+export const ProductList = ({ products, productManager, existingCategories, onProductsChange }: ProductListProps) => {
+  const [query, setQuery] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const editing = products.find(p => p.id === editingId);
+  const q = query.trim().toLowerCase();
+  const visible = products
+    .filter(p => showArchived || !p.archived_at)
+    .filter(p => !q
+      || p.name.toLowerCase().includes(q)
+      || p.sku.toLowerCase().includes(q)
+      || (p.barcode ?? "").includes(q)
+      || (p.category ?? "").toLowerCase().includes(q))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  if (editing) {
+    return (
+      <ProductEditor
+        key={editing.id}
+        product={editing}
+        productManager={productManager}
+        existingCategories={existingCategories}
+        onClose={() => setEditingId(null)}
+        onChanged={onProductsChange}
+      />
+    );
+  }
+
+  return (
+    <Card className="shadow-receipt">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <Boxes className="w-4 h-4 text-primary" />
+          Products ({products.filter(p => !p.archived_at).length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Input placeholder="Search name, SKU, barcode..." value={query} onChange={(e) => setQuery(e.target.value)} />
+        <div className="flex items-center gap-2">
+          <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+          <Label htmlFor="show-archived" className="text-xs">Show archived</Label>
+        </div>
+
+        {visible.length > 0 ? (
+          <div className="space-y-1 max-h-72 overflow-auto">
+            {visible.map(product => (
+              <button
+                key={product.id}
+                type="button"
+                onClick={() => setEditingId(product.id)}
+                className="w-full flex justify-between items-center py-2 px-1 border-b border-border last:border-b-0 text-left hover:bg-muted/50 rounded"
+              >
+                <div>
+                  <p className="text-sm font-medium">{product.name}</p>
+                  <p className="text-xs text-muted-foreground font-receipt">{product.sku}{product.barcode ? ` • ${product.barcode}` : ""}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {product.archived_at && <Badge variant="secondary" className="text-xs">Archived</Badge>}
+                  <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                </div>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">No products found</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
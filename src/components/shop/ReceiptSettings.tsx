@@ -0,0 +1,71 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Receipt } from "lucide-react";
+import { SalesManager } from "@/managers/SalesManager";
+
+interface ReceiptSettingsProps {
+  salesManager: SalesManager;
+}
+
+export const ReceiptSettings = ({ salesManager }: ReceiptSettingsProps) => {
+  const { toast } = useToast();
+  const [prefix, setPrefix] = useState("");
+  const [yearlyReset, setYearlyReset] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    salesManager.receiptNumbering().then(res => {
+      if (!res.success || !res.data) return;
+      setPrefix(res.data.prefix);
+      setYearlyReset(res.data.yearly_reset);
+    });
+  }, [salesManager]);
+
+  const example = `${prefix.trim()}${yearlyReset ? `${new Date().getFullYear()}-` : ""}000001`;
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const res = await salesManager.configureReceiptNumbering({ prefix: prefix.trim(), yearly_reset: yearlyReset });
+      if (!res.success) {
+        toast({ title: "Error", description: res.error ?? "Failed to save receipt numbering", variant: "destructive" });
+        return;
+      }
+      toast({ title: "Receipt Numbering Saved", description: `The next receipts look like ${example}` });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-receipt">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <Receipt className="w-4 h-4 text-primary" />
+          Receipt Numbers
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="receipt-prefix" className="text-xs">Prefix</Label>
+          <Input id="receipt-prefix" value={prefix} maxLength={12} onChange={(e) => setPrefix(e.target.value)} />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="receipt-yearly-reset" className="text-xs">Start again from 1 each year</Label>
+          <Switch id="receipt-yearly-reset" checked={yearlyReset} onCheckedChange={setYearlyReset} />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Example: <span className="font-receipt">{example}</span>. Numbers already issued keep counting on.
+        </p>
+        <Button size="sm" onClick={save} disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -9,6 +9,8 @@ import { useToast } from "@/hooks/use-toast";
 import { BarChart3, Download, Calendar as CalendarIcon, TrendingUp, DollarSign, Package } from "lucide-react";
 import { jsPDF } from "jspdf";
 import { format } from "date-fns";
+import { type PaymentMethod } from "@/types/business";
+import { PAYMENT_METHODS, paymentMethodLabel } from "@/utils/payments";
 
 interface Sale {
   id: string;
@@ -19,6 +21,8 @@ interface Sale {
   totalAmount: number;
   profit: number;
   date: Date;
+  isRefund?: boolean; // negative row netting out a return
+  tenders?: Array<{ method: PaymentMethod; amount: number }>;
 }
 
 interface ReportsProps {
@@ -60,7 +64,16 @@ export const Reports = ({ sales }: ReportsProps) => {
     const totalRevenue = filteredSales.reduce((sum, sale) => sum + sale.totalAmount, 0);
     const totalProfit = filteredSales.reduce((sum, sale) => sum + sale.profit, 0);
     const totalQuantity = filteredSales.reduce((sum, sale) => sum + sale.quantity, 0);
-    const averageOrder = filteredSales.length > 0 ? totalRevenue / filteredSales.length : 0;
+    const totalRefunds = -filteredSales.filter(sale => sale.isRefund).reduce((sum, sale) => sum + sale.totalAmount, 0);
+    const totalOrders = filteredSales.filter(sale => !sale.isRefund).length;
+    const averageOrder = totalOrders > 0 ? totalRevenue / totalOrders : 0;
+
+    // Takings per payment method (split sales count towards each method)
+    const methodTotals = PAYMENT_METHODS.map(method => ({
+      method,
+      amount: filteredSales.reduce((sum, sale) =>
+        sum + (sale.tenders ?? []).filter(t => t.method === method).reduce((s, t) => s + t.amount, 0), 0),
+    })).filter(m => m.amount !== 0);
 
     // Top selling products
     const productSales: { [key: string]: { name: string; quantity: number; revenue: number } } = {};
@@ -80,6 +93,7 @@ export const Reports = ({ sales }: ReportsProps) => {
 
     const topProducts = Object.entries(productSales)
       .map(([id, data]) => ({ id, ...data }))
+      .filter(p => p.quantity > 0)
       .sort((a, b) => b.revenue - a.revenue)
       .slice(0, 5);
 
@@ -91,8 +105,10 @@ export const Reports = ({ sales }: ReportsProps) => {
       totalProfit,
       totalQuantity,
       averageOrder,
-      totalOrders: filteredSales.length,
+      totalRefunds,
+      totalOrders,
       topProducts,
+      methodTotals,
       sales: filteredSales
     };
   };
@@ -115,7 +131,14 @@ export const Reports = ({ sales }: ReportsProps) => {
       doc.text(`Total Revenue: KSh ${reportData.totalRevenue.toFixed(2)}`, margin, y);
       y += 16;
       doc.text(`Total Profit: KSh ${reportData.totalProfit.toFixed(2)}`, margin, y);
-      y += 20;
+      y += 16;
+      doc.text(`Refunds: KSh ${reportData.totalRefunds.toFixed(2)}`, margin, y);
+      y += 16;
+      for (const m of reportData.methodTotals) {
+        doc.text(`${paymentMethodLabel(m.method)}: KSh ${m.amount.toFixed(2)}`, margin, y);
+        y += 16;
+      }
+      y += 4;
 
       // Table header
       doc.setFontSize(11);
@@ -128,7 +151,7 @@ export const Reports = ({ sales }: ReportsProps) => {
       for (const s of reportData.sales) {
         if (y > 780) { doc.addPage(); y = margin; }
         doc.setFontSize(10);
-        doc.text(String(s.productName), margin, y);
+        doc.text(s.isRefund ? `Refund: ${s.productName}` : String(s.productName), margin, y);
         doc.text(format(s.date, "MMM d, h:mm a"), 240, y);
         doc.text(String(s.quantity), 380, y, { align: 'right' });
         doc.text(`KSh ${s.totalAmount.toFixed(2)}`, 520, y, { align: 'right' });
@@ -249,6 +272,10 @@ export const Reports = ({ sales }: ReportsProps) => {
               <span className="text-muted-foreground">Average Order Value</span>
               <span className="font-receipt font-semibold">KSh {reportData.averageOrder.toFixed(2)}</span>
             </div>
+            <div className="flex justify-between text-sm mt-1">
+              <span className="text-muted-foreground">Refunds</span>
+              <span className="font-receipt font-semibold text-destructive">KSh {reportData.totalRefunds.toFixed(2)}</span>
+            </div>
             <div className="flex justify-between text-sm mt-1">
               <span className="text-muted-foreground">Profit Margin</span>
               <span className="font-receipt font-semibold text-success">
@@ -261,6 +288,27 @@ export const Reports = ({ sales }: ReportsProps) => {
         </CardContent>
       </Card>
 
+      {/* Payment Methods */}
+      <Card className="shadow-receipt">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-semibold">Payment Methods</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {reportData.methodTotals.length > 0 ? (
+            <div className="space-y-2">
+              {reportData.methodTotals.map((m) => (
+                <div key={m.method} className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">{paymentMethodLabel(m.method)}</span>
+                  <span className="font-receipt font-semibold">KSh {m.amount.toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">No payments in this period</p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Top Products */}
       <Card className="shadow-receipt">
         <CardHeader className="pb-3">
@@ -308,14 +356,16 @@ export const Reports = ({ sales }: ReportsProps) => {
               {reportData.sales.slice(-5).reverse().map((sale) => (
                 <div key={sale.id} className="flex justify-between items-center py-2 border-b border-border last:border-b-0">
                   <div>
-                    <p className="text-sm font-medium">{sale.productName}</p>
+                    <p className="text-sm font-medium">{sale.isRefund ? `Refund • ${sale.productName}` : sale.productName}</p>
                     <p className="text-xs text-muted-foreground">
-                      {sale.quantity} × KSh {sale.unitPrice.toFixed(2)} • {format(sale.date, "MMM d, h:mm a")}
+                      {Math.abs(sale.quantity)} × KSh {sale.unitPrice.toFixed(2)} • {format(sale.date, "MMM d, h:mm a")}
                     </p>
                   </div>
                   <div className="text-right">
-                    <p className="font-receipt font-semibold text-success">KSh {sale.totalAmount.toFixed(2)}</p>
-                    <p className="text-xs text-muted-foreground">+KSh {sale.profit.toFixed(2)}</p>
+                    <p className={`font-receipt font-semibold ${sale.isRefund ? "text-destructive" : "text-success"}`}>
+                      {sale.isRefund ? "-" : ""}KSh {Math.abs(sale.totalAmount).toFixed(2)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{sale.profit < 0 ? "-" : "+"}KSh {Math.abs(sale.profit).toFixed(2)}</p>
                   </div>
                 </div>
               ))}
@@ -342,6 +392,8 @@ export const Reports = ({ sales }: ReportsProps) => {
               try {
                 const rows = reportData.sales.map(s => ({
                   id: s.id,
+                  type: s.isRefund ? 'refund' : 'sale',
+                  payment: (s.tenders ?? []).map(t => `${t.method}:${t.amount.toFixed(2)}`).join(' '),
                   productName: s.productName,
                   quantity: s.quantity,
                   unitPrice: s.unitPrice.toFixed(2),
@@ -8,12 +8,16 @@ import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem } from "@/components/ui/command";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Package, Camera, FileText, Search, Check, ChevronsUpDown, X, Download, Upload } from "lucide-react";
+import { useBarcodeScanner } from "@/hooks/useBarcodeScanner";
+import { useProductSearch } from "@/hooks/useProductSearch";
+import { Plus, Package, Camera, CameraOff, FileText, Search, Check, ChevronsUpDown, X, Download, Upload, Tags } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ProductForm } from "./ProductForm";
+import { ProductList } from "./ProductList";
 import { ProductManager } from "@/managers/ProductManager";
 import { StockManager } from "@/managers/StockManager";
 import { type Product } from "@/types/business";
+import { printShelfLabels } from "@/utils/labels";
 
 interface RestockingProps {
   products: Product[];
@@ -32,8 +36,39 @@ export const Restocking = ({ products, productManager, stockManager, onProductsC
   const [showNewProduct, setShowNewProduct] = useState(false);
   const [categories, setCategories] = useState<string[]>([]);
   const [open, setOpen] = useState(false);
+  const [productQuery, setProductQuery] = useState("");
   const [showPricingUpdate, setShowPricingUpdate] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [scannedBarcode, setScannedBarcode] = useState<string | undefined>();
+
+  // Archived products stay editable in the product list but can't be restocked
+  const activeProducts = products.filter(p => !p.archived_at);
+  const { results: searchResults } = useProductSearch(productManager, productQuery, { refreshKey: products });
+  const pickerProducts = searchResults ?? activeProducts;
+
+  // Scanning picks the product to restock; an unknown code opens the new
+  // product form with the barcode filled in. The keyboard listener is off
+  // while that form is open so its barcode input gets the scanner's input.
+  const scanner = useBarcodeScanner({
+    keyboard: !showNewProduct,
+    onScan: async (code) => {
+      scanner.stop();
+      const res = await productManager.findByBarcode(code);
+      const product = res.success ? res.data?.[0] : undefined;
+      if (product?.archived_at) {
+        toast({ title: "Archived Product", description: `${product.name} is archived; restore it to restock`, variant: "destructive" });
+        return;
+      }
+      if (product) {
+        setSelectedProduct(product.id);
+        toast({ title: "Product Found", description: product.name });
+        return;
+      }
+      setScannedBarcode(code);
+      setShowNewProduct(true);
+      toast({ title: "New Barcode", description: `${code} isn't in inventory yet; add it as a new product` });
+    },
+  });
 
   // Load categories when products change
   useEffect(() => {
@@ -159,12 +194,13 @@ export const Restocking = ({ products, productManager, stockManager, onProductsC
       }
 
       // CSV header
-      const headers = ["name", "category", "cost_price", "selling_price", "current_stock", "low_stock_threshold"];
+      const headers = ["name", "category", "barcode", "cost_price", "selling_price", "current_stock", "low_stock_threshold"];
 
       // CSV rows
       const rows = products.map(p => [
         p.name,
         p.category || "",
+        p.barcode || "",
         p.cost_price,
         p.selling_price,
         p.current_stock,
@@ -201,6 +237,23 @@ export const Restocking = ({ products, productManager, stockManager, onProductsC
     }
   };
 
+  const printLabels = async () => {
+    try {
+      // Products created before barcodes were required get an internal EAN-13 first
+      const assigned = await productManager.assignMissingBarcodes();
+      if (!assigned.success) throw new Error(assigned.error || "Failed to assign barcodes");
+      const withCodes = activeProducts.map(p => assigned.data.find(a => a.id === p.id) ?? p);
+      printShelfLabels(withCodes);
+      if (assigned.data.length > 0) {
+        toast({ title: "Barcodes Assigned", description: `Generated ${assigned.data.length} internal barcodes` });
+        onProductsChange();
+      }
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Print Failed", description: msg, variant: "destructive" });
+    }
+  };
+
   const importInventoryFromCsv = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -228,6 +281,7 @@ export const Restocking = ({ products, productManager, stockManager, onProductsC
       const importData: Array<{
         name: string;
         category?: string | null;
+        barcode?: string | null;
         cost_price?: number;
         selling_price?: number;
         current_stock?: number;
@@ -246,6 +300,7 @@ export const Restocking = ({ products, productManager, stockManager, onProductsC
         importData.push({
           name: row.name,
           category: row.category || null,
+          barcode: row.barcode || null,
           cost_price: parseFloat(row.cost_price) || 0,
           selling_price: parseFloat(row.selling_price) || 0,
           current_stock: parseInt(row.current_stock) || 0,
@@ -261,9 +316,13 @@ export const Restocking = ({ products, productManager, stockManager, onProductsC
       const result = await productManager.importProducts(importData);
 
       if (result.success) {
+        const { rejected } = result;
         toast({
-          title: "Import Successful",
-          description: `Imported ${importData.length} products`,
+          title: rejected.length ? "Imported With Skipped Rows" : "Import Successful",
+          description: rejected.length
+            ? `Imported ${result.data.length} products. Skipped ${rejected.length}: ${rejected.map(r => `${r.name} (${r.error})`).join("; ")}`
+            : `Imported ${result.data.length} products`,
+          variant: rejected.length ? "destructive" : "default",
         });
         onProductsChange();
       } else {
@@ -312,16 +371,21 @@ export const Restocking = ({ products, productManager, stockManager, onProductsC
                 </Button>
               </PopoverTrigger>
               <PopoverContent className="w-full p-0" align="start">
-                <Command>
-                  <CommandInput placeholder="Search products..." />
+                <Command shouldFilter={false}>
+                  <CommandInput
+                    placeholder="Name, SKU or barcode..."
+                    value={productQuery}
+                    onValueChange={setProductQuery}
+                  />
                   <CommandEmpty>No product found.</CommandEmpty>
                   <CommandGroup className="max-h-64 overflow-auto">
-                    {products.map((product) => (
+                    {pickerProducts.map((product) => (
                       <CommandItem
                         key={product.id}
-                        value={product.name}
+                        value={product.id}
                         onSelect={() => {
                           setSelectedProduct(product.id);
+                          setProductQuery("");
                           setOpen(false);
                         }}
                       >
@@ -443,10 +507,15 @@ export const Restocking = ({ products, productManager, stockManager, onProductsC
               <Package className="w-4 h-4 mr-2" />
               Add Stock
             </Button>
-            <Button variant="outline" size="icon">
-              <Camera className="w-4 h-4" />
+            <Button variant="outline" size="icon" onClick={() => (scanner.isScanning ? scanner.stop() : scanner.start())}>
+              {scanner.isScanning ? <CameraOff className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
             </Button>
           </div>
+          <video
+            ref={scanner.videoRef}
+            muted
+            className={cn("w-full rounded-lg bg-black aspect-video object-cover", !scanner.isScanning && "hidden")}
+          />
         </CardContent>
       </Card>
 
@@ -493,9 +562,20 @@ export const Restocking = ({ products, productManager, stockManager, onProductsC
             </Button>
           </div>
 
+          <Button
+            variant="outline"
+            onClick={printLabels}
+            className="w-full justify-start"
+          >
+            <Tags className="w-4 h-4 mr-2" />
+            Print Shelf Labels
+          </Button>
+
           {showNewProduct && (
             <ProductForm
-              onClose={() => setShowNewProduct(false)}
+              key={scannedBarcode ?? "new"}
+              initialBarcode={scannedBarcode}
+              onClose={() => { setShowNewProduct(false); setScannedBarcode(undefined); }}
               onProductAdded={handleProductAdded}
               productManager={productManager}
               existingCategories={categories}
@@ -504,15 +584,22 @@ export const Restocking = ({ products, productManager, stockManager, onProductsC
         </CardContent>
       </Card>
 
+      <ProductList
+        products={products}
+        productManager={productManager}
+        existingCategories={categories}
+        onProductsChange={onProductsChange}
+      />
+
       {/* Low Stock Items */}
       <Card className="shadow-receipt">
         <CardHeader className="pb-3">
           <CardTitle className="text-sm font-semibold text-warning">Items Needing Restock</CardTitle>
         </CardHeader>
         <CardContent>
-          {products.filter(p => p.current_stock <= (p.low_stock_threshold || 0)).length > 0 ? (
+          {activeProducts.filter(p => p.current_stock <= (p.low_stock_threshold || 0)).length > 0 ? (
             <div className="space-y-2">
-              {products
+              {activeProducts
                 .filter(p => p.current_stock <= (p.low_stock_threshold || 0))
                 .map((product) => (
                   <div key={product.id} className="flex justify-between items-center py-2 border-b border-border last:border-b-0">
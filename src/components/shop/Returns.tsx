@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { RotateCcw, Search } from "lucide-react";
+import { format } from "date-fns";
+import { type Sale, type UUID } from "@/types/business";
+import { SalesManager } from "@/managers/SalesManager";
+
+interface ReturnsProps {
+  salesManager: SalesManager;
+  onRefundComplete?: () => void;
+}
+
+export const Returns = ({ salesManager, onRefundComplete }: ReturnsProps) => {
+  const { toast } = useToast();
+  const [receiptNumber, setReceiptNumber] = useState("");
+  const [sale, setSale] = useState<Sale | null>(null);
+  const [remaining, setRemaining] = useState<Record<UUID, number>>({});
+  const [quantities, setQuantities] = useState<Record<UUID, string>>({});
+  const [reason, setReason] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const reset = () => {
+    setSale(null);
+    setRemaining({});
+    setQuantities({});
+    setReason("");
+  };
+
+  const loadSale = async (found: Sale) => {
+    const refunds = await salesManager.refundsForSale(found.id);
+    const left: Record<UUID, number> = {};
+    found.items.forEach(it => { left[it.product_id] = it.quantity; });
+    (refunds.data ?? []).forEach(r => r.items.forEach(it => { left[it.product_id] -= it.quantity; }));
+    setSale(found);
+    setRemaining(left);
+    setQuantities({});
+  };
+
+  const lookup = async () => {
+    const number = receiptNumber.trim().toUpperCase();
+    if (!number) return;
+    const res = await salesManager.findByReceiptNumber(number);
+    if (!res.success || !res.data?.length) {
+      reset();
+      toast({ title: "Not Found", description: `No sale with receipt ${number}`, variant: "destructive" });
+      return;
+    }
+    await loadSale(res.data[0]);
+  };
+
+  const refund = async (all: boolean) => {
+    if (!sale) return;
+    const lines = all
+      ? undefined
+      : Object.entries(quantities)
+          .map(([product_id, qty]) => ({ product_id, quantity: parseInt(qty) || 0 }))
+          .filter(l => l.quantity > 0);
+
+    if (lines && lines.length === 0) {
+      toast({ title: "Nothing Selected", description: "Enter a quantity to return", variant: "destructive" });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const res = await salesManager.refundSale(sale.id, lines, { reason: reason || undefined });
+      if (!res.success) {
+        toast({ title: "Refund Failed", description: res.error, variant: "destructive" });
+        return;
+      }
+      toast({
+        title: "Refund Completed",
+        description: `Credit note ${res.data.receipt.number} • KSh ${res.data.total_amount.toFixed(2)}`,
+      });
+      onRefundComplete?.();
+      const updated = await salesManager.findByReceiptNumber(sale.receipt?.number ?? "");
+      if (updated.success && updated.data?.length) await loadSale(updated.data[0]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const voidSale = async () => {
+    if (!sale) return;
+    setBusy(true);
+    try {
+      const res = await salesManager.voidSale(sale.id, reason || undefined);
+      if (!res.success) {
+        toast({ title: "Void Failed", description: res.error, variant: "destructive" });
+        return;
+      }
+      toast({ title: "Sale Voided", description: `${sale.receipt?.number ?? "Sale"} voided and stock restored` });
+      onRefundComplete?.();
+      reset();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canReturn = sale && sale.status !== "voided" && Object.values(remaining).some(q => q > 0);
+
+  return (
+    <Card className="shadow-receipt">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <RotateCcw className="w-4 h-4 text-primary" />
+          Returns & Refunds
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Receipt number e.g. R-000123"
+            value={receiptNumber}
+            onChange={(e) => setReceiptNumber(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter") lookup(); }}
+            className="font-receipt"
+          />
+          <Button variant="outline" size="icon" onClick={lookup}>
+            <Search className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {sale && (
+          <div className="space-y-3">
+            <div className="flex justify-between items-center text-xs text-muted-foreground">
+              <span>{sale.receipt?.number} • {format(new Date(sale.date), "MMM d, h:mm a")}</span>
+              <Badge variant={sale.status === "completed" || !sale.status ? "secondary" : "destructive"} className="text-xs">
+                {(sale.status ?? "completed").replace("_", " ")}
+              </Badge>
+            </div>
+
+            <div className="space-y-2">
+              {sale.items.map((item) => (
+                <div key={item.product_id} className="flex justify-between items-center py-2 border-b border-border last:border-b-0">
+                  <div className="flex-1">
+                    <p className="text-sm font-medium">{item.product_name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.quantity} × KSh {item.unit_price.toFixed(2)} • {remaining[item.product_id] ?? 0} returnable
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    placeholder="0"
+                    min={0}
+                    max={remaining[item.product_id] ?? 0}
+                    value={quantities[item.product_id] ?? ""}
+                    onChange={(e) => setQuantities({ ...quantities, [item.product_id]: e.target.value })}
+                    disabled={!canReturn || (remaining[item.product_id] ?? 0) <= 0}
+                    className="w-16 h-8 font-receipt"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="refundReason" className="text-xs">Reason (optional)</Label>
+              <Input
+                id="refundReason"
+                placeholder="e.g. wrong item scanned"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="h-9"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={() => refund(false)} disabled={!canReturn || busy} className="flex-1">
+                Return Selected
+              </Button>
+              <Button onClick={() => refund(true)} disabled={!canReturn || busy} variant="outline">
+                Return All
+              </Button>
+              <Button
+                onClick={voidSale}
+                disabled={busy || (sale.status ?? "completed") !== "completed"}
+                variant="outline"
+                className="text-destructive"
+              >
+                Void
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -7,12 +7,16 @@ import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem } from "@/components/ui/command";
 import { useToast } from "@/hooks/use-toast";
-import { ShoppingCart, Camera, Calculator, DollarSign, Printer, Check, ChevronsUpDown, X, Percent, Plus } from "lucide-react";
+import { useBarcodeScanner } from "@/hooks/useBarcodeScanner";
+import { useProductSearch } from "@/hooks/useProductSearch";
+import { ShoppingCart, Camera, CameraOff, Calculator, DollarSign, Printer, Check, ChevronsUpDown, X, Percent, Plus, MonitorSmartphone } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { jsPDF } from "jspdf";
-import { type Product, type PaymentMethod, type Sale as StoredSale, type SaleItem as StoredSaleItem } from "@/types/business";
-import { SalesManager } from "@/managers/SalesManager";
+import { type Product, type Sale as StoredSale, type SaleItem as StoredSaleItem } from "@/types/business";
+import { SalesManager, type TenderInput } from "@/managers/SalesManager";
 import { ProductManager } from "@/managers/ProductManager";
+import { Returns } from "./Returns";
+import { TenderPanel } from "./TenderPanel";
 
 interface SalesProps {
   products: Product[];
@@ -36,10 +40,15 @@ export const Sales = ({ products, salesManager, productManager, onSaleComplete }
   const [discountedPrice, setDiscountedPrice] = useState<string>("");
   const [cart, setCart] = useState<SaleItem[]>([]);
   const [open, setOpen] = useState(false);
+  const [productQuery, setProductQuery] = useState("");
   const [showDiscount, setShowDiscount] = useState(false);
+  const [showTender, setShowTender] = useState(false);
 
   // Filter products - only show items in stock
-  const availableProducts = products.filter(product => product.current_stock > 0);
+  const isAvailable = (product: Product) => !product.archived_at && product.current_stock > 0;
+  const availableProducts = products.filter(isAvailable);
+  const { results: searchResults } = useProductSearch(productManager, productQuery, { refreshKey: products });
+  const pickerProducts = searchResults ? searchResults.filter(isAvailable) : availableProducts;
 
   const selectedProductDetails = products.find(p => p.id === selectedProduct);
 
@@ -108,11 +117,61 @@ export const Sales = ({ products, salesManager, productManager, onSaleComplete }
     });
   };
 
+  // Scanned items go straight into the cart, one unit per scan
+  const addScannedProduct = async (code: string) => {
+    if (!productManager) return;
+    const res = await productManager.findByBarcode(code);
+    const product = res.success ? res.data?.find(p => !p.archived_at) : undefined;
+    if (!product) {
+      toast({ title: "Unknown Barcode", description: `No product with barcode ${code}`, variant: "destructive" });
+      return;
+    }
+
+    const inCart = cart.find(item => item.productId === product.id)?.quantity ?? 0;
+    if (inCart + 1 > product.current_stock) {
+      toast({
+        title: "Insufficient Stock",
+        description: `Only ${product.current_stock} units of ${product.name} available`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setCart(prev => {
+      const existing = prev.find(item => item.productId === product.id);
+      if (existing) {
+        return prev.map(item => item.productId === product.id ? { ...item, quantity: item.quantity + 1 } : item);
+      }
+      return [...prev, {
+        productId: product.id,
+        productName: product.name,
+        quantity: 1,
+        unitPrice: product.selling_price,
+        costPrice: product.cost_price
+      }];
+    });
+    toast({ title: "Scanned", description: `1 × ${product.name} added` });
+  };
+
+  const scanner = useBarcodeScanner({ onScan: addScannedProduct });
+
+  const toggleCamera = async () => {
+    if (scanner.isScanning) {
+      scanner.stop();
+      return;
+    }
+    await scanner.start();
+  };
+
+  useEffect(() => {
+    if (scanner.error) toast({ title: "Scanner Error", description: scanner.error, variant: "destructive" });
+  }, [scanner.error, toast]);
+
   const removeFromCart = (productId: string) => {
     setCart(cart.filter(item => item.productId !== productId));
   };
 
-  const completeSale = async () => {
+  const completeSale = async (tenders: TenderInput[]) => {
     if (cart.length === 0) {
       toast({
         title: "Empty Cart",
@@ -144,7 +203,7 @@ export const Sales = ({ products, salesManager, productManager, onSaleComplete }
 
       const result = await salesManager.recordSale({
         items: saleItems,
-        payment_method: "cash" as PaymentMethod,
+        tenders,
         staff_id: undefined,
         customer: null
       });
@@ -152,13 +211,16 @@ export const Sales = ({ products, salesManager, productManager, onSaleComplete }
       if (result.success) {
         const totalAmount = cart.reduce((sum, item) => sum + (item.quantity * item.unitPrice), 0);
         const totalProfit = cart.reduce((sum, item) => sum + (item.quantity * (item.unitPrice - item.costPrice)), 0);
+        const changeDue = result.data.change_due ?? 0;
 
         toast({
           title: "Sale Completed",
-          description: `Total: KSh ${totalAmount.toFixed(2)} | Profit: KSh ${totalProfit.toFixed(2)}`,
+          description: `Total: KSh ${totalAmount.toFixed(2)} | Profit: KSh ${totalProfit.toFixed(2)}`
+            + (changeDue > 0 ? ` | Change: KSh ${changeDue.toFixed(2)}` : ""),
         });
 
         setCart([]);
+        setShowTender(false);
         onSaleComplete?.();
       } else {
         toast({
@@ -405,16 +467,17 @@ export const Sales = ({ products, salesManager, productManager, onSaleComplete }
           for (const s of res.data as StoredSale[]) {
             for (const it of s.items as StoredSaleItem[]) {
               const product = products.find(p => p.id === it.product_id);
+              const cost = it.unit_cost ?? product?.cost_price;
               rows.push({
                 id: it.product_id,
                 name: it.product_name,
                 category: product?.category ?? '',
                 qty: it.quantity,
                 unit_price: it.unit_price.toFixed(2),
-                cost_price: product?.cost_price ?? '',
+                cost_price: cost ?? '',
                 stock_remaining: product?.current_stock ?? '',
                 total: it.subtotal.toFixed(2),
-                profit: product ? ((it.unit_price - product.cost_price) * it.quantity).toFixed(2) : '',
+                profit: cost === undefined ? '' : ((it.unit_price - cost) * it.quantity).toFixed(2),
                 sale_date: s.date,
                 sale_id: s.id,
               });
@@ -458,9 +521,33 @@ export const Sales = ({ products, salesManager, productManager, onSaleComplete }
           <CardTitle className="text-sm font-semibold flex items-center gap-2">
             <ShoppingCart className="w-4 h-4 text-primary" />
             Add Sale Item
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => window.open("/display", "customer-display", "popup")}
+              className="ml-auto h-7 px-2"
+              title="Open the customer display"
+            >
+              <MonitorSmartphone className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={toggleCamera} className="h-7 px-2">
+              {scanner.isScanning ? <CameraOff className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+            </Button>
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
+          {/* Camera preview; kept mounted so the scanner can attach the stream */}
+          <video
+            ref={scanner.videoRef}
+            muted
+            className={cn("w-full rounded-lg bg-black aspect-video object-cover", !scanner.isScanning && "hidden")}
+          />
+          {scanner.isScanning && (
+            <p className="text-xs text-muted-foreground text-center">
+              Point the camera at a barcode{scanner.lastScanned ? ` • last: ${scanner.lastScanned}` : ""}
+            </p>
+          )}
+
           {/* Product Selection with Combobox */}
           <div className="space-y-2">
             <Label>Product *</Label>
@@ -489,16 +576,21 @@ export const Sales = ({ products, salesManager, productManager, onSaleComplete }
                 </Button>
               </PopoverTrigger>
               <PopoverContent className="w-full p-0" align="start">
-                <Command>
-                  <CommandInput placeholder="Search products..." />
+                <Command shouldFilter={false}>
+                  <CommandInput
+                    placeholder="Name, SKU or barcode..."
+                    value={productQuery}
+                    onValueChange={setProductQuery}
+                  />
                   <CommandEmpty>No product found.</CommandEmpty>
                   <CommandGroup className="max-h-64 overflow-auto">
-                    {availableProducts.map((product) => (
+                    {pickerProducts.map((product) => (
                       <CommandItem
                         key={product.id}
-                        value={product.name}
+                        value={product.id}
                         onSelect={() => {
                           setSelectedProduct(product.id);
+                          setProductQuery("");
                           setOpen(false);
                         }}
                       >
@@ -694,8 +786,12 @@ export const Sales = ({ products, salesManager, productManager, onSaleComplete }
               </div>
             </div>
 
+            {showTender && (
+              <TenderPanel total={cartTotal} onConfirm={completeSale} onCancel={() => setShowTender(false)} />
+            )}
+
             <div className="flex gap-2">
-              <Button onClick={completeSale} className="flex-1">
+              <Button onClick={() => setShowTender(true)} disabled={showTender} className="flex-1">
                 <DollarSign className="w-4 h-4 mr-2" />
                 Complete Sale
               </Button>
@@ -706,8 +802,8 @@ export const Sales = ({ products, salesManager, productManager, onSaleComplete }
               <Button onClick={exportAsCsv} variant="outline" className="flex-none">
                 CSV
               </Button>
-              <Button variant="outline" size="icon">
-                <Camera className="w-4 h-4" />
+              <Button variant="outline" size="icon" onClick={toggleCamera}>
+                {scanner.isScanning ? <CameraOff className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
               </Button>
             </div>
           </CardContent>
@@ -754,6 +850,9 @@ export const Sales = ({ products, salesManager, productManager, onSaleComplete }
           )}
         </CardContent>
       </Card>
+
+      {/* Returns / refunds against earlier receipts */}
+      {salesManager && <Returns salesManager={salesManager} onRefundComplete={onSaleComplete} />}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { UserCircle } from "lucide-react";
+import { StaffManager } from "@/managers/StaffManager";
+import { useStorageChanges } from "@/hooks/useStorageChanges";
+import { type Staff } from "@/types/business";
+
+interface StaffOnDutyProps {
+  staffManager: StaffManager;
+}
+
+const NOBODY = "none";
+
+// Picks who is at the till, so their changes are attributed to them in the audit log.
+// Signing in asks for the staff member's PIN (or has them choose one the first time).
+export const StaffOnDuty = ({ staffManager }: StaffOnDutyProps) => {
+  const { toast } = useToast();
+  const [staff, setStaff] = useState<Staff[]>([]);
+  const [current, setCurrent] = useState<Staff | null>(() => staffManager.current());
+  const [signingIn, setSigningIn] = useState<Staff | null>(null);
+  const [pin, setPin] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadStaff = useCallback(async () => {
+    const res = await staffManager.list();
+    if (res.success) setStaff((res.data ?? []).sort((a, b) => a.name.localeCompare(b.name)));
+  }, [staffManager]);
+
+  useEffect(() => {
+    loadStaff();
+    return staffManager.onDutyChange(setCurrent);
+  }, [staffManager, loadStaff]);
+
+  useStorageChanges(["staff"], loadStaff);
+
+  const close = () => {
+    setSigningIn(null);
+    setPin("");
+  };
+
+  const submit = async () => {
+    if (!signingIn) return;
+    setIsWorking(true);
+    try {
+      const res = await staffManager.signIn(signingIn.id, pin);
+      if (!res.success) {
+        toast({ title: "Error", description: res.error, variant: "destructive" });
+        setPin("");
+        return;
+      }
+      close();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (staff.length === 0) return null;
+
+  return (
+    <>
+      <Select
+        value={current?.id ?? NOBODY}
+        onValueChange={(id) => {
+          if (id === NOBODY) staffManager.signOut();
+          else setSigningIn(staff.find(member => member.id === id) ?? null);
+        }}
+      >
+        <SelectTrigger className="h-8 w-auto gap-1 text-xs">
+          <UserCircle className="w-3 h-3" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NOBODY}>Nobody signed in</SelectItem>
+          {staff.map((member) => (
+            <SelectItem key={member.id} value={member.id}>
+              {member.name} ({member.role})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog open={!!signingIn} onOpenChange={(open) => { if (!open) close(); }}>
+        <DialogContent className="max-w-xs">
+          <DialogHeader>
+            <DialogTitle>{signingIn?.pin ? `Sign in as ${signingIn.name}` : `Choose a PIN for ${signingIn?.name}`}</DialogTitle>
+            <DialogDescription>
+              {signingIn?.pin ? "Enter your PIN." : "4 to 12 digits. You'll enter it each time you sign in at the till."}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            autoFocus
+            value={pin}
+            maxLength={12}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+            onKeyDown={(e) => { if (e.key === "Enter") void submit(); }}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={close}>Cancel</Button>
+            <Button onClick={submit} disabled={isWorking || pin.length < 4}>
+              {isWorking ? "Checking..." : "Sign In"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
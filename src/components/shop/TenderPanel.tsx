@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Plus, X } from "lucide-react";
+import { type PaymentMethod } from "@/types/business";
+import { PAYMENT_METHODS, paymentMethodLabel } from "@/utils/payments";
+import { type TenderInput } from "@/managers/SalesManager";
+
+interface TenderPanelProps {
+  total: number;
+  onConfirm: (tenders: TenderInput[]) => void;
+  onCancel: () => void;
+}
+
+interface TenderRow {
+  method: PaymentMethod;
+  amount: string;
+  tendered: string;
+  mpesaCode: string;
+  mpesaPhone: string;
+}
+
+const emptyRow = { tendered: "", mpesaCode: "", mpesaPhone: "" };
+
+export const TenderPanel = ({ total, onConfirm, onCancel }: TenderPanelProps) => {
+  const [rows, setRows] = useState<TenderRow[]>([{ ...emptyRow, method: "cash", amount: total.toFixed(2) }]);
+
+  const paid = rows.reduce((sum, r) => sum + (parseFloat(r.amount) || 0), 0);
+  const remaining = Math.round((total - paid) * 100) / 100;
+  const change = rows.reduce((sum, r) => {
+    const tendered = parseFloat(r.tendered);
+    const amount = parseFloat(r.amount) || 0;
+    return r.method === "cash" && tendered > amount ? sum + (tendered - amount) : sum;
+  }, 0);
+  const shortCash = rows.some(r => r.method === "cash" && r.tendered !== "" && parseFloat(r.tendered) < (parseFloat(r.amount) || 0));
+
+  const updateRow = (index: number, patch: Partial<TenderRow>) => {
+    setRows(rows.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const addSplit = () => {
+    const method = PAYMENT_METHODS.find(m => !rows.some(r => r.method === m)) ?? "other";
+    setRows([...rows, { ...emptyRow, method, amount: remaining > 0 ? remaining.toFixed(2) : "" }]);
+  };
+
+  const confirm = () => {
+    onConfirm(rows.map(r => ({
+      method: r.method,
+      amount: parseFloat(r.amount) || 0,
+      tendered: r.method === "cash" && r.tendered !== "" ? parseFloat(r.tendered) : undefined,
+      mpesa: r.method === "mpesa" ? { transaction_code: r.mpesaCode, phone: r.mpesaPhone } : undefined,
+    })));
+  };
+
+  return (
+    <div className="space-y-3 p-3 border rounded-lg bg-muted/30">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs font-medium">Payment</Label>
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} className="h-6 px-2 text-xs">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {rows.map((row, index) => (
+        <div key={index} className="space-y-2">
+          <div className="flex gap-2">
+            <Select value={row.method} onValueChange={(v) => updateRow(index, { ...emptyRow, method: v as PaymentMethod })}>
+              <SelectTrigger className="h-9 w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAYMENT_METHODS.map(m => (
+                  <SelectItem key={m} value={m}>{paymentMethodLabel(m)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="0.01"
+              placeholder="0.00"
+              value={row.amount}
+              onChange={(e) => updateRow(index, { amount: e.target.value })}
+              className="h-9 font-receipt"
+            />
+            {rows.length > 1 && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                className="h-9 px-2"
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+          {row.method === "cash" && (
+            <Input
+              type="number"
+              step="0.01"
+              placeholder="Cash received (optional)"
+              value={row.tendered}
+              onChange={(e) => updateRow(index, { tendered: e.target.value })}
+              className="h-9 font-receipt"
+            />
+          )}
+          {row.method === "mpesa" && (
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                placeholder="M-Pesa code"
+                value={row.mpesaCode}
+                onChange={(e) => updateRow(index, { mpesaCode: e.target.value.toUpperCase() })}
+                maxLength={10}
+                className="h-9 font-receipt"
+              />
+              <Input
+                type="tel"
+                placeholder="Payer phone"
+                value={row.mpesaPhone}
+                onChange={(e) => updateRow(index, { mpesaPhone: e.target.value })}
+                className="h-9 font-receipt"
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={addSplit}
+        className="w-full justify-start text-muted-foreground hover:text-foreground"
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Split payment
+      </Button>
+
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span>Remaining:</span>
+          <span className={`font-receipt ${remaining !== 0 ? "text-destructive" : ""}`}>KSh {remaining.toFixed(2)}</span>
+        </div>
+        {change > 0 && (
+          <div className="flex justify-between font-semibold text-success">
+            <span>Change Due:</span>
+            <span className="font-receipt">KSh {change.toFixed(2)}</span>
+          </div>
+        )}
+      </div>
+
+      <Button onClick={confirm} disabled={remaining !== 0 || shortCash} className="w-full">
+        <Check className="w-4 h-4 mr-2" />
+        Confirm Payment
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect, useMemo, useCallback, type ReactNode } from "react";
+import { StorageContext, createShopStorage, type ShopStorage, type StorageContextValue } from "./storage";
+import { getClientId, setClientId } from "@/storage/clientId";
+import { supabaseRemote } from "@/integrations/supabase/remote";
+
+interface StorageProviderProps {
+  children: ReactNode;
+  clientId?: string;
+}
+
+function closeShop(shop: ShopStorage) {
+  shop.storage.changes.close();
+  return shop.adapter.close();
+}
+
+export const StorageProvider = ({ children, clientId: initialClientId }: StorageProviderProps) => {
+  const [clientId, setActiveClientId] = useState(() => initialClientId ?? getClientId());
+  const [shop, setShop] = useState<ShopStorage | null>(null);
+
+  // The connection belongs to this provider: opened and closed by the same effect, so a
+  // re-run (a new client id, StrictMode, hot reload) never keeps using a closed one
+  useEffect(() => {
+    const next = createShopStorage(clientId, supabaseRemote());
+    setShop(next);
+    return () => {
+      setShop(current => (current === next ? null : current));
+      void closeShop(next);
+    };
+  }, [clientId]);
+
+  const switchDatabase = useCallback((next: string) => {
+    setClientId(next);
+    setActiveClientId(next);
+  }, []);
+
+  const value = useMemo<StorageContextValue | null>(
+    () => shop && ({ ...shop, switchDatabase, shutdown: () => closeShop(shop) }),
+    [shop, switchDatabase],
+  );
+
+  if (!value) return null;
+  return <StorageContext.Provider value={value}>{children}</StorageContext.Provider>;
+};
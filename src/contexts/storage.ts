@@ -0,0 +1,51 @@
+import { createContext } from "react";
+import { createAdapter, getStorageAdapterKind, type AdapterKind } from "@/storage/adapters";
+import { StorageService } from "@/storage/StorageService";
+import { ProductManager } from "@/managers/ProductManager";
+import { SalesManager } from "@/managers/SalesManager";
+import { StockManager } from "@/managers/StockManager";
+import { ShiftManager } from "@/managers/ShiftManager";
+import { StaffManager } from "@/managers/StaffManager";
+import { SettingsManager } from "@/managers/SettingsManager";
+import { EncryptionManager } from "@/managers/EncryptionManager";
+import { AuditManager } from "@/managers/AuditManager";
+import { BackupManager } from "@/managers/BackupManager";
+import { SyncManager, type SyncRemote } from "@/managers/SyncManager";
+
+// One connection and one instance of every manager, shared by the whole app.
+// The backend is the one picked for this device unless `kind` says otherwise.
+// The sync remote is passed in so nothing here loads the Supabase client,
+// which needs a browser, and the managers can be run under Node.
+export function createShopStorage(clientId: string, remote: SyncRemote, kind: AdapterKind = getStorageAdapterKind()) {
+  const adapter = createAdapter(clientId, kind);
+  const storage = new StorageService(adapter);
+  const products = new ProductManager(storage);
+  const stock = new StockManager(storage);
+  const settings = new SettingsManager(storage);
+  const encryption = new EncryptionManager(storage);
+  return {
+    clientId,
+    adapter,
+    storage,
+    products,
+    stock,
+    sales: new SalesManager(storage, products, stock),
+    shifts: new ShiftManager(storage),
+    staff: new StaffManager(storage),
+    settings,
+    encryption,
+    audit: new AuditManager(storage),
+    backups: new BackupManager(storage, settings, encryption),
+    sync: new SyncManager(storage, remote),
+  };
+}
+
+export type ShopStorage = ReturnType<typeof createShopStorage>;
+
+export interface StorageContextValue extends ShopStorage {
+  // Closes the current database and reopens the app against another client's
+  switchDatabase: (clientId: string) => void;
+  shutdown: () => Promise<void>;
+}
+
+export const StorageContext = createContext<StorageContextValue | null>(null);
@@ -1,25 +1,124 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { decodeImage } from "@/utils/barcode";
 
-export function useBarcodeScanner() {
+// Chromium's native detector; not in the TS DOM lib yet
+interface NativeBarcodeDetector {
+  detect(source: CanvasImageSource): Promise<Array<{ rawValue: string }>>;
+}
+type NativeBarcodeDetectorCtor = new (options: { formats: string[] }) => NativeBarcodeDetector;
+
+const FRAME_INTERVAL_MS = 200;
+// The same code read again within this window is treated as one scan
+const REPEAT_WINDOW_MS = 1500;
+// Keyboard-wedge scanners type a whole code in well under this per key
+const WEDGE_KEY_GAP_MS = 50;
+const WEDGE_MIN_LENGTH = 6;
+
+interface BarcodeScannerOptions {
+  onScan?: (code: string) => void;
+  keyboard?: boolean; // listen for USB/Bluetooth keyboard-wedge scanners
+}
+
+export function useBarcodeScanner({ onScan, keyboard = true }: BarcodeScannerOptions = {}) {
   const [isScanning, setIsScanning] = useState(false);
   const [lastScanned, setLastScanned] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
   const intervalRef = useRef<number | null>(null);
+  const lastHitRef = useRef<{ code: string; at: number } | null>(null);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
 
-  useEffect(() => {
-    return () => { if (intervalRef.current) window.clearInterval(intervalRef.current); };
+  const emit = useCallback((code: string) => {
+    const now = Date.now();
+    const last = lastHitRef.current;
+    if (last && last.code === code && now - last.at < REPEAT_WINDOW_MS) return;
+    lastHitRef.current = { code, at: now };
+    setLastScanned(code);
+    onScanRef.current?.(code);
   }, []);
 
-  // Placeholder: Simulates future barcode scanning integration
-  function start() {
-    setIsScanning(true);
-    // Coming soon: integrate with camera and decoding library
-    // For now, we leave a no-op with a friendly message hook
-  }
-
-  function stop() {
-    setIsScanning(false);
+  const stop = useCallback(() => {
     if (intervalRef.current) window.clearInterval(intervalRef.current);
-  }
+    intervalRef.current = null;
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    setIsScanning(false);
+  }, []);
+
+  const start = useCallback(async () => {
+    setError(null);
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("Camera not available in this browser");
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" }, audio: false });
+      streamRef.current = stream;
+      const video = videoRef.current;
+      if (!video) throw new Error("No video element to show the camera");
+      video.srcObject = stream;
+      video.setAttribute("playsinline", "true");
+      await video.play();
+      setIsScanning(true);
+
+      const Native = (window as unknown as { BarcodeDetector?: NativeBarcodeDetectorCtor }).BarcodeDetector;
+      const native = Native ? new Native({ formats: ["ean_13", "upc_a", "code_128"] }) : null;
+      let busy = false;
+
+      intervalRef.current = window.setInterval(async () => {
+        if (busy || video.readyState < 2) return;
+        busy = true;
+        try {
+          const code = native
+            ? (await native.detect(video))[0]?.rawValue
+            : decodeImage(video)?.text;
+          if (code) emit(code);
+        } catch {
+          // A frame that can't be read is skipped; the next one gets a go
+        } finally {
+          busy = false;
+        }
+      }, FRAME_INTERVAL_MS);
+    } catch (e: unknown) {
+      stop();
+      const msg = e instanceof Error ? e.message : String(e);
+      setError(msg.includes("Permission") || msg.includes("NotAllowed") ? "Camera permission denied" : msg);
+    }
+  }, [emit, stop]);
+
+  // Keyboard-wedge scanners "type" the code then press Enter. Only a fast
+  // burst counts, so normal typing into inputs is left alone.
+  useEffect(() => {
+    if (!keyboard) return;
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      const now = performance.now();
+      if (now - lastKeyAt > WEDGE_KEY_GAP_MS) buffer = "";
+      lastKeyAt = now;
+
+      if (e.key === "Enter") {
+        if (buffer.length >= WEDGE_MIN_LENGTH) {
+          e.preventDefault();
+          emit(buffer);
+        }
+        buffer = "";
+      } else if (e.key.length === 1) {
+        // Any printable character: Code 128/39 carry punctuation and spaces.
+        // The key gap and the Enter terminator tell a scan from typing
+        buffer += e.key;
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, [keyboard, emit]);
+
+  useEffect(() => stop, [stop]);
 
-  return { isScanning, lastScanned, setLastScanned, start, stop, message: "Barcode scanning coming soon" };
+  return { videoRef, isScanning, lastScanned, setLastScanned, error, start, stop };
 }
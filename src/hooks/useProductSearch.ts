@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { ProductManager, type RankedSearchOptions } from "@/managers/ProductManager";
+import { type Product } from "@/types/business";
+
+/**
+ * Debounced ranked search for product pickers. `results` is null while the
+ * query is blank, so callers can fall back to their full list. Pass the
+ * current product list as `refreshKey` to re-run the query after saves.
+ */
+export const useProductSearch = (
+  productManager: ProductManager,
+  query: string,
+  options: RankedSearchOptions & { delay?: number; refreshKey?: unknown } = {},
+) => {
+  const { limit = 20, includeArchived = false, delay = 150, refreshKey } = options;
+  const [results, setResults] = useState<Product[] | null>(null);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      setSearching(false);
+      return;
+    }
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const res = await productManager.rankedSearch(query, { limit, includeArchived });
+      if (cancelled) return;
+      if (!res.success) console.error("Product search failed:", res.error);
+      setResults(res.data);
+      setSearching(false);
+    }, delay);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [productManager, query, limit, includeArchived, delay, refreshKey]);
+
+  return { results, searching };
+};
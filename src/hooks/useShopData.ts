@@ -1,67 +1,21 @@
 import { useState, useEffect, useCallback } from "react";
-import { ProductManager } from "@/managers/ProductManager";
-import { SalesManager } from "@/managers/SalesManager";
-import { DatabaseManager } from "@/storage/DatabaseManager";
-import { StorageService } from "@/storage/StorageService";
-import { type Product, type Sale } from "@/types/business";
+import { type Product, type Sale, type Refund } from "@/types/business";
 import { useToast } from "@/hooks/use-toast";
-
-// Generate a simple client ID for IndexedDB (in real app, this would be user-specific)
-const getClientId = () => {
-  let clientId = localStorage.getItem('shop_client_id');
-  if (!clientId) {
-    clientId = Math.random().toString(36).substring(2, 15);
-    localStorage.setItem('shop_client_id', clientId);
-  }
-  return clientId;
-};
+import { useProductManager, useSalesManager } from "@/hooks/useStorage";
+import { useStorageChanges } from "@/hooks/useStorageChanges";
 
 export const useShopData = () => {
   const { toast } = useToast();
+  const productManager = useProductManager();
+  const salesManager = useSalesManager();
   const [products, setProducts] = useState<Product[]>([]);
   const [sales, setSales] = useState<Sale[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
   const [loading, setLoading] = useState(true);
-  const [productManager, setProductManager] = useState<ProductManager | null>(null);
-  const [salesManager, setSalesManager] = useState<SalesManager | null>(null);
-
-  // Initialize managers
-  useEffect(() => {
-    const initializeManagers = async () => {
-      try {
-        const clientId = getClientId();
-        const dbManager = new DatabaseManager(clientId);
-        const storageService = new StorageService(dbManager);
-        
-        const prodManager = new ProductManager(storageService);
-        const salesMgr = new SalesManager(storageService, prodManager);
-        
-        setProductManager(prodManager);
-        setSalesManager(salesMgr);
-        
-        // Load initial data
-        await loadProducts(prodManager);
-        await loadSales(salesMgr);
-      } catch (error) {
-        console.error('Failed to initialize managers:', error);
-        toast({
-          title: "Initialization Error",
-          description: "Failed to initialize data storage. Please refresh the page.",
-          variant: "destructive",
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    initializeManagers();
-  }, [toast]);
-
-  const loadProducts = useCallback(async (manager?: ProductManager) => {
-    const mgr = manager || productManager;
-    if (!mgr) return;
 
+  const loadProducts = useCallback(async () => {
     try {
-      const result = await mgr.search(""); // Get all products
+      const result = await productManager.search(""); // Get all products
       if (result.success) {
         setProducts(result.data);
       } else {
@@ -72,20 +26,24 @@ export const useShopData = () => {
     }
   }, [productManager]);
 
-  const loadSales = useCallback(async (manager?: SalesManager) => {
-    const mgr = manager || salesManager;
-    if (!mgr) return;
-
+  const loadSales = useCallback(async () => {
     try {
-      const result = await mgr.salesByDateRange(
-        new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(), // Last 30 days
-        new Date().toISOString()
-      );
+      const from = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(); // Last 30 days
+      const to = new Date().toISOString();
+      const [result, refundResult] = await Promise.all([
+        salesManager.salesByDateRange(from, to),
+        salesManager.refundsByDateRange(from, to),
+      ]);
       if (result.success) {
         setSales(result.data);
       } else {
         console.error('Failed to load sales:', result.data);
       }
+      if (refundResult.success) {
+        setRefunds(refundResult.data);
+      } else {
+        console.error('Failed to load refunds:', refundResult.error);
+      }
     } catch (error) {
       console.error('Error loading sales:', error);
     }
@@ -95,9 +53,37 @@ export const useShopData = () => {
     await Promise.all([loadProducts(), loadSales()]);
   }, [loadProducts, loadSales]);
 
+  // Writes here or in another tab: reload only the slices they touch
+  useStorageChanges(["products", "sales", "refunds"], (changes) => {
+    if (changes.some(c => c.store === "products")) loadProducts();
+    if (changes.some(c => c.store !== "products")) loadSales();
+  });
+
+  // Initial load, and again whenever the provider switches databases
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        await Promise.all([loadProducts(), loadSales()]);
+      } catch (error) {
+        console.error('Failed to load shop data:', error);
+        toast({
+          title: "Initialization Error",
+          description: "Failed to initialize data storage. Please refresh the page.",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [loadProducts, loadSales, toast]);
+
   return {
     products,
     sales,
+    refunds,
     loading,
     productManager,
     salesManager,
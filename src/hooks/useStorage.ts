@@ -0,0 +1,19 @@
+import { useContext } from "react";
+import { StorageContext } from "@/contexts/storage";
+
+export function useStorage() {
+  const ctx = useContext(StorageContext);
+  if (!ctx) throw new Error("useStorage must be used inside <StorageProvider>");
+  return ctx;
+}
+
+export const useProductManager = () => useStorage().products;
+export const useSalesManager = () => useStorage().sales;
+export const useStockManager = () => useStorage().stock;
+export const useShiftManager = () => useStorage().shifts;
+export const useStaffManager = () => useStorage().staff;
+export const useSettingsManager = () => useStorage().settings;
+export const useEncryptionManager = () => useStorage().encryption;
+export const useAuditManager = () => useStorage().audit;
+export const useBackupManager = () => useStorage().backups;
+export const useSyncManager = () => useStorage().sync;
@@ -0,0 +1,27 @@
+import { useEffect, useRef } from "react";
+import { useStorage } from "@/hooks/useStorage";
+import { type ChangeEvent, type StorageChange } from "@/storage/changes";
+import { type StoreName } from "@/types/business";
+
+/**
+ * Calls `onChange` whenever a write to one of `stores` commits, in this tab
+ * or any other window open on the same database. Only the changes to the
+ * requested stores are passed on.
+ */
+export const useStorageChanges = (
+  stores: StoreName[],
+  onChange: (changes: StorageChange[], event: ChangeEvent) => void,
+) => {
+  const { storage } = useStorage();
+  const handler = useRef(onChange);
+  useEffect(() => { handler.current = onChange; }, [onChange]);
+
+  const watched = stores.join(",");
+  useEffect(() => {
+    const names = watched.split(",");
+    return storage.changes.subscribe((event) => {
+      const relevant = event.changes.filter(c => names.includes(c.store));
+      if (relevant.length) handler.current(relevant, event);
+    });
+  }, [storage, watched]);
+};
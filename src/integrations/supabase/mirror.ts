@@ -0,0 +1,206 @@
+// How local records map onto the Supabase tables. Pure: nothing here talks
+// to Supabase, so the mapping can be pointed at any PostgREST.
+
+import type { Database, Json, TablesInsert } from "./types";
+import type { BusinessSettings, Product, Receipt, Refund, Sale, Shift, Staff, StockMovement, StoreName } from "@/types/business";
+
+export type RemoteTable = keyof Database["public"]["Tables"];
+
+// Bump when the mapping changes: SyncManager then queues every synced record
+// again, so rows already pushed are rewritten in the new shape
+export const MIRROR_VERSION = 5; // 3: refunds and shifts; 4: product sku, barcode, archive and version; 5: refund tenders
+
+// Rows to upsert into (or ids to delete from) one table
+export interface RemoteChange {
+  table: RemoteTable;
+  upsert?: Record<string, unknown>[];
+  remove?: string[];
+}
+
+export interface MirrorContext {
+  userId: string;
+  // Current cost price, for the profit of lines recorded before SaleItem.unit_cost was kept
+  costOf: (productId: string) => Promise<number | undefined>;
+}
+
+// Local sale lines have no ids, so each gets a stable UUID derived from the
+// sale id and its position. Lines never change once a sale is rung up
+// (refunds are separate records), so re-pushing a sale rewrites the same rows.
+async function lineId(saleId: string, line: number) {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${saleId}:${line}`)));
+  const hex = Array.from(digest.subarray(0, 16), b => b.toString(16).padStart(2, "0")).join("");
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-8${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+const json = (value: unknown) => (value ?? null) as Json;
+
+function productRow(p: Product, userId: string): TablesInsert<"products"> {
+  return {
+    id: p.id,
+    user_id: userId,
+    name: p.name,
+    sku: p.sku,
+    barcode: p.barcode ?? null,
+    category: p.category ?? null,
+    current_stock: p.current_stock,
+    low_stock_threshold: p.low_stock_threshold ?? 0,
+    cost_price: p.cost_price,
+    selling_price: p.selling_price,
+    archived_at: p.archived_at ?? null,
+    version: p.version ?? 1,
+    created_at: p.created_at,
+    updated_at: p.updated_at,
+  };
+}
+
+function saleRow(sale: Sale, userId: string): TablesInsert<"sales"> {
+  return {
+    id: sale.id,
+    user_id: userId,
+    date: sale.date,
+    total_amount: sale.total_amount,
+    payment_method: sale.payment_method,
+    tenders: json(sale.tenders ?? [{ method: sale.payment_method, amount: sale.total_amount }]),
+    change_due: sale.change_due ?? 0,
+    staff_id: sale.staff_id ?? null,
+    customer: json(sale.customer),
+    status: sale.status ?? "completed",
+    voided_at: sale.voided_at ?? null,
+    refunded_amount: sale.refunded_amount ?? 0,
+    shift_id: sale.shift_id ?? null,
+  };
+}
+
+async function saleItemRows(sale: Sale, ctx: MirrorContext): Promise<TablesInsert<"sale_items">[]> {
+  return Promise.all(sale.items.map(async (item, i) => {
+    const cost = item.unit_cost ?? await ctx.costOf(item.product_id);
+    return {
+      id: await lineId(sale.id, i),
+      user_id: ctx.userId,
+      sale_id: sale.id,
+      line: i,
+      product_id: item.product_id,
+      product_name: item.product_name,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      subtotal: item.subtotal,
+      profit: cost === undefined ? null : item.subtotal - cost * item.quantity,
+    };
+  }));
+}
+
+function receiptRow(r: Receipt, userId: string, refundId: string | null = null): TablesInsert<"receipts"> {
+  return {
+    id: r.id,
+    user_id: userId,
+    sale_id: r.sale_id,
+    refund_id: refundId,
+    number: r.number,
+    kind: r.kind ?? "sale",
+    issued_at: r.issued_at,
+    total: r.total,
+    payment_method: r.payment_method,
+    original_receipt_number: r.original_receipt_number ?? null,
+    mpesa: json(r.mpesa ?? []),
+  };
+}
+
+function refundRow(refund: Refund, userId: string): TablesInsert<"refunds"> {
+  return {
+    id: refund.id,
+    user_id: userId,
+    sale_id: refund.sale_id,
+    date: refund.date,
+    items: json(refund.items),
+    total_amount: refund.total_amount,
+    tenders: json(refund.tenders ?? []),
+    reason: refund.reason ?? null,
+    staff_id: refund.staff_id ?? null,
+    shift_id: refund.shift_id ?? null,
+  };
+}
+
+function shiftRow(s: Shift, userId: string): TablesInsert<"shifts"> {
+  return {
+    id: s.id,
+    user_id: userId,
+    status: s.status,
+    opened_at: s.opened_at,
+    opened_by: s.opened_by ?? null,
+    opening_float: s.opening_float,
+    closed_at: s.closed_at ?? null,
+    closed_by: s.closed_by ?? null,
+    report: json(s.report),
+  };
+}
+
+function movementRow(m: StockMovement, userId: string): TablesInsert<"stock_movements"> {
+  return {
+    id: m.id,
+    user_id: userId,
+    product_id: m.product_id,
+    quantity: m.quantity,
+    type: m.type,
+    notes: m.notes ?? null,
+    supplier_id: m.supplier_id ?? null,
+    sale_id: m.sale_id ?? null,
+    date: m.date,
+  };
+}
+
+function staffRow(s: Staff, userId: string): TablesInsert<"staff"> {
+  return { id: s.id, user_id: userId, name: s.name, email: s.email, role: s.role, created_at: s.created_at };
+}
+
+function settingsRow(s: BusinessSettings, userId: string): TablesInsert<"settings"> {
+  return {
+    id: s.id,
+    user_id: userId,
+    business_name: s.business_name,
+    default_currency: s.default_currency,
+    timezone: s.timezone,
+    backup: json(s.backup),
+    created_at: s.created_at,
+    updated_at: s.updated_at,
+  };
+}
+
+// Stores whose records are a single row of one table
+const ROW_MAPPERS: Partial<Record<StoreName, { table: RemoteTable; row: (record: never, userId: string) => Record<string, unknown> }>> = {
+  products: { table: "products", row: productRow },
+  stock_movements: { table: "stock_movements", row: movementRow },
+  staff: { table: "staff", row: staffRow },
+  shifts: { table: "shifts", row: shiftRow },
+  business_settings: { table: "settings", row: settingsRow },
+};
+
+/**
+ * What to send for a record of `store` as it stands now (`record` undefined:
+ * it was deleted). Empty when the record has no counterpart remotely.
+ */
+export async function remoteChanges(store: StoreName, recordId: string, record: unknown, ctx: MirrorContext): Promise<RemoteChange[]> {
+  if (store === "sales") {
+    // Deleting the sale takes its lines and receipt with it
+    const sale = record as Sale | undefined;
+    if (!sale) return [{ table: "sales", remove: [recordId] }];
+    const changes: RemoteChange[] = [
+      { table: "sales", upsert: [saleRow(sale, ctx.userId)] },
+      { table: "sale_items", upsert: await saleItemRows(sale, ctx) },
+    ];
+    if (sale.receipt) changes.push({ table: "receipts", upsert: [receiptRow(sale.receipt, ctx.userId)] });
+    return changes;
+  }
+  if (store === "refunds") {
+    // The credit note goes with the refund, and is deleted with it
+    const refund = record as Refund | undefined;
+    if (!refund) return [{ table: "refunds", remove: [recordId] }];
+    return [
+      { table: "refunds", upsert: [refundRow(refund, ctx.userId)] },
+      { table: "receipts", upsert: [receiptRow(refund.receipt, ctx.userId, refund.id)] },
+    ];
+  }
+  const mapper = ROW_MAPPERS[store];
+  if (!mapper) return [];
+  return [record ? { table: mapper.table, upsert: [mapper.row(record as never, ctx.userId)] } : { table: mapper.table, remove: [recordId] }];
+}
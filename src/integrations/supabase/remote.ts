@@ -0,0 +1,27 @@
+import { supabase } from "./client";
+import type { RemoteChange } from "./mirror";
+import type { SyncRemote } from "@/managers/SyncManager";
+
+/** SyncRemote over the app's Supabase project, writing as the signed-in user. */
+export function supabaseRemote(client = supabase): SyncRemote {
+  return {
+    async userId() {
+      const { data } = await client.auth.getSession();
+      return data.session?.user.id ?? null;
+    },
+    async apply(change: RemoteChange) {
+      if (change.upsert?.length) {
+        const { error } = await client.from(change.table).upsert(change.upsert as never);
+        if (error) throw new Error(error.message);
+      }
+      if (change.remove?.length) {
+        const { error } = await client.from(change.table).delete().in("id", change.remove);
+        if (error) throw new Error(error.message);
+      }
+    },
+    onUserChange(listener) {
+      const { data } = client.auth.onAuthStateChange(() => listener());
+      return () => data.subscription.unsubscribe();
+    },
+  };
+}
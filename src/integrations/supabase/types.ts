@@ -16,6 +16,8 @@ export type Database = {
     Tables: {
       products: {
         Row: {
+          archived_at: string | null
+          barcode: string | null
           category: string | null
           cost_price: number
           created_at: string
@@ -25,10 +27,14 @@ export type Database = {
           low_stock_threshold: number
           name: string
           selling_price: number
+          sku: string | null
           updated_at: string
           user_id: string
+          version: number
         }
         Insert: {
+          archived_at?: string | null
+          barcode?: string | null
           category?: string | null
           cost_price?: number
           created_at?: string
@@ -38,10 +44,14 @@ export type Database = {
           low_stock_threshold?: number
           name: string
           selling_price?: number
+          sku?: string | null
           updated_at?: string
           user_id: string
+          version?: number
         }
         Update: {
+          archived_at?: string | null
+          barcode?: string | null
           category?: string | null
           cost_price?: number
           created_at?: string
@@ -51,11 +61,143 @@ export type Database = {
           low_stock_threshold?: number
           name?: string
           selling_price?: number
+          sku?: string | null
           updated_at?: string
           user_id?: string
+          version?: number
         }
         Relationships: []
       }
+      receipts: {
+        Row: {
+          created_at: string
+          id: string
+          issued_at: string
+          kind: string
+          mpesa: Json
+          number: string
+          original_receipt_number: string | null
+          payment_method: string
+          refund_id: string | null
+          sale_id: string
+          total: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          issued_at?: string
+          kind?: string
+          mpesa?: Json
+          number: string
+          original_receipt_number?: string | null
+          payment_method: string
+          refund_id?: string | null
+          sale_id: string
+          total: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          issued_at?: string
+          kind?: string
+          mpesa?: Json
+          number?: string
+          original_receipt_number?: string | null
+          payment_method?: string
+          refund_id?: string | null
+          sale_id?: string
+          total?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipts_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipts_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refunds: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          items: Json
+          reason: string | null
+          sale_id: string
+          shift_id: string | null
+          staff_id: string | null
+          tenders: Json
+          total_amount: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date?: string
+          id?: string
+          items?: Json
+          reason?: string | null
+          sale_id: string
+          shift_id?: string | null
+          staff_id?: string | null
+          tenders?: Json
+          total_amount: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          items?: Json
+          reason?: string | null
+          sale_id?: string
+          shift_id?: string | null
+          staff_id?: string | null
+          tenders?: Json
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       restocks: {
         Row: {
           created_at: string
@@ -106,54 +248,375 @@ export type Database = {
           },
         ]
       }
+      sale_items: {
+        Row: {
+          created_at: string
+          id: string
+          line: number
+          product_id: string
+          product_name: string
+          profit: number | null
+          quantity: number
+          sale_id: string
+          subtotal: number
+          unit_price: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          line: number
+          product_id: string
+          product_name: string
+          profit?: number | null
+          quantity: number
+          sale_id: string
+          subtotal: number
+          unit_price: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          line?: number
+          product_id?: string
+          product_name?: string
+          profit?: number | null
+          quantity?: number
+          sale_id?: string
+          subtotal?: number
+          unit_price?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_items_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sales: {
         Row: {
+          change_due: number
+          created_at: string
+          customer: Json | null
+          date: string
+          id: string
+          payment_method: string
+          refunded_amount: number
+          shift_id: string | null
+          staff_id: string | null
+          status: string
+          tenders: Json
+          total_amount: number
+          updated_at: string
+          user_id: string
+          voided_at: string | null
+        }
+        Insert: {
+          change_due?: number
+          created_at?: string
+          customer?: Json | null
+          date?: string
+          id?: string
+          payment_method?: string
+          refunded_amount?: number
+          shift_id?: string | null
+          staff_id?: string | null
+          status?: string
+          tenders?: Json
+          total_amount: number
+          updated_at?: string
+          user_id: string
+          voided_at?: string | null
+        }
+        Update: {
+          change_due?: number
+          created_at?: string
+          customer?: Json | null
+          date?: string
+          id?: string
+          payment_method?: string
+          refunded_amount?: number
+          shift_id?: string | null
+          staff_id?: string | null
+          status?: string
+          tenders?: Json
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+          voided_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_legacy_rows: {
+        Row: {
+          archived_at: string
+          change_due: number
           created_at: string
+          customer: Json | null
           date: string
           id: string
+          payment_method: string
           product_id: string
           product_name: string
           profit: number
           quantity: number
+          refunded_amount: number
+          shift_id: string | null
+          staff_id: string | null
+          status: string
+          tenders: Json
           total_amount: number
           unit_price: number
           updated_at: string
           user_id: string
+          voided_at: string | null
         }
         Insert: {
+          archived_at?: string
+          change_due?: number
           created_at?: string
+          customer?: Json | null
           date?: string
           id?: string
+          payment_method?: string
           product_id: string
           product_name: string
           profit: number
           quantity: number
+          refunded_amount?: number
+          shift_id?: string | null
+          staff_id?: string | null
+          status?: string
+          tenders?: Json
           total_amount: number
           unit_price: number
           updated_at?: string
           user_id: string
+          voided_at?: string | null
         }
         Update: {
+          archived_at?: string
+          change_due?: number
           created_at?: string
+          customer?: Json | null
           date?: string
           id?: string
+          payment_method?: string
           product_id?: string
           product_name?: string
           profit?: number
           quantity?: number
+          refunded_amount?: number
+          shift_id?: string | null
+          staff_id?: string | null
+          status?: string
+          tenders?: Json
           total_amount?: number
           unit_price?: number
           updated_at?: string
           user_id?: string
+          voided_at?: string | null
+        }
+        Relationships: []
+      }
+      settings: {
+        Row: {
+          backup: Json
+          business_name: string
+          created_at: string
+          default_currency: string
+          id: string
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          backup?: Json
+          business_name: string
+          created_at?: string
+          default_currency?: string
+          id?: string
+          timezone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          backup?: Json
+          business_name?: string
+          created_at?: string
+          default_currency?: string
+          id?: string
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      shifts: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          id: string
+          opened_at: string
+          opened_by: string | null
+          opening_float: number
+          report: Json | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          id?: string
+          opened_at?: string
+          opened_by?: string | null
+          opening_float?: number
+          report?: Json | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          id?: string
+          opened_at?: string
+          opened_by?: string | null
+          opening_float?: number
+          report?: Json | null
+          status?: string
+          updated_at?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "sales_product_id_fkey"
+            foreignKeyName: "shifts_closed_by_fkey"
+            columns: ["closed_by"]
+            isOneToOne: false
+            referencedRelation: "staff"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shifts_opened_by_fkey"
+            columns: ["opened_by"]
+            isOneToOne: false
+            referencedRelation: "staff"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          name: string
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          name: string
+          role?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          name?: string
+          role?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      stock_movements: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          notes: string | null
+          product_id: string
+          quantity: number
+          sale_id: string | null
+          supplier_id: string | null
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date?: string
+          id?: string
+          notes?: string | null
+          product_id: string
+          quantity: number
+          sale_id?: string | null
+          supplier_id?: string | null
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          notes?: string | null
+          product_id?: string
+          quantity?: number
+          sale_id?: string | null
+          supplier_id?: string | null
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_movements_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
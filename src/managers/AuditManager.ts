@@ -0,0 +1,54 @@
+import { StorageService, type PageCursor } from "@/storage/StorageService";
+import { keyRange } from "@/storage/keys";
+import { type AuditEntry, type StoreName, type UUID } from "@/types/business";
+
+export interface AuditFilter {
+  store?: StoreName;
+  actorId?: UUID | null; // null: writes made with nobody signed in
+  recordId?: string;
+  from?: string; // ISO, inclusive
+  to?: string; // ISO, inclusive
+}
+
+// How long entries are kept before `prune` drops them
+export const AUDIT_RETENTION_DAYS = 365;
+
+// Reads the audit trail StorageService writes; only `prune` removes from it
+export class AuditManager {
+  constructor(private storage: StorageService) {}
+
+  /** Newest first, a page at a time; pass `next` back as `after` for older entries. */
+  async list(filter: AuditFilter = {}, page: { limit: number; after?: PageCursor | null } = { limit: 50 }) {
+    const { store, actorId, recordId, from, to } = filter;
+    const range = from && to ? keyRange.bound(from, to) : from ? keyRange.lowerBound(from) : to ? keyRange.upperBound(to) : undefined;
+    return this.storage.page<AuditEntry>("audit_log", {
+      index: "at",
+      range,
+      direction: "prev",
+      after: page.after,
+      limit: page.limit,
+      filter: (entry) =>
+        (!store || entry.store === store)
+        && (actorId === undefined || entry.actor_id === actorId)
+        && (!recordId || entry.record_id === recordId),
+    });
+  }
+
+  /** Deletes entries older than `days`. Resolves with how many went. */
+  async prune(days = AUDIT_RETENTION_DAYS) {
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const old = await this.storage.primaryKeys("audit_log", "at", keyRange.upperBound(cutoff, true));
+    if (!old.success || !old.data) return { success: false, error: old.error ?? "Failed to read the audit log" } as const;
+    if (!old.data.length) return { success: true, data: 0 } as const;
+    const removed = await this.storage.deleteMany("audit_log", old.data.map(String));
+    if (!removed.success) return { success: false, error: removed.error ?? "Failed to prune the audit log" } as const;
+    return { success: true, data: old.data.length } as const;
+  }
+
+  /** Every change to one record, newest first. */
+  async history(recordId: string) {
+    const res = await this.storage.findByIndex<AuditEntry>("audit_log", "record_id", recordId);
+    if (!res.success || !res.data) return { success: false, error: res.error ?? "Failed to read history" } as const;
+    return { success: true, data: res.data.sort((a, b) => b.at.localeCompare(a.at)) } as const;
+  }
+}
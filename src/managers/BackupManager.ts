@@ -0,0 +1,236 @@
+import { addDays, addMonths, addWeeks } from "date-fns";
+import { StorageService } from "@/storage/StorageService";
+import { SettingsManager, DEFAULT_BACKUP_PREFERENCES } from "@/managers/SettingsManager";
+import { EncryptionManager } from "@/managers/EncryptionManager";
+import {
+  aggregateAllData,
+  aggregateChangesSince,
+  backupFileName,
+  compressBackup,
+  downloadBackup,
+  readManifest,
+  type BackupManifest,
+} from "@/utils/backup";
+import {
+  folderBackupsSupported,
+  folderTarget,
+  grantFolderAccess,
+  loadBackupFolder,
+  opfsTarget,
+  saveBackupFolder,
+  type BackupDestination,
+  type BackupTarget,
+} from "@/utils/backupTargets";
+import { type BackupPreferences, type BusinessSettings } from "@/types/business";
+
+export interface BackupSchedule {
+  enabled: boolean;
+  frequency: BackupPreferences["frequency"];
+  destination: BackupDestination;
+  retention: number;
+  incremental: boolean;
+  folder: string | null; // name of the picked folder, if any
+  last_run_at: string | null;
+  due_at: string | null; // null while scheduled backups are off
+  overdue: boolean; // due, and the last attempt this session didn't manage it
+  running: boolean;
+  error: string | null; // why the last attempt failed
+}
+
+export const DEFAULT_RETENTION = 7;
+// Incrementals written after a full backup before the next full one
+const INCREMENTALS_PER_FULL = 6;
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const BACKUP_LOCK = "backup";
+
+/** When the next scheduled backup is due, or null when they're off. Never run: due now. */
+export function nextBackupDue(prefs: BackupPreferences, now = new Date()): Date | null {
+  if (!prefs.enabled) return null;
+  if (!prefs.last_run_at) return now;
+  const last = new Date(prefs.last_run_at);
+  if (prefs.frequency === "monthly") return addMonths(last, 1);
+  if (prefs.frequency === "weekly") return addWeeks(last, 1);
+  return addDays(last, 1);
+}
+
+// Runs the backups BusinessSettings.backup asks for while the app is open.
+// Every tab checks; the backup lock and a re-read of the settings under it
+// make sure only one of them writes each backup. While encryption is on,
+// every backup is encrypted with the shop's data key.
+export class BackupManager {
+  private listeners = new Set<(schedule: BackupSchedule) => void>();
+  private running = false;
+  private attempted = false;
+  private error: string | null = null;
+
+  constructor(private storage: StorageService, private settings: SettingsManager, private encryption: EncryptionManager) {
+    // Another tab ran a backup or changed the schedule
+    storage.changes.subscribe((event) => {
+      if (!event.local && event.changes.some(c => c.store === "business_settings")) void this.notify();
+    });
+  }
+
+  /** Called with the new schedule after every run, attempt and preference change. */
+  onStatusChange(listener: (schedule: BackupSchedule) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private async notify() {
+    const res = await this.status();
+    if (res.success) this.listeners.forEach(listener => listener(res.data));
+  }
+
+  private get dbName() {
+    return this.storage.adapter.name;
+  }
+
+  // Reading never creates the settings record (two tabs starting together
+  // would each make one); saving does
+  private async preferences(create = false) {
+    const res = create ? await this.settings.ensure() : await this.settings.current();
+    if (!res.success) throw new Error(res.error ?? "Failed to read settings");
+    const settings = res.data as BusinessSettings | undefined;
+    return { settings, prefs: { ...DEFAULT_BACKUP_PREFERENCES, ...settings?.backup } };
+  }
+
+  async status() {
+    try {
+      const { prefs } = await this.preferences();
+      const due = nextBackupDue(prefs);
+      const folder = folderBackupsSupported() ? await loadBackupFolder(this.dbName).catch(() => undefined) : undefined;
+      const schedule: BackupSchedule = {
+        enabled: prefs.enabled,
+        frequency: prefs.frequency,
+        destination: prefs.destination ?? "opfs",
+        retention: prefs.retention ?? DEFAULT_RETENTION,
+        incremental: prefs.incremental ?? false,
+        folder: folder?.name ?? null,
+        last_run_at: prefs.last_run_at ?? null,
+        due_at: due?.toISOString() ?? null,
+        overdue: !!due && due.getTime() <= Date.now() && this.attempted && !this.running,
+        running: this.running,
+        error: this.error,
+      };
+      return { success: true, data: schedule } as const;
+    } catch (e: unknown) {
+      return { success: false, error: (e as Error).message } as const;
+    }
+  }
+
+  /** Checks now, then every few minutes and whenever the tab comes back into view. Returns a stop function. */
+  start() {
+    const check = () => { void this.runIfDue(); };
+    const onVisible = () => { if (document.visibilityState === "visible") check(); };
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }
+
+  /** Backs up if the schedule says one is due. */
+  async runIfDue() {
+    return this.run(false);
+  }
+
+  /** Backs up to the scheduled destination straight away, due or not. */
+  async runNow() {
+    return this.run(true);
+  }
+
+  private async run(force: boolean) {
+    if (this.running) return { success: false, error: "A backup is already running" } as const;
+    this.running = true;
+    void this.notify();
+    try {
+      const ran = await this.storage.locked(BACKUP_LOCK, async () => {
+        // Read under the lock: another tab may have just done this one
+        const { settings, prefs } = await this.preferences(force);
+        const due = nextBackupDue(prefs);
+        if (!force && (!due || due.getTime() > Date.now())) return false;
+
+        const target = await this.target(prefs.destination ?? "opfs");
+        const parent = prefs.incremental ? await this.parentFor(target) : null;
+        const bundle = parent ? await aggregateChangesSince(this.storage, parent.generated_at) : await aggregateAllData(this.storage);
+        const name = backupFileName(new Date(bundle.generated_at), parent ? "incremental" : "full");
+        await target.write(name, await compressBackup(bundle, parent, await this.encryption.backupSealing()));
+        await target.prune(prefs.retention ?? DEFAULT_RETENTION);
+
+        const saved = await this.settings.setBackupPreferences(settings.id, { ...prefs, last_run_at: bundle.generated_at });
+        if (!saved.success) throw new Error(saved.error ?? "Backup written, but failed to record it");
+        return true;
+      });
+      this.error = null;
+      return { success: true, data: ran } as const;
+    } catch (e: unknown) {
+      this.error = (e as Error).message ?? "Backup failed";
+      return { success: false, error: this.error } as const;
+    } finally {
+      this.running = false;
+      this.attempted = true;
+      void this.notify();
+    }
+  }
+
+  // The newest backup, if the next one can be an incremental on top of it;
+  // null when a full backup is due instead
+  private async parentFor(target: BackupTarget): Promise<BackupManifest | null> {
+    const all = await target.list();
+    const full = all.findIndex(b => !b.incremental);
+    if (full < 0 || full >= INCREMENTALS_PER_FULL) return null;
+    try {
+      return await readManifest(await target.read(all[0].name));
+    } catch {
+      return null; // unreadable: start a fresh chain
+    }
+  }
+
+  /** Builds a full backup and hands it to the browser as a download. */
+  async download() {
+    return downloadBackup(this.storage, await this.encryption.backupSealing());
+  }
+
+  async target(destination: BackupDestination): Promise<BackupTarget> {
+    if (destination === "opfs") return opfsTarget(this.dbName);
+    const handle = folderBackupsSupported() ? await loadBackupFolder(this.dbName) : undefined;
+    if (!handle) throw new Error("Choose a folder for backups first");
+    return folderTarget(handle);
+  }
+
+  async setPreferences(changes: Partial<Omit<BackupPreferences, "last_run_at">>) {
+    try {
+      const { settings, prefs } = await this.preferences(true);
+      const res = await this.settings.setBackupPreferences(settings.id, { ...prefs, ...changes });
+      if (!res.success) return { success: false, error: res.error ?? "Failed to save backup settings" } as const;
+      void this.notify();
+      return { success: true } as const;
+    } catch (e: unknown) {
+      return { success: false, error: (e as Error).message } as const;
+    }
+  }
+
+  /** Asks the user for a backup folder and sends scheduled backups there. Call from a click. */
+  async chooseFolder() {
+    if (!folderBackupsSupported()) return { success: false, error: "This browser can't write backups to a folder" } as const;
+    try {
+      const handle = await window.showDirectoryPicker!({ id: "shop-backups", mode: "readwrite" });
+      await saveBackupFolder(this.dbName, handle);
+      this.error = null;
+      return this.setPreferences({ destination: "folder" });
+    } catch (e: unknown) {
+      // Closing the picker isn't an error worth reporting
+      if ((e as Error).name === "AbortError") return { success: false } as const;
+      return { success: false, error: (e as Error).message } as const;
+    }
+  }
+
+  /** Re-grants access to the picked folder after a browser restart. Call from a click. */
+  async allowFolderAccess() {
+    const handle = await loadBackupFolder(this.dbName);
+    if (!handle || !(await grantFolderAccess(handle))) return { success: false, error: "Access to the folder wasn't allowed" } as const;
+    return this.runIfDue();
+  }
+}
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MemoryAdapter } from "@/storage/adapters";
+import { StorageService } from "@/storage/StorageService";
+import { KEYRING_ID, isSealed, type Keyring } from "@/storage/encryption";
+import { EncryptionManager } from "@/managers/EncryptionManager";
+import { ProductManager } from "@/managers/ProductManager";
+import type { Product } from "@/types/business";
+
+let storage: StorageService;
+let encryption: EncryptionManager;
+let products: ProductManager;
+
+beforeEach(() => {
+  storage = new StorageService(new MemoryAdapter(`encryption-test-${Math.random()}`));
+  encryption = new EncryptionManager(storage);
+  products = new ProductManager(storage);
+});
+
+afterEach(() => storage.changes.close());
+
+// Records as they sit in the adapter, before any cipher opens them
+const stored = () => storage.adapter.transaction(["products"], "readonly", tx => tx.getAll("products"));
+
+describe("enable and disable", () => {
+  it("seals every product across batches and opens them back", async () => {
+    const names = Array.from({ length: 450 }, (_, i) => `Item ${i}`);
+    await products.importProducts(names.map(name => ({ name, category: null, barcode: null, low_stock_threshold: 1, cost_price: 40 })));
+
+    expect(await encryption.enable("correct horse")).toEqual({ success: true });
+    const sealed = await stored();
+    expect(sealed).toHaveLength(450);
+    expect(sealed.every(isSealed)).toBe(true);
+    const opened = await storage.getAll<Product>("products");
+    expect(opened.data?.map(p => p.cost_price)).toEqual(Array(450).fill(40));
+
+    expect(await encryption.disable("correct horse")).toEqual({ success: true });
+    expect((await stored()).some(isSealed)).toBe(false);
+    expect((await storage.getAll<Product>("products")).data?.map(p => p.name).sort()).toEqual([...names].sort());
+  });
+});
+
+describe("an interrupted enable", () => {
+  it("finishes sealing at the next unlock", async () => {
+    await products.importProducts(["Tea", "Sugar"].map(name => ({ name, category: null, barcode: null, low_stock_threshold: 1 })));
+    const reseal = storage.reseal.bind(storage);
+    storage.reseal = async () => ({ success: false, error: "Tab closed" });
+    expect((await encryption.enable("correct horse")).success).toBe(false);
+    expect((await stored()).some(isSealed)).toBe(false);
+
+    storage.reseal = reseal;
+    encryption.lock();
+    expect(await encryption.unlock("correct horse")).toEqual({ success: true });
+    expect((await stored()).every(isSealed)).toBe(true);
+    expect((await storage.findById<Keyring>("keyring", KEYRING_ID)).data?.sealed_at).toBeDefined();
+  });
+});
@@ -0,0 +1,185 @@
+import { StorageService } from "@/storage/StorageService";
+import { STOCK_LOCK } from "@/storage/locks";
+import {
+  ENCRYPTED_STORES,
+  KEYRING_ID,
+  RecordCipher,
+  createKeyring,
+  rewrapKeyring,
+  unlockKeyring,
+  type Keyring,
+} from "@/storage/encryption";
+import type { BackupSealing } from "@/utils/backup";
+
+export type EncryptionStatus = "off" | "locked" | "unlocked";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+function checkPassphrase(passphrase: string) {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  return null;
+}
+
+export class EncryptionManager {
+  // The unwrapped data key, held in memory only while unlocked
+  private key: CryptoKey | null = null;
+  private listeners = new Set<(status: EncryptionStatus) => void>();
+
+  constructor(private storage: StorageService) {
+    // Turned on, off or rekeyed in another tab: pick up the new state
+    storage.changes.subscribe((event) => {
+      if (!event.local && event.changes.some(c => c.store === "keyring")) void this.status();
+    });
+  }
+
+  /** Called with the new status after every lock, unlock and on/off switch. */
+  onStatusChange(listener: (status: EncryptionStatus) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private notify(status: EncryptionStatus) {
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  private async keyring() {
+    const res = await this.storage.findById<Keyring>("keyring", KEYRING_ID);
+    if (!res.success) throw new Error(res.error ?? "Failed to read keyring");
+    return res.data ?? null;
+  }
+
+  /** Reads whether encryption is on and installs the matching cipher. Call before loading any data. */
+  async status() {
+    try {
+      const keyring = await this.keyring();
+      const status: EncryptionStatus = !keyring ? "off" : this.key ? "unlocked" : "locked";
+      if (!keyring) this.key = null;
+      this.storage.setCipher(keyring ? new RecordCipher(this.key) : null);
+      this.notify(status);
+      return { success: true, data: status } as const;
+    } catch (e: unknown) {
+      return { success: false, error: (e as Error).message } as const;
+    }
+  }
+
+  /** Unlocks with the passphrase, first finishing the sealing if turning encryption on was interrupted. */
+  async unlock(passphrase: string) {
+    try {
+      const keyring = await this.keyring();
+      if (!keyring) return { success: false, error: "Encryption is not turned on" } as const;
+      this.key = await unlockKeyring(keyring, passphrase);
+      this.storage.setCipher(new RecordCipher(this.key));
+      if (!keyring.sealed_at) {
+        const finished = await this.finishSealing();
+        if (!finished.success) return finished;
+      }
+      this.notify("unlocked");
+      return { success: true } as const;
+    } catch (e: unknown) {
+      return { success: false, error: (e as Error).message } as const;
+    }
+  }
+
+  /**
+   * What backups are encrypted with: null while encryption is off. Throws
+   * while locked rather than let a backup go out in clear.
+   */
+  async backupSealing(): Promise<BackupSealing | null> {
+    const keyring = await this.keyring();
+    if (!keyring) return null;
+    if (!this.key) throw new Error("Unlock the shop database to back it up");
+    return { key: this.key, keyring };
+  }
+
+  // Forgets the key; encrypted stores can't be read until the next unlock
+  lock() {
+    this.key = null;
+    this.storage.setCipher(new RecordCipher(null));
+    this.notify("locked");
+  }
+
+  /**
+   * Turns encryption on and seals every existing record of the encrypted
+   * stores. The keyring is saved first and only marked sealed at the end, so
+   * an interrupted run leaves a mix of sealed and clear records that still
+   * opens with the passphrase; the next unlock (or enable with the same
+   * passphrase) finishes the job.
+   */
+  async enable(passphrase: string) {
+    const invalid = checkPassphrase(passphrase);
+    if (invalid) return { success: false, error: invalid } as const;
+    const existing = await this.keyring().catch(() => null);
+    if (existing?.sealed_at) return { success: false, error: "Encryption is already on" } as const;
+    if (existing) return this.unlock(passphrase);
+
+    const { key, keyring } = await createKeyring(passphrase);
+    const saved = await this.storage.save<Keyring>("keyring", keyring);
+    if (!saved.success) return { success: false, error: saved.error } as const;
+    this.key = key;
+    this.storage.setCipher(new RecordCipher(key));
+    const finished = await this.finishSealing();
+    if (!finished.success) return finished;
+    this.notify("unlocked");
+    return finished;
+  }
+
+  /** Decrypts everything back to clear records, then removes the keyring. */
+  async disable(passphrase: string) {
+    const unlocked = await this.unlock(passphrase);
+    if (!unlocked.success) return unlocked;
+    this.storage.setCipher(new RecordCipher(this.key, false));
+    const rewritten = await this.rewriteAll();
+    if (!rewritten.success) return rewritten;
+    const removed = await this.storage.delete("keyring", KEYRING_ID);
+    if (!removed.success) return { success: false, error: removed.error } as const;
+    this.key = null;
+    this.storage.setCipher(null);
+    this.notify("off");
+    return { success: true } as const;
+  }
+
+  // Only the wrapped data key changes; records are not re-encrypted
+  async changePassphrase(current: string, next: string) {
+    const invalid = checkPassphrase(next);
+    if (invalid) return { success: false, error: invalid } as const;
+    try {
+      const keyring = await this.keyring();
+      if (!keyring) return { success: false, error: "Encryption is not turned on" } as const;
+      const key = await unlockKeyring(keyring, current);
+      const saved = await this.storage.save<Keyring>("keyring", await rewrapKeyring(keyring, key, next));
+      if (!saved.success) return { success: false, error: saved.error } as const;
+      return { success: true } as const;
+    } catch (e: unknown) {
+      return { success: false, error: (e as Error).message } as const;
+    }
+  }
+
+  // Seals whatever is still in clear, then marks the keyring so later unlocks
+  // skip the pass. Keyrings from before the mark existed get one pass too;
+  // records already sealed are left alone.
+  private async finishSealing() {
+    const rewritten = await this.rewriteAll();
+    if (!rewritten.success) return rewritten;
+    try {
+      const keyring = await this.keyring();
+      if (!keyring) return { success: false, error: "Encryption is not turned on" } as const;
+      const saved = await this.storage.save<Keyring>("keyring", { ...keyring, sealed_at: new Date().toISOString() });
+      if (!saved.success) return { success: false, error: saved.error } as const;
+      return { success: true } as const;
+    } catch (e: unknown) {
+      return { success: false, error: (e as Error).message } as const;
+    }
+  }
+
+  // Held under the stock lock so a sale in another tab can't be overwritten
+  // by the copy being rewritten
+  private async rewriteAll() {
+    return this.storage.locked(STOCK_LOCK, async () => {
+      for (const store of ENCRYPTED_STORES) {
+        const res = await this.storage.reseal(store);
+        if (!res.success) return { success: false, error: `Failed to rewrite ${store}: ${res.error}` } as const;
+      }
+      return { success: true } as const;
+    });
+  }
+}
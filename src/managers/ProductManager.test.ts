@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MemoryAdapter } from "@/storage/adapters";
+import { StorageService } from "@/storage/StorageService";
+import { ProductManager } from "@/managers/ProductManager";
+import { SalesManager } from "@/managers/SalesManager";
+import { StockManager } from "@/managers/StockManager";
+import type { Sale } from "@/types/business";
+
+let storage: StorageService;
+let products: ProductManager;
+
+beforeEach(() => {
+  storage = new StorageService(new MemoryAdapter(`products-test-${Math.random()}`));
+  products = new ProductManager(storage);
+});
+
+afterEach(() => storage.changes.close());
+
+const draft = (name: string, barcode: string | null = null) => ({ name, category: null, barcode, low_stock_threshold: 1 });
+
+async function add(input: Parameters<ProductManager["addProduct"]>[0]) {
+  const res = await products.addProduct(input);
+  if (!res.success) throw new Error(res.error);
+  return res.data!;
+}
+
+describe("importProducts", () => {
+  it("skips rows whose barcode is already on a product or an earlier row", async () => {
+    await add(draft("Tea", "5901234123457"));
+
+    const res = await products.importProducts([
+      draft("Coffee", "5901234123457"),
+      draft("Sugar", "SUG-1"),
+      draft("Brown sugar", " SUG-1 "),
+      draft("Salt"),
+    ]);
+
+    expect(res.success).toBe(true);
+    if (!res.success) return;
+    expect(res.data.map(p => p.name)).toEqual(["Sugar", "Salt"]);
+    expect(res.rejected).toEqual([
+      { row: 0, name: "Coffee", error: "Barcode 5901234123457 is already used by Tea" },
+      { row: 2, name: "Brown sugar", error: "Barcode SUG-1 is already used by Sugar" },
+    ]);
+    expect((await products.findByBarcode("SUG-1")).data).toHaveLength(1);
+    expect(res.data[1].barcode).toMatch(/^20\d{11}$/);
+  });
+});
+
+describe("deleteProduct", () => {
+  it("never deletes a product a sale rung up at the same moment refers to", async () => {
+    const sales = new SalesManager(storage, products, new StockManager(storage));
+    const tea = await add({ ...draft("Tea"), selling_price: 100, current_stock: 5 });
+
+    const [sold, deleted] = await Promise.all([
+      sales.recordSale({ items: [{ product: tea, quantity: 1 }], payment_method: "cash" }),
+      products.deleteProduct(tea.id),
+    ]);
+
+    expect(sold.success).toBe(true);
+    expect(deleted).toEqual({ success: false, error: "Product appears on past sales; archive it instead" });
+    const all = await storage.getAll<Sale>("sales");
+    expect(all.data?.[0].items[0].product_id).toBe(tea.id);
+    expect((await storage.findById("products", tea.id)).data).toBeDefined();
+  });
+
+  it("keeps products with stock movements, and deletes ones without", async () => {
+    const stock = new StockManager(storage);
+    const tea = await add({ ...draft("Tea"), current_stock: 5 });
+    const salt = await add(draft("Salt"));
+    await stock.logMovement({ product_id: tea.id, quantity: 5, type: "restock" });
+
+    expect((await products.deleteProduct(tea.id)).error).toBe("Product has stock history; archive it instead");
+    expect((await stock.byProduct(tea.id)).data).toHaveLength(1);
+    expect((await products.deleteProduct(salt.id)).success).toBe(true);
+    expect((await storage.findById("products", salt.id)).data).toBeUndefined();
+  });
+});
+
+describe("rankedSearch", () => {
+  it("puts the product whose barcode is typed exactly, capitals and all, first", async () => {
+    // A popular product whose name matches the code as well as the barcode does
+    const sampler = await add({ ...draft("Kabc9 sampler"), current_stock: 10 });
+    const sales = new SalesManager(storage, products, new StockManager(storage));
+    await sales.recordSale({ items: [{ product: sampler, quantity: 5 }], payment_method: "cash" });
+    const exact = await add(draft("Biscuits", "KABC9"));
+
+    const res = await products.rankedSearch("KABC9");
+    expect(res.data?.[0]?.id).toBe(exact.id);
+  });
+
+  it("looks up every matching token in a single transaction", async () => {
+    await products.importProducts([draft("Tea leaves"), draft("Teapot"), draft("Green tea")]);
+    await products.rankedSearch("te"); // builds the index and loads the vocabulary
+
+    const transaction = storage.adapter.transaction.bind(storage.adapter);
+    let indexReads = 0;
+    storage.adapter.transaction = ((stores, ...rest) => {
+      if (stores.includes("product_search")) indexReads++;
+      return transaction(stores, ...rest);
+    }) as typeof transaction;
+    const res = await products.rankedSearch("tea");
+
+    expect(res.data?.map(p => p.name).sort()).toEqual(["Green tea", "Tea leaves", "Teapot"]);
+    expect(indexReads).toBe(1);
+  });
+});
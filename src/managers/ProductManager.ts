@@ -1,6 +1,10 @@
-import { StorageService } from "@/storage/StorageService";
-import { type Product, type UUID } from "@/types/business";
+import { StorageService, type StorageTransaction, type PageCursor, type ServiceResponse } from "@/storage/StorageService";
+import { type Product, type ProductSearchEntry, type Sale, type StockMovement, type UUID } from "@/types/business";
 import { productSchema } from "@/types/business";
+import { ConflictError, STOCK_LOCK } from "@/storage/locks";
+import { keyRange } from "@/storage/keys";
+import { generateInternalEan13 } from "@/utils/barcode";
+import { productTokens, tokenScore, tokenize } from "@/utils/search";
 
 function nowISO() { return new Date().toISOString(); }
 function uuid(): UUID { return (globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2)) as UUID; }
@@ -10,7 +14,7 @@ function generateSKU(): string {
   return `SKU-${timestamp}-${random}`;
 }
 
-export type NewProduct = Omit<Product, "id" | "sku" | "cost_price" | "selling_price" | "current_stock" | "created_at" | "updated_at"> & {
+export type NewProduct = Omit<Product, "id" | "sku" | "cost_price" | "selling_price" | "current_stock" | "version" | "created_at" | "updated_at"> & {
   id?: UUID;
   sku?: string;
   cost_price?: number;
@@ -18,16 +22,48 @@ export type NewProduct = Omit<Product, "id" | "sku" | "cost_price" | "selling_pr
   current_stock?: number;
 };
 
+// An import row that was left out
+export interface ImportRejection {
+  row: number; // index into the drafts passed in
+  name: string;
+  error: string;
+}
+
+export interface RankedSearchOptions {
+  limit?: number;
+  includeArchived?: boolean;
+}
+
+const POPULARITY_DAYS = 30;
+const POPULARITY_TTL_MS = 5 * 60 * 1000;
+const CONFLICT_RETRIES = 3;
+
 export class ProductManager {
-  constructor(private storage: StorageService) {}
+  // Distinct tokens in the search index; dropped whenever an entry changes
+  private vocabulary: string[] | null = null;
+  private indexChecked = false;
+  private popularity: { at: number; units: Map<UUID, number> } | null = null;
+
+  constructor(private storage: StorageService) {
+    // Entries may be written by another tab as well as by this manager
+    storage.changes.subscribe((event) => {
+      if (event.changes.some(c => c.store === "product_search")) this.vocabulary = null;
+    });
+  }
 
   async addProduct(input: NewProduct) {
+    const barcode = input.barcode?.trim() || await this.newInternalBarcode();
+    const taken = await this.findByBarcode(barcode);
+    if (taken.success && taken.data?.length) {
+      return { success: false, error: `Barcode ${barcode} is already used by ${taken.data[0].name}` } as const;
+    }
+
     // Auto-generate SKU if not provided
     const draft: Product = {
       id: input.id ?? uuid(),
       name: input.name,
       sku: input.sku ?? generateSKU(),
-      barcode: input.barcode ?? null,
+      barcode,
       category: input.category ?? null,
       cost_price: input.cost_price ?? 0,
       selling_price: input.selling_price ?? 0,
@@ -40,39 +76,173 @@ export class ProductManager {
     const validation = productSchema.safeParse(draft);
     if (!validation.success) return { success: false, error: validation.error.message } as const;
 
-    return this.storage.save<Product>("products", draft);
+    return this.saveProduct(draft);
   }
 
   async editProduct(id: UUID, update: Partial<NewProduct>) {
+    return this.storage.locked(STOCK_LOCK, () => this.retryOnConflict(() => this.applyEdit(id, update)));
+  }
+
+  private async applyEdit(id: UUID, update: Partial<NewProduct>) {
     const existing = await this.storage.findById<Product>("products", id);
     if (!existing.success || !existing.data) return { success: false, error: "Product not found" } as const;
 
+    if (update.barcode && update.barcode !== existing.data.barcode) {
+      const taken = await this.findByBarcode(update.barcode);
+      const other = taken.data?.find(p => p.id !== id);
+      if (other) return { success: false, error: `Barcode ${update.barcode} is already used by ${other.name}` } as const;
+    }
+    if (update.sku && update.sku !== existing.data.sku) {
+      const taken = await this.storage.findByIndex<Product>("products", "sku", update.sku);
+      const other = taken.data?.find(p => p.id !== id);
+      if (other) return { success: false, error: `SKU ${update.sku} is already used by ${other.name}` } as const;
+    }
+
     const merged: Product = { ...existing.data, ...update, updated_at: nowISO() } as Product;
     const validation = productSchema.safeParse(merged);
     if (!validation.success) return { success: false, error: validation.error.message } as const;
 
-    return this.storage.save<Product>("products", merged);
+    return this.saveProduct(merged);
+  }
+
+  // Soft delete: the product disappears from the till but its sales and stock
+  // movements keep pointing at it
+  async archiveProduct(id: UUID) {
+    return this.editProduct(id, { archived_at: nowISO() });
+  }
+
+  async restoreProduct(id: UUID) {
+    return this.editProduct(id, { archived_at: null });
+  }
+
+  /**
+   * Permanently removes a product. Refused once any sale or stock movement
+   * references the product; archive it instead so history stays intact.
+   */
+  // Under the stock lock, so no sale of it can be rung up between the check and the delete
+  async deleteProduct(id: UUID) {
+    return this.storage.locked(STOCK_LOCK, async () => {
+      let used = false;
+      const scan = await this.storage.each<Sale>("sales", (sale) => {
+        used = sale.items.some(i => i.product_id === id);
+        return !used; // stop at the first sale that references it
+      });
+      if (!scan.success) return { success: false, error: scan.error } as const;
+      if (used) return { success: false, error: "Product appears on past sales; archive it instead" } as const;
+
+      return this.storage.transaction<true>(["products", "stock_movements", "product_search"], async (tx) => {
+        const movements = await tx.getByIndex<StockMovement>("stock_movements", "product_id", id);
+        if (movements.length) throw new Error("Product has stock history; archive it instead");
+        await tx.delete("products", id);
+        await tx.delete("product_search", id);
+        return true;
+      });
+    });
   }
 
   async updateStock(productId: UUID, delta: number) {
-    const res = await this.storage.findById<Product>("products", productId);
-    if (!res.success || !res.data) return { success: false, error: "Product not found" } as const;
+    return this.storage.locked(STOCK_LOCK, () =>
+      this.storage.transaction<Product>(["products"], (tx) => this.adjustStock(tx, productId, delta)));
+  }
+
+  // Applies a stock delta inside a caller-owned transaction. Throws (and so
+  // aborts the transaction) when the product is missing or would go negative.
+  // Callers outside a transaction that already holds STOCK_LOCK should take it.
+  async adjustStock(tx: StorageTransaction, productId: UUID, delta: number): Promise<Product> {
+    const product = await tx.get<Product>("products", productId);
+    if (!product) throw new Error("Product not found");
 
-    const next = { ...res.data, current_stock: (res.data.current_stock ?? 0) + delta, updated_at: nowISO() } as Product;
-    if (next.current_stock < 0) return { success: false, error: "Insufficient stock" } as const;
-    return this.storage.save<Product>("products", next);
+    const next = {
+      ...product,
+      current_stock: (product.current_stock ?? 0) + delta,
+      version: (product.version ?? 0) + 1,
+      updated_at: nowISO(),
+    } as Product;
+    if (next.current_stock < 0) throw new Error(`Insufficient stock for ${product.name}`);
+    return tx.put<Product>("products", next);
   }
 
-  async search(term: string) {
-    const all = await this.storage.getAll<Product>("products");
-    if (!all.success || !all.data) return { success: false, data: [] as Product[] } as const;
+  // Matches in name order; pass `limit`/`after` to page through large catalogues
+  async search(term: string, page?: { limit: number; after?: PageCursor | null }) {
     const q = term.trim().toLowerCase();
-    const results = all.data.filter(p =>
+    const filter = (p: Product) =>
       p.name.toLowerCase().includes(q) ||
       p.sku.toLowerCase().includes(q) ||
       (p.barcode ?? "").toLowerCase().includes(q) ||
-      (p.category ?? "").toLowerCase().includes(q)
-    );
+      (p.category ?? "").toLowerCase().includes(q);
+
+    if (page) {
+      const res = await this.storage.page<Product>("products", { index: "name", filter: q ? filter : undefined, ...page });
+      if (!res.success || !res.data) return { success: false, data: [] as Product[], next: null } as const;
+      return { success: true, data: res.data.items, next: res.data.next } as const;
+    }
+
+    const results: Product[] = [];
+    const res = await this.storage.each<Product>("products", (p) => { results.push(p); }, { index: "name", filter: q ? filter : undefined });
+    if (!res.success) return { success: false, data: [] as Product[], next: null } as const;
+    return { success: true, data: results, next: null } as const;
+  }
+
+  /**
+   * Ranked lookup through the product_search index. Every query token must
+   * match some indexed token of a product (exactly, as a prefix, within a
+   * typo or two, or through a Swahili/English synonym); products are ordered
+   * by how well they match, then by units sold over the last 30 days. A query
+   * that is a product's whole SKU or barcode puts that product first.
+   */
+  async rankedSearch(term: string, options: RankedSearchOptions = {}) {
+    const { limit = 20, includeArchived = false } = options;
+    const queryTokens = tokenize(term);
+    if (!queryTokens.length) return { success: true, data: [] as Product[] } as const;
+
+    const ready = await this.ensureSearchIndex();
+    if (!ready.success) return { success: false, error: ready.error, data: [] as Product[] } as const;
+    const vocabulary = await this.loadVocabulary();
+    if (!vocabulary.success) return { success: false, error: vocabulary.error, data: [] as Product[] } as const;
+
+    // Vocabulary tokens each query token matches, all looked up in one go
+    const matches = queryTokens.map(q => vocabulary.data.flatMap(token => {
+      const score = tokenScore(q, token);
+      return score ? [{ token, score }] : [];
+    }));
+    const tokens = [...new Set(matches.flat().map(m => m.token))];
+    const keys = await this.storage.primaryKeysFor("product_search", "tokens", tokens);
+    if (!keys.success) return { success: false, error: keys.error, data: [] as Product[] } as const;
+    const idsOf = new Map(tokens.map((token, i) => [token, (keys.data?.[i] ?? []) as UUID[]]));
+
+    // Best score per product for each query token, then AND across tokens
+    let scores: Map<UUID, number> | null = null;
+    for (const candidates of matches) {
+      const best = new Map<UUID, number>();
+      for (const { token, score } of candidates) {
+        for (const id of idsOf.get(token) ?? []) best.set(id, Math.max(best.get(id) ?? 0, score));
+      }
+      const next = new Map<UUID, number>();
+      for (const [id, score] of best) {
+        if (scores === null) next.set(id, score);
+        else if (scores.has(id)) next.set(id, scores.get(id)! + score);
+      }
+      scores = next;
+      if (!scores.size) break;
+    }
+    const ranked = scores ?? new Map<UUID, number>();
+
+    // Codes are matched as typed: Code 128 barcodes can hold capitals
+    const code = term.trim();
+    const [bySku, byBarcode, units] = await Promise.all([this.findBySKU(code), this.findByBarcode(code), this.recentUnitsSold()]);
+    for (const p of [...(bySku.data ?? []), ...(byBarcode.data ?? [])]) ranked.set(p.id, (ranked.get(p.id) ?? 0) + 100);
+
+    // Popularity only reorders products that match about equally well
+    const order = Array.from(ranked, ([id, score]) => ({ id, score: score + Math.log1p(units.get(id) ?? 0) * 0.1 }))
+      .sort((a, b) => b.score - a.score);
+
+    const results: Product[] = [];
+    for (const { id } of order) {
+      if (results.length >= limit) break;
+      const found = await this.storage.findById<Product>("products", id);
+      const product = found.data;
+      if (product && (includeArchived || !product.archived_at)) results.push(product);
+    }
     return { success: true, data: results } as const;
   }
 
@@ -85,41 +255,171 @@ export class ProductManager {
   }
 
   async listCategories() {
-    const all = await this.storage.getAll<Product>("products");
-    if (!all.success || !all.data) return { success: true, data: [] as string[] } as const;
-    const set = new Set<string>();
-    all.data.forEach(p => { if (p.category) set.add(p.category); });
-    return { success: true, data: Array.from(set).sort() } as const;
+    // One record per distinct key, already in sorted order
+    const categories: string[] = [];
+    const res = await this.storage.each<Product>("products", (p) => { if (p.category) categories.push(p.category); }, {
+      index: "category",
+      direction: "nextunique",
+    });
+    if (!res.success) return { success: true, data: [] as string[] } as const;
+    return { success: true, data: categories } as const;
   }
 
   async filterByCategory(category: string) {
-    const all = await this.storage.getAll<Product>("products");
-    if (!all.success || !all.data) return { success: true, data: [] as Product[] } as const;
-    return { success: true, data: all.data.filter(p => p.category === category) } as const;
+    const res = await this.storage.findByIndex<Product>("products", "category", category);
+    return { success: true, data: res.data ?? [] } as const;
   }
 
   async lowStockAlerts() {
-    const all = await this.storage.getAll<Product>("products");
-    if (!all.success || !all.data) return { success: true, data: [] as Product[] } as const;
-    const alerts = all.data.filter(p => (p.low_stock_threshold ?? 0) > 0 && p.current_stock <= (p.low_stock_threshold ?? 0));
+    const alerts: Product[] = [];
+    await this.storage.each<Product>("products", (p) => { alerts.push(p); }, {
+      filter: p => !p.archived_at && (p.low_stock_threshold ?? 0) > 0 && p.current_stock <= (p.low_stock_threshold ?? 0),
+    });
     return { success: true, data: alerts } as const;
   }
 
+  // Gives every product that has no barcode an internal EAN-13 (e.g. before
+  // printing shelf labels). Returns the products that were updated.
+  async assignMissingBarcodes() {
+    return this.storage.locked(STOCK_LOCK, () => this.retryOnConflict(() => this.fillMissingBarcodes()));
+  }
+
+  private async fillMissingBarcodes() {
+    const missing: Product[] = [];
+    const scan = await this.storage.each<Product>("products", (p) => { missing.push(p); }, { filter: p => !p.barcode });
+    if (!scan.success) return { success: false, error: scan.error } as const;
+    const updated: Product[] = [];
+    for (const p of missing) {
+      updated.push({ ...p, barcode: await this.newInternalBarcode(), updated_at: nowISO() });
+    }
+    if (updated.length) {
+      const saved = await this.saveProducts(updated);
+      if (!saved.success) return { success: false, error: saved.error, conflict: saved.conflict } as const;
+    }
+    return { success: true, data: updated } as const;
+  }
+
+  private async newInternalBarcode() {
+    for (;;) {
+      const code = generateInternalEan13();
+      const existing = await this.findByBarcode(code);
+      if (!existing.success || !existing.data?.length) return code;
+    }
+  }
+
+  /**
+   * Imports the drafts whose barcode is free; a row whose barcode is already
+   * on a product, or on an earlier row, is left out and reported in `rejected`.
+   */
   async importProducts(drafts: NewProduct[]) {
     const now = nowISO();
-    const items = drafts.map(d => ({
-      id: d.id ?? uuid(),
-      name: d.name,
-      sku: d.sku ?? generateSKU(),
-      barcode: d.barcode ?? null,
-      category: d.category ?? null,
-      cost_price: d.cost_price ?? 0,
-      selling_price: d.selling_price ?? 0,
-      current_stock: d.current_stock ?? 0,
-      low_stock_threshold: d.low_stock_threshold ?? 0,
-      created_at: now,
-      updated_at: now,
-    }));
-    return this.storage.saveMany<Product>("products", items);
+    const items: Product[] = [];
+    const rejected: ImportRejection[] = [];
+    const seen = new Map<string, string>(); // barcode -> name of the row that has it
+    for (const [row, d] of drafts.entries()) {
+      let barcode = d.barcode?.trim();
+      if (barcode) {
+        const taken = await this.findByBarcode(barcode);
+        if (!taken.success) return { success: false, error: taken.error } as const;
+        const owner = taken.data?.[0]?.name ?? seen.get(barcode);
+        if (owner !== undefined) {
+          rejected.push({ row, name: d.name, error: `Barcode ${barcode} is already used by ${owner}` });
+          continue;
+        }
+      } else {
+        do barcode = await this.newInternalBarcode(); while (seen.has(barcode));
+      }
+      seen.set(barcode, d.name);
+      items.push({
+        id: d.id ?? uuid(),
+        name: d.name,
+        sku: d.sku ?? generateSKU(),
+        barcode,
+        category: d.category ?? null,
+        cost_price: d.cost_price ?? 0,
+        selling_price: d.selling_price ?? 0,
+        current_stock: d.current_stock ?? 0,
+        low_stock_threshold: d.low_stock_threshold ?? 0,
+        created_at: now,
+        updated_at: now,
+      });
+    }
+    if (!items.length) return { success: true, data: [] as Product[], rejected } as const;
+    const saved = await this.saveProducts(items);
+    if (!saved.success) return { success: false, error: saved.error, conflict: saved.conflict } as const;
+    return { success: true, data: saved.data ?? [], rejected } as const;
+  }
+
+  private async saveProduct(product: Product): Promise<ServiceResponse<Product>> {
+    const res = await this.saveProducts([product]);
+    return res.success ? { success: true, data: res.data?.[0] } : { success: false, error: res.error, conflict: res.conflict };
+  }
+
+  // Writes products together with their search entries, so the index can
+  // never disagree with what was saved. Each product must carry the version
+  // it was read at; if the stored one has moved on the whole batch is refused.
+  private async saveProducts(products: Product[]) {
+    return this.storage.transaction<Product[]>(["products", "product_search"], async (tx) => {
+      const saved: Product[] = [];
+      for (const p of products) {
+        const current = await tx.get<Product>("products", p.id);
+        if (current && (current.version ?? 0) !== (p.version ?? 0)) {
+          throw new ConflictError(`${current.name} was changed elsewhere (another till or tab) while you were editing it`);
+        }
+        saved.push(await tx.put<Product>("products", { ...p, version: (p.version ?? 0) + 1 }));
+        await tx.put<ProductSearchEntry>("product_search", { id: p.id, tokens: productTokens(p) });
+      }
+      return saved;
+    });
+  }
+
+  // Re-runs a read-modify-write operation from a fresh read when its write
+  // hit a conflict; after the last attempt the conflict error is returned
+  private async retryOnConflict<R extends { success: boolean; conflict?: boolean }>(op: () => Promise<R>) {
+    let res = await op();
+    for (let attempt = 1; attempt < CONFLICT_RETRIES && res.conflict; attempt++) res = await op();
+    return res;
+  }
+
+  // Devices upgraded to the index (or with products written by an older
+  // build) get their entries filled once, the first time search is used
+  private async ensureSearchIndex(): Promise<{ success: boolean; error?: string }> {
+    if (this.indexChecked) return { success: true };
+    const [products, entries] = await Promise.all([this.storage.count("products"), this.storage.count("product_search")]);
+    if (!products.success || !entries.success) return { success: false, error: products.error ?? entries.error };
+    if (products.data !== entries.data) {
+      const all = await this.storage.getAll<Product>("products");
+      if (!all.success) return { success: false, error: all.error };
+      const ids = new Set((all.data ?? []).map(p => p.id));
+      const stale = await this.storage.getAll<ProductSearchEntry>("product_search");
+      const rebuilt = await this.storage.transaction<true>(["product_search"], async (tx) => {
+        for (const e of stale.data ?? []) if (!ids.has(e.id)) await tx.delete("product_search", e.id);
+        for (const p of all.data ?? []) await tx.put<ProductSearchEntry>("product_search", { id: p.id, tokens: productTokens(p) });
+        return true;
+      });
+      if (!rebuilt.success) return { success: false, error: rebuilt.error };
+    }
+    this.indexChecked = true;
+    return { success: true };
+  }
+
+  private async loadVocabulary() {
+    if (this.vocabulary) return { success: true, data: this.vocabulary } as const;
+    const res = await this.storage.indexKeys("product_search", "tokens", { unique: true });
+    if (!res.success) return { success: false, error: res.error } as const;
+    this.vocabulary = (res.data ?? []) as string[];
+    return { success: true, data: this.vocabulary } as const;
+  }
+
+  // Units sold per product over the last POPULARITY_DAYS, cached briefly
+  private async recentUnitsSold() {
+    if (this.popularity && Date.now() - this.popularity.at < POPULARITY_TTL_MS) return this.popularity.units;
+    const units = new Map<UUID, number>();
+    const from = new Date(Date.now() - POPULARITY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    await this.storage.each<StockMovement>("stock_movements", (m) => {
+      units.set(m.product_id, (units.get(m.product_id) ?? 0) + Math.abs(m.quantity));
+    }, { index: "date", range: keyRange.lowerBound(from), filter: m => m.type === "sale" });
+    this.popularity = { at: Date.now(), units };
+    return units;
   }
 }
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createShopStorage, type ShopStorage } from "@/contexts/storage";
+import type { SyncRemote } from "@/managers/SyncManager";
+import type { Product, Sale, StockMovement } from "@/types/business";
+
+// Signed out, so nothing is ever pushed
+const offlineRemote: SyncRemote = { userId: async () => null, apply: async () => {} };
+
+let shop: ShopStorage;
+
+beforeEach(() => {
+  shop = createShopStorage(`sales-test-${Math.random()}`, offlineRemote, "memory");
+});
+
+afterEach(async () => {
+  shop.storage.changes.close();
+  await shop.adapter.close();
+});
+
+async function stocked(name: string, current_stock: number, selling_price = 100, cost_price = 60) {
+  const res = await shop.products.addProduct({ name, category: null, barcode: null, low_stock_threshold: 1, current_stock, selling_price, cost_price });
+  if (!res.success) throw new Error(res.error);
+  return res.data!;
+}
+
+const stockOf = async (id: string) => (await shop.storage.findById<Product>("products", id)).data?.current_stock;
+
+describe("recordSale", () => {
+  it("takes the stock, numbers the receipt and gives change", async () => {
+    const tea = await stocked("Tea", 10);
+    const res = await shop.sales.recordSale({ items: [{ product: tea, quantity: 3 }], tenders: [{ method: "cash", amount: 300, tendered: 500 }] });
+
+    expect(res.success).toBe(true);
+    if (!res.success) return;
+    expect(res.data.total_amount).toBe(300);
+    expect(res.data.change_due).toBe(200);
+    expect(res.data.receipt?.number).toBe("R-000001");
+    expect(await stockOf(tea.id)).toBe(7);
+  });
+
+  it("keeps each line's cost as it was when rung up", async () => {
+    const tea = await stocked("Tea", 10);
+    const sale = await shop.sales.recordSale({ items: [{ product: tea, quantity: 2 }], payment_method: "cash" });
+    if (!sale.success) throw new Error(sale.error);
+    await shop.storage.save("products", { ...(await shop.storage.findById<Product>("products", tea.id)).data!, cost_price: 80 });
+
+    expect((await shop.storage.findById<Sale>("sales", sale.data.id)).data?.items[0].unit_cost).toBe(60);
+    expect((await shop.sales.refundSale(sale.data.id)).data?.items[0].unit_cost).toBe(60);
+  });
+
+  it("sells nothing when one line runs out of stock", async () => {
+    const tea = await stocked("Tea", 10);
+    const sugar = await stocked("Sugar", 1);
+    const res = await shop.sales.recordSale({ items: [{ product: tea, quantity: 2 }, { product: sugar, quantity: 2 }], payment_method: "cash" });
+
+    expect(res.success).toBe(false);
+    expect(await stockOf(tea.id)).toBe(10);
+    expect((await shop.storage.getAll("sales")).data).toEqual([]);
+  });
+});
+
+describe("refundSale", () => {
+  it("restocks part of a sale against a credit note, then the rest", async () => {
+    const tea = await stocked("Tea", 10);
+    const sale = await shop.sales.recordSale({ items: [{ product: tea, quantity: 4 }], payment_method: "cash" });
+    if (!sale.success) throw new Error(sale.error);
+
+    const first = await shop.sales.refundSale(sale.data.id, [{ product_id: tea.id, quantity: 1 }], { reason: "Torn pack" });
+    expect(first.success).toBe(true);
+    expect(first.data?.total_amount).toBe(100);
+    expect(first.data?.receipt).toMatchObject({ number: "CN-000001", kind: "credit_note", original_receipt_number: "R-000001" });
+    expect(await stockOf(tea.id)).toBe(7);
+    expect((await shop.storage.findById("sales", sale.data.id)).data).toMatchObject({ status: "partially_refunded", refunded_amount: 100 });
+
+    expect((await shop.sales.refundSale(sale.data.id, [{ product_id: tea.id, quantity: 4 }])).error).toBe("Only 3 × Tea can be returned");
+    expect((await shop.sales.refundSale(sale.data.id)).data?.total_amount).toBe(300);
+    expect((await shop.storage.findById("sales", sale.data.id)).data).toMatchObject({ status: "refunded", refunded_amount: 400 });
+    expect(await stockOf(tea.id)).toBe(10);
+    expect((await shop.sales.voidSale(sale.data.id)).error).toBe("Sale has refunds; return the remaining items instead");
+  });
+
+  it("adds up lines for the same product before checking what is left", async () => {
+    const tea = await stocked("Tea", 10);
+    const sale = await shop.sales.recordSale({ items: [{ product: tea, quantity: 3 }], payment_method: "cash" });
+    if (!sale.success) throw new Error(sale.error);
+
+    const res = await shop.sales.refundSale(sale.data.id, [{ product_id: tea.id, quantity: 2 }, { product_id: tea.id, quantity: 2 }]);
+    expect(res).toEqual({ success: false, error: "Only 3 × Tea can be returned" });
+    expect(await stockOf(tea.id)).toBe(7);
+    expect((await shop.sales.refundsForSale(sale.data.id)).data).toEqual([]);
+
+    const split = await shop.sales.refundSale(sale.data.id, [{ product_id: tea.id, quantity: 1 }, { product_id: tea.id, quantity: 2 }]);
+    expect(split.data?.items).toMatchObject([{ product_id: tea.id, quantity: 3, subtotal: 300 }]);
+    expect(await stockOf(tea.id)).toBe(10);
+  });
+});
+
+describe("voidSale", () => {
+  it("puts everything back once and records the returns", async () => {
+    const tea = await stocked("Tea", 10);
+    const sale = await shop.sales.recordSale({ items: [{ product: tea, quantity: 2 }], payment_method: "cash" });
+    if (!sale.success) throw new Error(sale.error);
+
+    const voided = await shop.sales.voidSale(sale.data.id, "Rang up twice");
+    expect(voided.data?.status).toBe("voided");
+    expect(await stockOf(tea.id)).toBe(10);
+    const movements = await shop.storage.findByIndex<StockMovement>("stock_movements", "sale_id", sale.data.id);
+    expect(movements.data?.map(m => [m.type, m.quantity]).sort()).toEqual([["return", 2], ["sale", -2]]);
+
+    expect((await shop.sales.voidSale(sale.data.id)).error).toBe("Sale already voided");
+    expect((await shop.sales.refundSale(sale.data.id)).error).toBe("Sale was voided");
+    expect(await stockOf(tea.id)).toBe(10);
+  });
+});
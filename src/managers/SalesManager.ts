@@ -1,12 +1,89 @@
-import { StorageService } from "@/storage/StorageService";
-import { type Sale, type SaleItem, type Product, type UUID, type PaymentMethod, receiptSchema } from "@/types/business";
+import { StorageService, type StorageTransaction } from "@/storage/StorageService";
+import { type Sale, type SaleItem, type Product, type UUID, type PaymentMethod, type Counter, type Receipt, type Refund, type Tender, type MpesaReference, type Shift } from "@/types/business";
 import { ProductManager } from "@/managers/ProductManager";
+import { StockManager } from "@/managers/StockManager";
+import { STOCK_LOCK } from "@/storage/locks";
 
 function uuid(): UUID { return (globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2)) as UUID; }
 function nowISO() { return new Date().toISOString(); }
 
+const RECEIPT_COUNTER_ID = "receipt";
+const CREDIT_NOTE_COUNTER_ID = "credit_note";
+const DEFAULT_PREFIXES: Record<string, string> = {
+  [RECEIPT_COUNTER_ID]: "R-",
+  [CREDIT_NOTE_COUNTER_ID]: "CN-",
+};
+
+// R-000123, or R-2025-000123 when numbering restarts every year
+function formatReceiptNumber(counter: Counter) {
+  const seq = String(counter.value).padStart(6, "0");
+  return counter.yearly_reset && counter.year ? `${counter.prefix}${counter.year}-${seq}` : `${counter.prefix}${seq}`;
+}
+
+// Money is compared to the cent
+function roundCents(n: number) { return Math.round(n * 100) / 100; }
+
+export interface TenderInput {
+  method: PaymentMethod;
+  amount: number;
+  tendered?: number;
+  mpesa?: { transaction_code?: string; phone?: string } | null;
+}
+
+function normalizeMpesa(input: TenderInput["mpesa"]): MpesaReference | null {
+  const code = input?.transaction_code?.trim().toUpperCase();
+  if (!code) return null;
+  return { transaction_code: code, phone: input?.phone?.trim() || null };
+}
+
+// Checks the tenders cover the total exactly and works out change on cash
+function settleTenders(total: number, tenders: TenderInput[]): Tender[] {
+  if (!tenders.length) throw new Error("No payment recorded");
+  const paid = roundCents(tenders.reduce((s, t) => s + t.amount, 0));
+  if (paid !== roundCents(total)) {
+    throw new Error(`Payments (KSh ${paid.toFixed(2)}) must equal the sale total (KSh ${total.toFixed(2)})`);
+  }
+  return tenders.map(t => {
+    if (t.amount < 0) throw new Error("Payment amounts cannot be negative");
+    const mpesa = t.method === "mpesa" ? normalizeMpesa(t.mpesa) : null;
+    if (t.tendered == null) return { method: t.method, amount: t.amount, tendered: null, change: null, mpesa };
+    if (t.method !== "cash") throw new Error("Only cash payments can receive change");
+    if (t.tendered < t.amount) throw new Error("Cash received is less than the cash amount due");
+    return { method: t.method, amount: t.amount, tendered: t.tendered, change: roundCents(t.tendered - t.amount), mpesa };
+  });
+}
+
+function mpesaReferences(tenders: Tender[]) {
+  return tenders.flatMap(t => (t.mpesa ? [t.mpesa] : []));
+}
+
+// The till session currently open, if any; sales and refunds are booked to it
+async function openShiftId(tx: StorageTransaction) {
+  const open = await tx.getByIndex<Shift>("shifts", "status", "open");
+  return open[0]?.id ?? null;
+}
+
+// Pays a refund back the way the sale was paid: split across its tenders in
+// proportion, the last one taking the rounding
+function refundTenders(sale: Sale, total: number): Tender[] {
+  const paid = sale.tenders?.filter(t => t.amount > 0) ?? [];
+  if (!paid.length || sale.total_amount <= 0) return [{ method: sale.payment_method, amount: total }];
+  let left = total;
+  return paid.map((t, i) => {
+    const amount = i === paid.length - 1 ? roundCents(left) : roundCents(total * t.amount / sale.total_amount);
+    left -= amount;
+    return { method: t.method, amount };
+  });
+}
+
+function returnedQuantities(refunds: Refund[]) {
+  const map = new Map<UUID, number>();
+  refunds.forEach(r => r.items.forEach(it => map.set(it.product_id, (map.get(it.product_id) ?? 0) + it.quantity)));
+  return map;
+}
+
 export class SalesManager {
-  constructor(private storage: StorageService, private products: ProductManager) {}
+  constructor(private storage: StorageService, private products: ProductManager, private stock: StockManager) {}
 
   private calcTotals(items: SaleItem[]) {
     const total = items.reduce((s, i) => s + i.subtotal, 0);
@@ -15,7 +92,9 @@ export class SalesManager {
 
   async recordSale(params: {
     items: Array<{ product: Product; quantity: number; price?: number }>;
-    payment_method: PaymentMethod;
+    payment_method?: PaymentMethod;
+    // Split payments; defaults to one tender of `payment_method` for the full total
+    tenders?: TenderInput[];
     staff_id?: UUID;
     customer?: { id?: UUID; name?: string; phone?: string } | null;
   }) {
@@ -31,64 +110,308 @@ export class SalesManager {
 
     const { total } = this.calcTotals(items);
 
+    let tenders: Tender[];
+    try {
+      tenders = settleTenders(total, params.tenders ?? (params.payment_method ? [{ method: params.payment_method, amount: total }] : []));
+    } catch (e: unknown) {
+      return { success: false, error: (e as Error).message } as const;
+    }
+    const primary = tenders.reduce((a, b) => (b.amount > a.amount ? b : a));
+
     const sale: Sale = {
       id: uuid(),
       date: nowISO(),
       items,
       total_amount: total,
-      payment_method: params.payment_method,
+      payment_method: primary.method,
+      tenders,
+      change_due: tenders.reduce((s, t) => s + (t.change ?? 0), 0),
       staff_id: params.staff_id ?? null,
       customer: params.customer ?? null,
       receipt: null,
+      status: "completed",
+      voided_at: null,
     };
 
-    // Deduct stock atomically-ish (best effort in single-thread)
-    for (const it of items) {
-      const dec = await this.products.updateStock(it.product_id, -it.quantity);
-      if (!dec.success) return { success: false, error: `Stock update failed for ${it.product_name}` } as const;
-    }
+    // Stock deductions, the receipt number and the sale itself commit together
+    // or not at all; the lock keeps another tab's sale from interleaving
+    const res = await this.storage.locked(STOCK_LOCK, () => this.storage.transaction<Sale>(["products", "sales", "stock_movements", "counters", "shifts"], async (tx) => {
+      sale.shift_id = await openShiftId(tx);
+      for (const it of items) {
+        const product = await this.products.adjustStock(tx, it.product_id, -it.quantity);
+        if (product.archived_at) throw new Error(`${product.name} is archived and can't be sold`);
+        // Kept on the line so profit stays what it was when later cost changes come in
+        it.unit_cost = product.cost_price;
+        await this.stock.writeMovement(tx, {
+          product_id: it.product_id,
+          quantity: -it.quantity,
+          type: "sale",
+          sale_id: sale.id,
+          date: sale.date,
+        });
+      }
+      const receipt: Receipt = {
+        id: uuid(),
+        sale_id: sale.id,
+        number: await this.nextDocumentNumber(tx, RECEIPT_COUNTER_ID, sale.date),
+        issued_at: sale.date,
+        total: sale.total_amount,
+        payment_method: sale.payment_method,
+        kind: "sale",
+        mpesa: mpesaReferences(tenders),
+      };
+      sale.receipt = receipt;
+      return tx.put<Sale>("sales", sale);
+    }));
+    if (!res.success) return { success: false, error: res.error ?? "Failed to record sale" } as const;
 
-    const saved = await this.storage.save<Sale>("sales", sale);
-    if (!saved.success || !saved.data) return saved;
+    return { success: true, data: sale } as const;
+  }
 
-    const receipt = {
-      id: uuid(),
-      sale_id: sale.id,
-      number: `R-${Math.random().toString(36).slice(2, 8).toUpperCase()}`,
-      issued_at: sale.date,
-      total: sale.total_amount,
-      payment_method: sale.payment_method,
+  // Cancels a whole sale: puts every item back on the shelf, writes the
+  // matching "return" movements and marks the sale voided.
+  async voidSale(saleId: UUID, reason?: string) {
+    const res = await this.storage.locked(STOCK_LOCK, () => this.storage.transaction<Sale>(["products", "sales", "stock_movements"], async (tx) => {
+      const sale = await tx.get<Sale>("sales", saleId);
+      if (!sale) throw new Error("Sale not found");
+      if (sale.status === "voided") throw new Error("Sale already voided");
+      if (sale.refunded_amount) throw new Error("Sale has refunds; return the remaining items instead");
+
+      const voidedAt = nowISO();
+      for (const it of sale.items) {
+        await this.products.adjustStock(tx, it.product_id, it.quantity);
+        await this.stock.writeMovement(tx, {
+          product_id: it.product_id,
+          quantity: it.quantity,
+          type: "return",
+          sale_id: sale.id,
+          date: voidedAt,
+          notes: reason ?? `Void of ${sale.receipt?.number ?? sale.id}`,
+        });
+      }
+      return tx.put<Sale>("sales", { ...sale, status: "voided", voided_at: voidedAt });
+    }));
+    if (!res.success) return { success: false, error: res.error ?? "Failed to void sale" } as const;
+
+    return { success: true, data: res.data } as const;
+  }
+
+  /**
+   * Takes goods back against an earlier sale. `lines` defaults to everything
+   * not yet returned. Restocks the items, writes "return" movements and issues
+   * a credit note linked to the original receipt, all in one transaction.
+   */
+  async refundSale(
+    saleId: UUID,
+    lines?: Array<{ product_id: UUID; quantity: number }>,
+    options: { reason?: string; staff_id?: UUID } = {},
+  ) {
+    const res = await this.storage.locked(STOCK_LOCK, () => this.storage.transaction<Refund>(
+      ["products", "sales", "stock_movements", "counters", "refunds", "shifts"],
+      async (tx) => {
+        const sale = await tx.get<Sale>("sales", saleId);
+        if (!sale) throw new Error("Sale not found");
+        if (sale.status === "voided") throw new Error("Sale was voided");
+
+        const prior = await tx.getByIndex<Refund>("refunds", "sale_id", saleId);
+        const returned = returnedQuantities(prior);
+        const requested = lines ?? sale.items.map(it => ({
+          product_id: it.product_id,
+          quantity: it.quantity - (returned.get(it.product_id) ?? 0),
+        })).filter(l => l.quantity > 0);
+        if (!requested.length) throw new Error("Nothing left to refund on this sale");
+
+        // Lines for the same product are added up first, so splitting a
+        // request can't return more than was sold
+        const wanted = new Map<UUID, number>();
+        for (const { product_id, quantity } of requested) {
+          if (quantity <= 0) throw new Error("Quantities to return must be positive");
+          wanted.set(product_id, (wanted.get(product_id) ?? 0) + quantity);
+        }
+
+        const items: SaleItem[] = Array.from(wanted, ([product_id, quantity]) => {
+          const original = sale.items.find(it => it.product_id === product_id);
+          if (!original) throw new Error("Item is not part of this sale");
+          const sold = sale.items.filter(it => it.product_id === product_id).reduce((sum, it) => sum + it.quantity, 0);
+          const remaining = sold - (returned.get(product_id) ?? 0);
+          if (quantity > remaining) {
+            throw new Error(`Only ${remaining} × ${original.product_name} can be returned`);
+          }
+          return {
+            product_id,
+            product_name: original.product_name,
+            quantity,
+            unit_price: original.unit_price,
+            subtotal: original.unit_price * quantity,
+            ...(original.unit_cost === undefined ? {} : { unit_cost: original.unit_cost }),
+          };
+        });
+
+        const { total } = this.calcTotals(items);
+        const refundId = uuid();
+        const date = nowISO();
+        const number = await this.nextDocumentNumber(tx, CREDIT_NOTE_COUNTER_ID, date);
+
+        for (const it of items) {
+          await this.products.adjustStock(tx, it.product_id, it.quantity);
+          await this.stock.writeMovement(tx, {
+            product_id: it.product_id,
+            quantity: it.quantity,
+            type: "return",
+            sale_id: sale.id,
+            date,
+            notes: options.reason ?? `Refund ${number}`,
+          });
+        }
+
+        const refund = await tx.put<Refund>("refunds", {
+          id: refundId,
+          sale_id: sale.id,
+          date,
+          items,
+          total_amount: total,
+          tenders: refundTenders(sale, total),
+          reason: options.reason ?? null,
+          staff_id: options.staff_id ?? null,
+          shift_id: await openShiftId(tx),
+          receipt: {
+            id: uuid(),
+            sale_id: sale.id,
+            number,
+            issued_at: date,
+            total,
+            payment_method: sale.payment_method,
+            kind: "credit_note",
+            original_receipt_number: sale.receipt?.number ?? null,
+          },
+        });
+
+        for (const it of items) returned.set(it.product_id, (returned.get(it.product_id) ?? 0) + it.quantity);
+        const fullyReturned = sale.items.every(it => (returned.get(it.product_id) ?? 0) >= it.quantity);
+        await tx.put<Sale>("sales", {
+          ...sale,
+          status: fullyReturned ? "refunded" : "partially_refunded",
+          refunded_amount: (sale.refunded_amount ?? 0) + total,
+        });
+
+        return refund;
+      },
+    ));
+    if (!res.success) return { success: false, error: res.error ?? "Failed to refund sale" } as const;
+
+    return { success: true, data: res.data } as const;
+  }
+
+  // Fills in (or corrects) the M-Pesa code on one of a sale's mpesa tenders,
+  // e.g. after matching it against the statement at close of day.
+  async setMpesaReference(saleId: UUID, tenderIndex: number, reference: { transaction_code: string; phone?: string | null }) {
+    return this.storage.transaction<Sale>(["sales"], async (tx) => {
+      const sale = await tx.get<Sale>("sales", saleId);
+      if (!sale) throw new Error("Sale not found");
+      const current: Tender[] = sale.tenders ?? [{ method: sale.payment_method, amount: sale.total_amount }];
+      const tender = current[tenderIndex];
+      if (!tender || tender.method !== "mpesa") throw new Error("Sale has no such M-Pesa payment");
+
+      const tenders = current.map((t, i) => (
+        i === tenderIndex ? { ...t, mpesa: normalizeMpesa({ ...reference, phone: reference.phone ?? t.mpesa?.phone ?? undefined }) } : t
+      ));
+      const receipt = sale.receipt ? { ...sale.receipt, mpesa: mpesaReferences(tenders) } : sale.receipt;
+      return tx.put<Sale>("sales", { ...sale, tenders, receipt });
+    });
+  }
+
+  async refundsForSale(saleId: UUID) {
+    return this.storage.findByIndex<Refund>("refunds", "sale_id", saleId);
+  }
+
+  async refundsByDateRange(fromISO: string, toISO: string) {
+    return this.storage.queryDateRange<Refund>("refunds", fromISO, toISO);
+  }
+
+  // Hands out the next number for `counterId` (receipts, credit notes). Runs
+  // inside the caller's transaction, so an aborted sale never consumes a number.
+  private async nextDocumentNumber(tx: StorageTransaction, counterId: string, issuedAt: string) {
+    const current = await tx.get<Counter>("counters", counterId);
+    const counter: Counter = current ?? {
+      id: counterId,
+      prefix: DEFAULT_PREFIXES[counterId] ?? "",
+      value: 0,
+      yearly_reset: false,
+      year: null,
+      updated_at: nowISO(),
     };
+    const year = new Date(issuedAt).getFullYear();
+    const restart = counter.yearly_reset && counter.year !== year;
+    const next = await tx.put<Counter>("counters", {
+      ...counter,
+      value: restart ? 1 : counter.value + 1,
+      year,
+      updated_at: nowISO(),
+    });
+    return formatReceiptNumber(next);
+  }
 
-    const parse = receiptSchema.safeParse(receipt);
-    if (parse.success) {
-      sale.receipt = receipt;
-      await this.storage.save<Sale>("sales", sale);
-    }
+  async receiptNumbering() {
+    const res = await this.storage.findById<Counter>("counters", RECEIPT_COUNTER_ID);
+    if (!res.success) return res;
+    return {
+      success: true,
+      data: { prefix: res.data?.prefix ?? DEFAULT_PREFIXES[RECEIPT_COUNTER_ID], yearly_reset: res.data?.yearly_reset ?? false },
+    } as const;
+  }
 
-    return { success: true, data: sale } as const;
+  // Changes the prefix / yearly reset without touching the running sequence
+  async configureReceiptNumbering(options: { prefix: string; yearly_reset: boolean }) {
+    return this.storage.transaction<Counter>(["counters"], async (tx) => {
+      const current = await tx.get<Counter>("counters", RECEIPT_COUNTER_ID);
+      return tx.put<Counter>("counters", {
+        id: RECEIPT_COUNTER_ID,
+        value: current?.value ?? 0,
+        year: current?.year ?? null,
+        prefix: options.prefix,
+        yearly_reset: options.yearly_reset,
+        updated_at: nowISO(),
+      });
+    });
+  }
+
+  async findByReceiptNumber(number: string) {
+    return this.storage.findByIndex<Sale>("sales", "receipt_number", number);
+  }
+
+  /** The most recently rung up sale, voided or not; undefined before the first. */
+  async latestSale() {
+    const res = await this.storage.page<Sale>("sales", { index: "date", direction: "prev", limit: 1 });
+    if (!res.success || !res.data) return { success: false, error: res.error ?? "Failed to read the latest sale" } as const;
+    return { success: true, data: res.data.items[0] as Sale | undefined } as const;
   }
 
   async salesByDateRange(fromISO: string, toISO: string) {
     return this.storage.queryDateRange<Sale>("sales", fromISO, toISO);
   }
 
+  // Net takings for a period: completed sales minus refunds issued in it
+  private async summarize(fromISO: string, toISO: string) {
+    const [sales, refunds] = await Promise.all([
+      this.salesByDateRange(fromISO, toISO),
+      this.refundsByDateRange(fromISO, toISO),
+    ]);
+    const completed = (sales.data ?? []).filter(x => x.status !== "voided");
+    const gross = completed.reduce((s, x) => s + x.total_amount, 0);
+    const refunded = (refunds.data ?? []).reduce((s, x) => s + x.total_amount, 0);
+    return { success: true, data: { total: gross - refunded, count: completed.length, gross, refunded } } as const;
+  }
+
   async dailySummary(dateISO: string) {
     const from = new Date(dateISO);
     const to = new Date(from);
     to.setHours(23, 59, 59, 999);
-    const res = await this.salesByDateRange(from.toISOString(), to.toISOString());
-    if (!res.success || !res.data) return { success: true, data: { total: 0, count: 0 } } as const;
-    const total = res.data.reduce((s, x) => s + x.total_amount, 0);
-    return { success: true, data: { total, count: res.data.length } } as const;
+    return this.summarize(from.toISOString(), to.toISOString());
   }
 
   async monthlySummary(year: number, monthIndex0: number) {
     const from = new Date(Date.UTC(year, monthIndex0, 1, 0, 0, 0));
     const to = new Date(Date.UTC(year, monthIndex0 + 1, 0, 23, 59, 59, 999));
-    const res = await this.salesByDateRange(from.toISOString(), to.toISOString());
-    if (!res.success || !res.data) return { success: true, data: { total: 0, count: 0 } } as const;
-    const total = res.data.reduce((s, x) => s + x.total_amount, 0);
-    return { success: true, data: { total, count: res.data.length } } as const;
+    return this.summarize(from.toISOString(), to.toISOString());
   }
 }
@@ -1,10 +1,12 @@
 import { StorageService } from "@/storage/StorageService";
-import { type BusinessSettings, type UUID } from "@/types/business";
+import { type BackupPreferences, type BusinessSettings, type UUID } from "@/types/business";
 import { settingsSchema } from "@/types/business";
 
 function nowISO() { return new Date().toISOString(); }
 function uuid(): UUID { return (globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2)) as UUID; }
 
+export const DEFAULT_BACKUP_PREFERENCES: BackupPreferences = { enabled: false, frequency: "daily", last_run_at: null };
+
 export class SettingsManager {
   constructor(private storage: StorageService) {}
 
@@ -12,6 +14,27 @@ export class SettingsManager {
     return this.storage.findById<BusinessSettings>("business_settings", id);
   }
 
+  /** This database's settings record; undefined until one has been saved. */
+  async current() {
+    const all = await this.storage.getAll<BusinessSettings>("business_settings");
+    if (!all.success) return { success: false, error: all.error ?? "Failed to read settings" } as const;
+    const existing = (all.data ?? []).sort((a, b) => a.created_at.localeCompare(b.created_at))[0];
+    return { success: true, data: existing as BusinessSettings | undefined } as const;
+  }
+
+  /** Like `current`, but saves a record with defaults when there isn't one yet. */
+  async ensure() {
+    const res = await this.current();
+    if (!res.success || res.data) return res;
+    return this.upsert({
+      id: uuid(),
+      business_name: "My Shop",
+      default_currency: "KES",
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "Africa/Nairobi",
+      backup: DEFAULT_BACKUP_PREFERENCES,
+    });
+  }
+
   async upsert(input: Omit<BusinessSettings, "created_at" | "updated_at">) {
     const existing = await this.get(input.id);
     const base = existing.success && existing.data ? existing.data : ({
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createShopStorage, type ShopStorage } from "@/contexts/storage";
+import type { SyncRemote } from "@/managers/SyncManager";
+
+// Signed out, so nothing is ever pushed
+const offlineRemote: SyncRemote = { userId: async () => null, apply: async () => {} };
+
+let shop: ShopStorage;
+
+beforeEach(() => {
+  shop = createShopStorage(`shift-test-${Math.random()}`, offlineRemote, "memory");
+});
+
+afterEach(async () => {
+  shop.storage.changes.close();
+  await shop.adapter.close();
+});
+
+async function stocked(name: string, current_stock: number, selling_price = 100, cost_price = 60) {
+  const res = await shop.products.addProduct({ name, category: null, barcode: null, low_stock_threshold: 1, current_stock, selling_price, cost_price });
+  if (!res.success) throw new Error(res.error);
+  return res.data!;
+}
+
+describe("shift reports", () => {
+  it("takes a split-tender refund back off each drawer it was paid into", async () => {
+    const opened = await shop.shifts.openShift({ opening_float: 1000 });
+    if (!opened.success) throw new Error(opened.error);
+    const tea = await stocked("Tea", 10);
+    const sale = await shop.sales.recordSale({
+      items: [{ product: tea, quantity: 4 }],
+      tenders: [{ method: "cash", amount: 100 }, { method: "mpesa", amount: 300, mpesa: { transaction_code: "QAB1234567" } }],
+    });
+    if (!sale.success) throw new Error(sale.error);
+
+    const refund = await shop.sales.refundSale(sale.data.id, [{ product_id: tea.id, quantity: 2 }]);
+    expect(refund.data?.tenders).toEqual([{ method: "cash", amount: 50 }, { method: "mpesa", amount: 150 }]);
+
+    const x = await shop.shifts.xReport(opened.data!.id);
+    expect(x.data).toMatchObject({ sales_count: 1, refunds_count: 1, gross: 400, refunded: 200 });
+    expect(x.data?.expected).toEqual({ cash: 1050, mpesa: 150, card: 0, other: 0 });
+
+    const closed = await shop.shifts.closeShift({ counted: { cash: 1050, mpesa: 150 } });
+    if (!closed.success) throw new Error(closed.error);
+    expect(closed.data?.report?.variance).toEqual({ cash: 0, mpesa: 0, card: 0, other: 0 });
+  });
+});
@@ -0,0 +1,135 @@
+import { StorageService } from "@/storage/StorageService";
+import { STOCK_LOCK } from "@/storage/locks";
+import {
+  type Shift,
+  type ShiftReport,
+  type PaymentTotals,
+  type PaymentMethod,
+  type Sale,
+  type Refund,
+  type UUID,
+} from "@/types/business";
+
+function nowISO() { return new Date().toISOString(); }
+function uuid(): UUID { return (globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2)) as UUID; }
+function zeroTotals(): PaymentTotals { return { cash: 0, mpesa: 0, card: 0, other: 0 }; }
+function roundCents(n: number) { return Math.round(n * 100) / 100; }
+
+export class ShiftManager {
+  constructor(private storage: StorageService) {}
+
+  async current() {
+    const res = await this.storage.findByIndex<Shift>("shifts", "status", "open");
+    if (!res.success) return { success: false, error: res.error } as const;
+    return { success: true, data: res.data?.[0] ?? null } as const;
+  }
+
+  async openShift(input: { opening_float: number; staff_id?: UUID }) {
+    if (input.opening_float < 0) return { success: false, error: "Opening float cannot be negative" } as const;
+    return this.storage.transaction<Shift>(["shifts"], async (tx) => {
+      const open = await tx.getByIndex<Shift>("shifts", "status", "open");
+      if (open.length) throw new Error("A shift is already open; close it first");
+      return tx.put<Shift>("shifts", {
+        id: uuid(),
+        status: "open",
+        opened_at: nowISO(),
+        opened_by: input.staff_id ?? null,
+        opening_float: input.opening_float,
+        closed_at: null,
+        closed_by: null,
+        report: null,
+      });
+    });
+  }
+
+  /** Mid-shift X report: what should be in the drawer right now. Not stored. */
+  async xReport(shiftId: UUID) {
+    const shift = await this.storage.findById<Shift>("shifts", shiftId);
+    if (!shift.success || !shift.data) return { success: false, error: "Shift not found" } as const;
+    const [sales, refunds] = await Promise.all([
+      this.storage.findByIndex<Sale>("sales", "shift_id", shiftId),
+      this.storage.findByIndex<Refund>("refunds", "shift_id", shiftId),
+    ]);
+    if (!sales.success) return { success: false, error: sales.error ?? "Failed to read the shift's sales" } as const;
+    if (!refunds.success) return { success: false, error: refunds.error ?? "Failed to read the shift's refunds" } as const;
+    return { success: true, data: buildReport(shift.data, "X", sales.data ?? [], refunds.data ?? []) } as const;
+  }
+
+  /**
+   * Closes the open shift with the counted drawer contents and stores the Z
+   * report (expected vs counted per payment method, and the variance). The
+   * report is built in the closing transaction under the stock lock, so no
+   * sale can be booked to the shift after it was counted.
+   */
+  async closeShift(input: { counted: Partial<PaymentTotals>; staff_id?: UUID }) {
+    const current = await this.current();
+    if (!current.success || !current.data) return { success: false, error: "No open shift" } as const;
+
+    return this.storage.locked(STOCK_LOCK, () => this.storage.transaction<Shift>(["shifts", "sales", "refunds"], async (tx) => {
+      const shift = await tx.get<Shift>("shifts", current.data.id);
+      if (!shift || shift.status !== "open") throw new Error("Shift was already closed");
+      const report = buildReport(
+        shift,
+        "Z",
+        await tx.getByIndex<Sale>("sales", "shift_id", shift.id),
+        await tx.getByIndex<Refund>("refunds", "shift_id", shift.id),
+      );
+      const counted = { ...zeroTotals(), ...input.counted };
+      const variance = zeroTotals();
+      (Object.keys(variance) as PaymentMethod[]).forEach(m => {
+        variance[m] = roundCents(counted[m] - report.expected[m]);
+      });
+      return tx.put<Shift>("shifts", {
+        ...shift,
+        status: "closed",
+        closed_at: report.generated_at,
+        closed_by: input.staff_id ?? null,
+        report: { ...report, counted, variance },
+      });
+    }));
+  }
+
+  // Newest first
+  async list(options: { status?: Shift["status"]; limit?: number } = {}) {
+    const res = await this.storage.page<Shift>("shifts", {
+      index: "opened_at",
+      direction: "prev",
+      filter: options.status ? (s) => s.status === options.status : undefined,
+      limit: options.limit ?? 20,
+    });
+    if (!res.success || !res.data) return { success: false, error: res.error } as const;
+    return { success: true, data: res.data.items } as const;
+  }
+
+}
+
+function buildReport(shift: Shift, kind: ShiftReport["kind"], sales: Sale[], refunds: Refund[]): ShiftReport {
+  const completed = sales.filter(s => s.status !== "voided");
+
+  const expected = zeroTotals();
+  expected.cash = shift.opening_float;
+  for (const sale of completed) {
+    for (const t of sale.tenders ?? [{ method: sale.payment_method, amount: sale.total_amount }]) {
+      expected[t.method] += t.amount;
+    }
+  }
+  for (const r of refunds) {
+    for (const t of r.tenders ?? [{ method: r.receipt.payment_method, amount: r.total_amount }]) {
+      expected[t.method] -= t.amount;
+    }
+  }
+  (Object.keys(expected) as PaymentMethod[]).forEach(m => { expected[m] = roundCents(expected[m]); });
+
+  return {
+    kind,
+    generated_at: nowISO(),
+    sales_count: completed.length,
+    refunds_count: refunds.length,
+    gross: roundCents(completed.reduce((s, x) => s + x.total_amount, 0)),
+    refunded: roundCents(refunds.reduce((s, x) => s + x.total_amount, 0)),
+    opening_float: shift.opening_float,
+    expected,
+    counted: null,
+    variance: null,
+  };
+}
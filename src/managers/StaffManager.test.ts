@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MemoryAdapter } from "@/storage/adapters";
+import { StorageService } from "@/storage/StorageService";
+import { StaffManager } from "@/managers/StaffManager";
+import { AuditManager } from "@/managers/AuditManager";
+import type { AuditEntry, Staff } from "@/types/business";
+
+let storage: StorageService;
+let staff: StaffManager;
+
+beforeEach(() => {
+  storage = new StorageService(new MemoryAdapter(`staff-test-${Math.random()}`));
+  staff = new StaffManager(storage);
+});
+
+afterEach(() => storage.changes.close());
+
+async function hire(name: string, pin?: string) {
+  const res = await staff.addStaff({ name, email: `${name.toLowerCase()}@shop.test`, role: "cashier", pin });
+  if (!res.success) throw new Error(res.error);
+  return res.data!;
+}
+
+describe("signIn", () => {
+  it("needs the staff member's PIN", async () => {
+    const amina = await hire("Amina", "2468");
+
+    expect(await staff.signIn(amina.id, "1357")).toEqual({ success: false, error: "Wrong PIN" });
+    expect(staff.current()).toBeNull();
+    expect((await staff.signIn(amina.id, "2468")).success).toBe(true);
+    expect(staff.current()?.id).toBe(amina.id);
+  });
+
+  it("has someone without a PIN choose one, and keeps it out of the audit trail", async () => {
+    const otieno = await hire("Otieno");
+    expect((await staff.signIn(otieno.id, "12")).error).toBe("PIN must be 4 to 12 digits");
+    expect((await staff.signIn(otieno.id, "9090")).success).toBe(true);
+    staff.signOut();
+
+    expect((await staff.signIn(otieno.id, "0000")).success).toBe(false);
+    expect((await staff.signIn(otieno.id, "9090")).success).toBe(true);
+    const history = await new AuditManager(storage).history(otieno.id);
+    const pinChange = history.data?.[0].changes.find(c => c.field === "pin");
+    expect(pinChange).toEqual({ field: "pin", before: null, after: "••••" });
+    expect(history.data?.[0].actor_id).toBe(otieno.id);
+  });
+
+  it("makes the staff member wait after five wrong PINs", async () => {
+    const amina = await hire("Amina", "2468");
+    for (let i = 0; i < 5; i++) await staff.signIn(amina.id, "0000");
+
+    expect((await staff.signIn(amina.id, "2468")).error).toMatch(/^Too many wrong PINs/);
+    expect(staff.current()).toBeNull();
+  });
+});
+
+describe("changePin", () => {
+  it("replaces the PIN once the current one is given", async () => {
+    const amina = await hire("Amina", "2468");
+    expect(await staff.changePin(amina.id, "1111", "8642")).toEqual({ success: false, error: "Wrong PIN" });
+    expect(await staff.changePin(amina.id, "2468", "8642")).toEqual({ success: true });
+
+    expect((await staff.signIn(amina.id, "2468")).success).toBe(false);
+    expect((await staff.signIn(amina.id, "8642")).success).toBe(true);
+    expect(JSON.stringify((await storage.findById<Staff>("staff", amina.id)).data)).not.toContain("8642");
+  });
+});
+
+describe("audit retention", () => {
+  it("prunes entries older than the retention period", async () => {
+    const amina = await hire("Amina");
+    const old: AuditEntry = { id: "old-entry", at: "2020-01-01T00:00:00.000Z", actor_id: null, store: "staff", record_id: amina.id, operation: "update", changes: [] };
+    await storage.save("audit_log", old);
+
+    const audit = new AuditManager(storage);
+    expect(await audit.prune(365)).toEqual({ success: true, data: 1 });
+    const left = await storage.getAll<AuditEntry>("audit_log");
+    expect(left.data?.map(e => e.record_id)).toEqual([amina.id]);
+  });
+});
@@ -1,27 +1,146 @@
 import { StorageService } from "@/storage/StorageService";
-import { type Staff, type UUID, type AppRole } from "@/types/business";
+import { type PinHash, type Staff, type UUID, type AppRole } from "@/types/business";
 import { staffSchema } from "@/types/business";
 
 function nowISO() { return new Date().toISOString(); }
 function uuid(): UUID { return (globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2)) as UUID; }
 
+const PIN_ITERATIONS = 100_000;
+// Wrong PINs allowed in a row before that staff member has to wait
+const MAX_PIN_FAILURES = 5;
+const PIN_LOCKOUT_MS = 60_000;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+function checkPin(pin: string) {
+  return /^\d{4,12}$/.test(pin) ? null : "PIN must be 4 to 12 digits";
+}
+
+async function derivePin(pin: string, salt: Uint8Array, iterations: number) {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveBits"]);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: "PBKDF2", salt, iterations, hash: "SHA-256" }, material, 256));
+}
+
+async function hashPin(pin: string): Promise<PinHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { salt: toBase64(salt), hash: toBase64(await derivePin(pin, salt, PIN_ITERATIONS)), iterations: PIN_ITERATIONS };
+}
+
+async function verifyPin(stored: PinHash, pin: string) {
+  const actual = await derivePin(pin, fromBase64(stored.salt), stored.iterations);
+  const expected = fromBase64(stored.hash);
+  // Compares every byte, so the time taken doesn't give away how much matched
+  let diff = actual.length ^ expected.length;
+  actual.forEach((b, i) => { diff |= b ^ (expected[i] ?? 0); });
+  return diff === 0;
+}
+
 const rolePermissions: Record<AppRole, string[]> = {
-  admin: ["manage_products", "process_sales", "view_reports", "manage_staff", "manage_settings"],
+  admin: ["manage_products", "process_sales", "view_reports", "manage_staff", "manage_settings", "view_audit"],
   manager: ["manage_products", "process_sales", "view_reports", "manage_settings"],
   cashier: ["process_sales"],
   viewer: ["view_reports"],
 };
 
 export class StaffManager {
+  // Who is at the till in this tab; their writes are attributed to them in the audit log
+  private onDuty: Staff | null = null;
+  private listeners = new Set<(staff: Staff | null) => void>();
+  private pinFailures = new Map<UUID, { count: number; until: number }>();
+
   constructor(private storage: StorageService) {}
 
-  async addStaff(input: Omit<Staff, "id" | "created_at"> & { id?: UUID }) {
+  onDutyChange(listener: (staff: Staff | null) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private setOnDuty(staff: Staff | null) {
+    this.onDuty = staff;
+    this.storage.setActor(staff?.id ?? null);
+    this.listeners.forEach(listener => listener(staff));
+  }
+
+  current() { return this.onDuty; }
+
+  /**
+   * Puts `staffId` on duty once their PIN checks out. Someone without a PIN
+   * yet (added before PINs existed) chooses it with this first sign-in.
+   */
+  async signIn(staffId: UUID, pin: string) {
+    const res = await this.storage.findById<Staff>("staff", staffId);
+    if (!res.success || !res.data) return { success: false, error: "Staff not found" } as const;
+    const staff = res.data;
+
+    const failures = this.pinFailures.get(staffId);
+    if (failures && failures.until > Date.now()) {
+      return { success: false, error: `Too many wrong PINs; try again in ${Math.ceil((failures.until - Date.now()) / 1000)}s` } as const;
+    }
+
+    if (!staff.pin) {
+      const invalid = checkPin(pin);
+      if (invalid) return { success: false, error: invalid } as const;
+      this.setOnDuty(staff);
+      const saved = await this.storage.save<Staff>("staff", { ...staff, pin: await hashPin(pin) });
+      if (!saved.success) {
+        this.setOnDuty(null);
+        return { success: false, error: saved.error ?? "Failed to save PIN" } as const;
+      }
+      this.setOnDuty(saved.data!);
+      return { success: true, data: saved.data! } as const;
+    }
+
+    if (!(await verifyPin(staff.pin, pin))) {
+      const count = (failures?.count ?? 0) + 1;
+      const lockedOut = count >= MAX_PIN_FAILURES;
+      this.pinFailures.set(staffId, { count: lockedOut ? 0 : count, until: lockedOut ? Date.now() + PIN_LOCKOUT_MS : 0 });
+      return { success: false, error: "Wrong PIN" } as const;
+    }
+    this.pinFailures.delete(staffId);
+    this.setOnDuty(staff);
+    return { success: true, data: staff } as const;
+  }
+
+  /** Changes a staff member's PIN; the current one must be given. */
+  async changePin(staffId: UUID, current: string, next: string) {
+    const invalid = checkPin(next);
+    if (invalid) return { success: false, error: invalid } as const;
+    const res = await this.storage.findById<Staff>("staff", staffId);
+    if (!res.success || !res.data) return { success: false, error: "Staff not found" } as const;
+    if (res.data.pin && !(await verifyPin(res.data.pin, current))) return { success: false, error: "Wrong PIN" } as const;
+    const saved = await this.storage.save<Staff>("staff", { ...res.data, pin: await hashPin(next) });
+    if (!saved.success) return { success: false, error: saved.error ?? "Failed to save PIN" } as const;
+    if (this.onDuty?.id === staffId) this.setOnDuty(saved.data!);
+    return { success: true } as const;
+  }
+
+  signOut() {
+    this.setOnDuty(null);
+  }
+
+  /**
+   * Whoever is on duty may do `permission` by their role. With no staff set
+   * up at all the owner runs the shop alone and may do everything.
+   */
+  async canCurrent(permission: string) {
+    if (this.onDuty) return (rolePermissions[this.onDuty.role] ?? []).includes(permission);
+    const count = await this.storage.count("staff");
+    return count.success && count.data === 0;
+  }
+
+  async addStaff(input: Omit<Staff, "id" | "created_at" | "pin"> & { id?: UUID; pin?: string }) {
+    if (input.pin !== undefined) {
+      const invalid = checkPin(input.pin);
+      if (invalid) return { success: false, error: invalid } as const;
+    }
     const staff: Staff = {
       id: input.id ?? uuid(),
       name: input.name,
       email: input.email,
       role: input.role,
       created_at: nowISO(),
+      pin: input.pin === undefined ? null : await hashPin(input.pin),
     };
     const parse = staffSchema.safeParse(staff);
     if (!parse.success) return { success: false, error: parse.error.message } as const;
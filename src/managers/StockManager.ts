@@ -1,23 +1,39 @@
-import { StorageService } from "@/storage/StorageService";
+import { StorageService, type StorageTransaction } from "@/storage/StorageService";
 import { type StockMovement, type UUID, type StockMovementType } from "@/types/business";
 
 function nowISO() { return new Date().toISOString(); }
 function uuid(): UUID { return (globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2)) as UUID; }
 
+type MovementInput = Omit<StockMovement, "id" | "date"> & { date?: string };
+
+function buildMovement(input: MovementInput): StockMovement {
+  return {
+    id: uuid(),
+    date: input.date ?? nowISO(),
+    notes: input.notes ?? null,
+    supplier_id: input.supplier_id ?? null,
+    sale_id: input.sale_id ?? null,
+    product_id: input.product_id,
+    quantity: input.quantity,
+    type: input.type as StockMovementType,
+  };
+}
+
 export class StockManager {
   constructor(private storage: StorageService) {}
 
-  async logMovement(input: Omit<StockMovement, "id" | "date"> & { date?: string }) {
-    const movement: StockMovement = {
-      id: uuid(),
-      date: input.date ?? nowISO(),
-      notes: input.notes ?? null,
-      supplier_id: input.supplier_id ?? null,
-      product_id: input.product_id,
-      quantity: input.quantity,
-      type: input.type as StockMovementType,
-    };
-    return this.storage.save<StockMovement>("stock_movements", movement);
+  async logMovement(input: MovementInput) {
+    return this.storage.save<StockMovement>("stock_movements", buildMovement(input));
+  }
+
+  // Same as logMovement, but written inside a caller-owned transaction so the
+  // movement commits (or rolls back) together with the stock change it records.
+  async writeMovement(tx: StorageTransaction, input: MovementInput) {
+    return tx.put<StockMovement>("stock_movements", buildMovement(input));
+  }
+
+  async bySale(sale_id: UUID) {
+    return this.storage.findByIndex<StockMovement>("stock_movements", "sale_id", sale_id);
   }
 
   async byProduct(product_id: UUID) {
@@ -29,10 +45,12 @@ export class StockManager {
   }
 
   async listSuppliers() {
-    const res = await this.storage.getAll<StockMovement>("stock_movements");
-    if (!res.success || !res.data) return { success: true, data: [] as UUID[] } as const;
-    const set = new Set<UUID>();
-    res.data.forEach(m => { if (m.supplier_id) set.add(m.supplier_id); });
-    return { success: true, data: Array.from(set) } as const;
+    // One movement per distinct supplier rather than the whole history
+    const suppliers: UUID[] = [];
+    await this.storage.each<StockMovement>("stock_movements", (m) => { if (m.supplier_id) suppliers.push(m.supplier_id); }, {
+      index: "supplier_id",
+      direction: "nextunique",
+    });
+    return { success: true, data: suppliers } as const;
   }
 }
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createShopStorage, type ShopStorage } from "@/contexts/storage";
+import { backoffDelay, type SyncRemote } from "@/managers/SyncManager";
+import type { RemoteChange } from "@/integrations/supabase/mirror";
+import type { OutboxEntry, Product } from "@/types/business";
+
+const USER = "7d3b2a9e-1c4f-4e8a-9b6d-5f0e2c1a8b34";
+
+// Records what would have been sent; `fail` makes pushes to a table throw
+class FakeRemote implements SyncRemote {
+  applied: RemoteChange[] = [];
+  user: string | null = USER;
+  fail = new Set<string>();
+  onApply?: (change: RemoteChange) => Promise<void>;
+
+  async userId() { return this.user; }
+
+  async apply(change: RemoteChange) {
+    await this.onApply?.(change);
+    if (this.fail.has(change.table)) throw new Error(`${change.table} is down`);
+    this.applied.push(change);
+  }
+
+  tables() { return this.applied.map(c => c.table); }
+}
+
+let remote: FakeRemote;
+let shop: ShopStorage;
+
+beforeEach(() => {
+  remote = new FakeRemote();
+  shop = createShopStorage(`sync-test-${Math.random()}`, remote, "memory");
+});
+
+afterEach(async () => {
+  shop.storage.changes.close();
+  await shop.adapter.close();
+});
+
+const outbox = async () => (await shop.storage.getAll<OutboxEntry>("outbox")).data ?? [];
+
+async function sellAndRefund() {
+  const added = await shop.products.addProduct({ name: "Tea", category: null, barcode: null, low_stock_threshold: 1, current_stock: 5, selling_price: 100, cost_price: 60 });
+  if (!added.success) throw new Error(added.error);
+  const sale = await shop.sales.recordSale({ items: [{ product: added.data!, quantity: 2 }], payment_method: "cash" });
+  if (!sale.success) throw new Error(sale.error);
+  const refund = await shop.sales.refundSale(sale.data.id, [{ product_id: added.data!.id, quantity: 1 }]);
+  if (!refund.success) throw new Error(refund.error);
+  return { product: added.data!, sale: sale.data, refund: refund.data! };
+}
+
+describe("flush", () => {
+  it("pushes parents first and empties the outbox", async () => {
+    const { sale, refund } = await sellAndRefund();
+
+    expect(await shop.sync.flush(true)).toEqual({ success: true, data: 5 });
+    expect(remote.tables()).toEqual(["products", "sales", "sale_items", "receipts", "refunds", "receipts", "stock_movements", "stock_movements"]);
+    expect(await outbox()).toEqual([]);
+
+    const line = remote.applied.find(c => c.table === "sale_items")!.upsert![0];
+    expect(line).toMatchObject({ sale_id: sale.id, user_id: USER, quantity: 2, profit: 80 });
+    const creditNote = remote.applied.filter(c => c.table === "receipts")[1].upsert![0];
+    expect(creditNote).toMatchObject({ id: refund.receipt.id, kind: "credit_note", sale_id: sale.id, refund_id: refund.id });
+  });
+
+  it("keeps everything queued while signed out", async () => {
+    await sellAndRefund();
+    remote.user = null;
+
+    expect(await shop.sync.flush(true)).toEqual({ success: true, data: 0 });
+    expect(remote.applied).toEqual([]);
+    expect(await outbox()).toHaveLength(5);
+    expect((await shop.sync.status()).data).toMatchObject({ pending: 5, signed_in: false, error: "Sign in to sync" });
+  });
+
+  it("backs off a failed push and retries it once due", async () => {
+    const { sale } = await sellAndRefund();
+    remote.fail.add("sales");
+
+    const before = Date.now();
+    expect(await shop.sync.flush(true)).toEqual({ success: true, data: 4 });
+    const [failed] = await outbox();
+    expect(failed).toMatchObject({ store: "sales", record_id: sale.id, attempts: 1, last_error: "sales is down" });
+    const wait = new Date(failed.next_attempt_at).getTime() - before;
+    expect(wait).toBeGreaterThanOrEqual(2_500);
+    expect(wait).toBeLessThanOrEqual(5_000 + (Date.now() - before));
+    expect((await shop.sync.status()).data?.error).toBe("sales is down");
+
+    remote.fail.clear();
+    expect(await shop.sync.flush()).toEqual({ success: true, data: 0 }); // not due yet
+    expect(await shop.sync.flush(true)).toEqual({ success: true, data: 1 });
+    expect(await outbox()).toEqual([]);
+  });
+});
+
+describe("settle", () => {
+  it("leaves the entry of a record written again mid-push", async () => {
+    const added = await shop.products.addProduct({ name: "Tea", category: null, barcode: null, low_stock_threshold: 1, selling_price: 100 });
+    if (!added.success) throw new Error(added.error);
+    remote.onApply = async () => {
+      remote.onApply = undefined;
+      const current = (await shop.storage.findById<Product>("products", added.data!.id)).data!;
+      await shop.storage.save("products", { ...current, selling_price: 120 });
+    };
+
+    await shop.sync.flush(true);
+    expect(remote.applied[0].upsert![0]).toMatchObject({ selling_price: 100 });
+    const [queued] = await outbox();
+    expect(queued).toMatchObject({ record_id: added.data!.id, attempts: 0 });
+
+    await shop.sync.flush(true);
+    expect(remote.applied[1].upsert![0]).toMatchObject({ selling_price: 120 });
+    expect(await outbox()).toEqual([]);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles from 5s up to 30 minutes, jittered down by at most half", () => {
+    for (const [attempts, full] of [[1, 5_000], [2, 10_000], [4, 40_000], [20, 30 * 60 * 1000]]) {
+      const delay = backoffDelay(attempts);
+      expect(delay).toBeGreaterThanOrEqual(full / 2);
+      expect(delay).toBeLessThanOrEqual(full);
+    }
+  });
+});
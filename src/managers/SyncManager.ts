@@ -0,0 +1,218 @@
+import { StorageService } from "@/storage/StorageService";
+import { keyRange } from "@/storage/keys";
+import { SYNCED_STORES, outboxEntry } from "@/storage/outbox";
+import { MIRROR_VERSION, remoteChanges, type RemoteChange } from "@/integrations/supabase/mirror";
+import type { OutboxEntry, Product, StoreName } from "@/types/business";
+
+// Where the outbox is pushed to. `supabaseRemote()` is the real one; anything
+// speaking the same calls (a local PostgREST, a stub) can stand in for it.
+export interface SyncRemote {
+  userId(): Promise<string | null>; // rows are written as this user; null until someone signs in
+  apply(change: RemoteChange): Promise<void>;
+  onUserChange?(listener: () => void): () => void;
+}
+
+export interface SyncStatus {
+  pending: number; // writes not yet pushed
+  syncing: boolean;
+  signed_in: boolean | null; // null until the first push attempt
+  error: string | null; // why the last push attempt failed
+}
+
+const SYNC_LOCK = "sync";
+const BATCH_SIZE = 50;
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 30 * 60 * 1000;
+const DEBOUNCE_MS = 1_000;
+const MIRROR_VERSION_KEY = "shop_sync_mirror_version";
+
+// Upserts go parents first and deletes children first, so foreign keys hold
+const PUSH_ORDER: StoreName[] = ["business_settings", "staff", "products", "shifts", "sales", "refunds", "stock_movements"];
+
+/** Wait before the next try after `attempts` failures: doubling from 5s to 30min, with jitter. */
+export function backoffDelay(attempts: number) {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0));
+  return Math.round(delay * (0.5 + Math.random() / 2));
+}
+
+const pushRank = (entry: OutboxEntry) => {
+  const rank = PUSH_ORDER.indexOf(entry.store);
+  return entry.operation === "put" ? rank : PUSH_ORDER.length * 2 - rank;
+};
+
+const isOnline = () => typeof navigator === "undefined" || navigator.onLine !== false;
+
+// Drains the outbox StorageService fills, pushing each queued record's
+// current state to the remote. Failed pushes stay queued and are retried
+// with backoff; coming back online retries everything straight away.
+export class SyncManager {
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private syncing = false;
+  private signedIn: boolean | null = null;
+  private error: string | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+
+  constructor(private storage: StorageService, private remote: SyncRemote) {
+    // Local writes, pushes and other tabs all change the pending count
+    storage.changes.subscribe((event) => {
+      if (!event.changes.some(c => c.store === "outbox")) return;
+      void this.notify();
+      if (event.local && !this.syncing) this.schedule(DEBOUNCE_MS);
+    });
+  }
+
+  /** Called with the new status whenever the queue or a push changes. */
+  onStatusChange(listener: (status: SyncStatus) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private async notify() {
+    const res = await this.status();
+    if (res.success) this.listeners.forEach(listener => listener(res.data));
+  }
+
+  async status() {
+    const pending = await this.storage.count("outbox");
+    if (!pending.success) return { success: false, error: pending.error ?? "Failed to count pending changes" } as const;
+    const status: SyncStatus = { pending: pending.data ?? 0, syncing: this.syncing, signed_in: this.signedIn, error: this.error };
+    return { success: true, data: status } as const;
+  }
+
+  /** Pushes now and whenever something is queued, a retry is due, the user signs in or the device comes online. Returns a stop function. */
+  start() {
+    this.started = true;
+    const onOnline = () => { void this.flush(true); };
+    window.addEventListener("online", onOnline);
+    const unsubscribe = this.remote.onUserChange?.(() => { void this.flush(true); });
+    void this.requeueIfStale().then(() => this.flush());
+    return () => {
+      this.started = false;
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = null;
+      window.removeEventListener("online", onOnline);
+      unsubscribe?.();
+    };
+  }
+
+  // Queues every synced record when this database last pushed under an older
+  // mapping (or never has: records written before the outbox existed)
+  private async requeueIfStale() {
+    const key = `${MIRROR_VERSION_KEY}_${this.storage.adapter.name}`;
+    if (Number(localStorage.getItem(key)) >= MIRROR_VERSION) return;
+    const res = await this.requeueAll();
+    if (res.success) localStorage.setItem(key, String(MIRROR_VERSION));
+  }
+
+  /** Queues every record of every synced store to be pushed again. Returns how many were queued. */
+  async requeueAll() {
+    return this.storage.locked(SYNC_LOCK, async () => {
+      const queued: OutboxEntry[] = [];
+      for (const store of SYNCED_STORES) {
+        const scan = await this.storage.each<{ id: string }>(store, (record) => { queued.push(outboxEntry(store, record.id, "put")); });
+        if (!scan.success) return { success: false, error: scan.error ?? `Failed to read ${store}` } as const;
+      }
+      return this.storage.transaction(["outbox"], async (tx) => {
+        for (const entry of queued) await tx.put("outbox", entry);
+        return queued.length;
+      });
+    });
+  }
+
+  private schedule(delay: number) {
+    if (!this.started) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => { this.timer = null; void this.flush(); }, Math.min(delay, MAX_DELAY_MS));
+  }
+
+  // Sets the timer for the earliest retry still queued
+  private async scheduleNext() {
+    if (!this.signedIn || !isOnline()) return; // signing in or coming online starts the next round
+    const next = await this.storage.page<OutboxEntry>("outbox", { index: "next_attempt_at", limit: 1 });
+    const entry = next.data?.items[0];
+    if (entry) this.schedule(Math.max(0, new Date(entry.next_attempt_at).getTime() - Date.now()));
+  }
+
+  /**
+   * Pushes the queued writes that are due (all of them with `all`), a batch
+   * at a time. Returns how many went through; the rest stay queued with
+   * their next try pushed back.
+   */
+  async flush(all = false) {
+    if (this.syncing) return { success: true, data: 0 } as const;
+    if (!isOnline()) return { success: false, error: "Offline" } as const;
+    this.syncing = true;
+    void this.notify();
+    try {
+      const pushed = await this.storage.locked(SYNC_LOCK, async () => {
+        const userId = await this.remote.userId();
+        this.signedIn = !!userId;
+        if (!userId) {
+          this.error = "Sign in to sync";
+          return 0;
+        }
+        const due = await this.storage.findByIndex<OutboxEntry>(
+          "outbox",
+          "next_attempt_at",
+          all ? keyRange.lowerBound("") : keyRange.upperBound(new Date().toISOString()),
+        );
+        if (!due.success) throw new Error(due.error ?? "Failed to read the outbox");
+
+        const batch = (due.data ?? []).sort((a, b) => pushRank(a) - pushRank(b)).slice(0, BATCH_SIZE);
+        let count = 0;
+        let failure: string | null = null;
+        for (const entry of batch) {
+          try {
+            await this.push(entry, userId);
+            await this.settle(entry, null);
+            count++;
+          } catch (e: unknown) {
+            failure = (e as Error).message ?? "Push failed";
+            await this.settle(entry, failure);
+          }
+        }
+        this.error = failure;
+        return count;
+      });
+      return { success: true, data: pushed } as const;
+    } catch (e: unknown) {
+      this.error = (e as Error).message ?? "Sync failed";
+      return { success: false, error: this.error } as const;
+    } finally {
+      this.syncing = false;
+      void this.notify();
+      await this.scheduleNext();
+    }
+  }
+
+  // Sends the record as it is now, so several writes queued as one go in one push
+  private async push(entry: OutboxEntry, userId: string) {
+    const current = await this.storage.findById(entry.store, entry.record_id);
+    if (!current.success) throw new Error(current.error ?? "Failed to read the record");
+    const changes = await remoteChanges(entry.store, entry.record_id, current.data, {
+      userId,
+      costOf: async (productId) => (await this.storage.findById<Product>("products", productId)).data?.cost_price,
+    });
+    for (const change of changes) await this.remote.apply(change);
+  }
+
+  // Clears the entry, or backs it off after a failure. Skipped if the record
+  // was written again meanwhile: that newer entry still has to go.
+  private async settle(entry: OutboxEntry, error: string | null) {
+    await this.storage.transaction(["outbox"], async (tx) => {
+      const queued = await tx.get<OutboxEntry>("outbox", entry.id);
+      if (queued?.rev !== entry.rev) return;
+      if (!error) {
+        await tx.delete("outbox", entry.id);
+        return;
+      }
+      await tx.put<OutboxEntry>("outbox", {
+        ...queued,
+        attempts: queued.attempts + 1,
+        next_attempt_at: new Date(Date.now() + backoffDelay(queued.attempts + 1)).toISOString(),
+        last_error: error,
+      });
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSalesManager, useSettingsManager } from "@/hooks/useStorage";
+import { useStorageChanges } from "@/hooks/useStorageChanges";
+import { formatKsh } from "@/utils/currency";
+import { type Sale } from "@/types/business";
+
+// After this long without a new sale the display goes back to the welcome screen
+const IDLE_AFTER_MS = 2 * 60 * 1000;
+
+// Customer-facing screen for a second monitor or tablet, opened from the
+// Sales tab. It shows the sale just rung up, and follows new sales and voids
+// from the till's window through the storage change feed.
+const CustomerDisplay = () => {
+  const salesManager = useSalesManager();
+  const settingsManager = useSettingsManager();
+  const [sale, setSale] = useState<Sale | null>(null);
+  const [shopName, setShopName] = useState("");
+  const [now, setNow] = useState(Date.now());
+
+  const loadSale = useCallback(async () => {
+    const res = await salesManager.latestSale();
+    if (res.success) setSale(res.data ?? null);
+  }, [salesManager]);
+
+  const loadSettings = useCallback(async () => {
+    const res = await settingsManager.current();
+    if (res.success) setShopName(res.data?.business_name ?? "");
+  }, [settingsManager]);
+
+  useEffect(() => { void loadSale(); void loadSettings(); }, [loadSale, loadSettings]);
+  useStorageChanges(["sales"], () => { void loadSale(); });
+  useStorageChanges(["business_settings"], () => { void loadSettings(); });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 15_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const showing = sale && now - new Date(sale.voided_at ?? sale.date).getTime() < IDLE_AFTER_MS ? sale : null;
+  const tendered = showing?.tenders?.reduce((sum, t) => sum + (t.tendered ?? t.amount), 0) ?? showing?.total_amount ?? 0;
+
+  if (!showing) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center space-y-2">
+          <h1 className="text-4xl font-bold">Welcome{shopName ? ` to ${shopName}` : ""}</h1>
+          <p className="text-lg text-muted-foreground">Your purchase will appear here</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-8 flex flex-col gap-6">
+      <div className="flex items-baseline justify-between">
+        <h1 className="text-2xl font-semibold">{shopName}</h1>
+        {showing.receipt && <span className="font-receipt text-muted-foreground">Receipt {showing.receipt.number}</span>}
+      </div>
+
+      {showing.status === "voided" ? (
+        <p className="text-3xl font-bold text-destructive">This sale was cancelled</p>
+      ) : (
+        <>
+          <div className="flex-1 space-y-2">
+            {showing.items.map((item, i) => (
+              <div key={i} className="flex justify-between text-xl">
+                <span>{item.quantity} × {item.product_name}</span>
+                <span className="font-receipt">{formatKsh(item.subtotal)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="border-t pt-4 space-y-2">
+            <div className="flex justify-between text-4xl font-bold">
+              <span>Total</span>
+              <span className="font-receipt">{formatKsh(showing.total_amount)}</span>
+            </div>
+            <div className="flex justify-between text-xl text-muted-foreground">
+              <span>Paid</span>
+              <span className="font-receipt">{formatKsh(tendered)}</span>
+            </div>
+            {!!showing.change_due && (
+              <div className="flex justify-between text-2xl font-semibold">
+                <span>Change</span>
+                <span className="font-receipt">{formatKsh(showing.change_due)}</span>
+              </div>
+            )}
+          </div>
+          <p className="text-center text-lg text-muted-foreground">Thank you for shopping with us</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CustomerDisplay;
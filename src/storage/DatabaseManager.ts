@@ -1,4 +1,5 @@
 import type { StoreName } from "@/types/business";
+import { applyMigrations, LATEST_VERSION, MIGRATIONS, type Migration } from "./migrations";
 
 export interface QuotaEstimate {
   usage?: number;
@@ -9,11 +10,15 @@ export interface QuotaEstimate {
 export class DatabaseManager {
   private dbName: string;
   private version: number;
+  private migrations: Migration[];
   private db: IDBDatabase | null = null;
 
-  constructor(clientId: string, version = 1) {
+  // `version`/`migrations` are only overridden by the migration harness, to
+  // build a database as an older release would have
+  constructor(clientId: string, version = LATEST_VERSION, migrations: Migration[] = MIGRATIONS) {
     this.dbName = `shop_db_${clientId}`;
     this.version = version;
+    this.migrations = migrations;
   }
 
   get name() {
@@ -27,42 +32,7 @@ export class DatabaseManager {
       const request = indexedDB.open(this.dbName, this.version);
 
       request.onupgradeneeded = (event) => {
-        const db = request.result;
-        const oldVersion = (event.oldVersion ?? 0);
-        // Create stores if not exist; handle future migrations by version
-        if (oldVersion < 1) {
-          // products
-          const products = db.createObjectStore("products", { keyPath: "id" });
-          products.createIndex("sku", "sku", { unique: true });
-          products.createIndex("barcode", "barcode", { unique: false });
-          products.createIndex("name", "name", { unique: false });
-          products.createIndex("category", "category", { unique: false });
-          products.createIndex("created_at", "created_at", { unique: false });
-          products.createIndex("updated_at", "updated_at", { unique: false });
-
-          // sales
-          const sales = db.createObjectStore("sales", { keyPath: "id" });
-          sales.createIndex("date", "date", { unique: false });
-          sales.createIndex("payment_method", "payment_method", { unique: false });
-          sales.createIndex("staff_id", "staff_id", { unique: false });
-
-          // stock_movements
-          const stock = db.createObjectStore("stock_movements", { keyPath: "id" });
-          stock.createIndex("date", "date", { unique: false });
-          stock.createIndex("product_id", "product_id", { unique: false });
-          stock.createIndex("type", "type", { unique: false });
-          stock.createIndex("supplier_id", "supplier_id", { unique: false });
-
-          // staff
-          const staff = db.createObjectStore("staff", { keyPath: "id" });
-          staff.createIndex("email", "email", { unique: true });
-          staff.createIndex("role", "role", { unique: false });
-
-          // business_settings
-          const settings = db.createObjectStore("business_settings", { keyPath: "id" });
-          settings.createIndex("business_name", "business_name", { unique: false });
-          settings.createIndex("updated_at", "updated_at", { unique: false });
-        }
+        applyMigrations(request.result, request.transaction!, event.oldVersion ?? 0, this.version, this.migrations);
       };
 
       request.onsuccess = () => {
@@ -119,6 +89,48 @@ export class DatabaseManager {
     });
   }
 
+  // Runs `fn` inside a single transaction spanning `stores`. Resolves once the
+  // transaction commits; if `fn` throws or any request fails the whole
+  // transaction is aborted and nothing is written.
+  async withTransaction<T>(stores: StoreName[], mode: IDBTransactionMode, fn: (tx: IDBTransaction) => Promise<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      let tx: IDBTransaction;
+      try {
+        tx = db.transaction(stores, mode);
+      } catch (e: unknown) {
+        const err = e as { name?: string };
+        if (err?.name === "QuotaExceededError" || String(err?.name).includes("Quota")) {
+          reject(new Error("Storage quota exceeded while starting transaction."));
+        } else {
+          reject(e);
+        }
+        return;
+      }
+
+      let result: T;
+      let failure: unknown = null;
+
+      tx.oncomplete = () => resolve(result);
+      tx.onabort = () => {
+        const err = (failure ?? tx.error) as Error | null;
+        if (err && (err.name === "QuotaExceededError" || err.name.includes("Quota"))) {
+          reject(new Error("Storage quota exceeded while performing operation."));
+        } else {
+          reject(err ?? new Error("Transaction aborted"));
+        }
+      };
+
+      fn(tx).then(
+        (value) => { result = value; },
+        (e: unknown) => {
+          failure = e;
+          try { tx.abort(); } catch { /* already finished */ }
+        },
+      );
+    });
+  }
+
   async estimateQuota(): Promise<QuotaEstimate> {
     if (navigator.storage && navigator.storage.estimate) {
       try {
@@ -1,18 +1,28 @@
-import { type StoreName } from "@/types/business";
+import { type StoreName, type UUID } from "@/types/business";
 import { z, type ZodTypeAny } from "zod";
-import { DatabaseManager } from "@/storage/DatabaseManager";
+import type { AdapterTransaction, ScanEntry, StorageAdapter } from "@/storage/adapters";
+import { keyRange, type Key, type KeyRange } from "@/storage/keys";
+import { ChangeFeed, type StorageChange } from "@/storage/changes";
+import { ConflictError, withLock } from "@/storage/locks";
+import { isSealed, type RecordCipher } from "@/storage/encryption";
+import { auditEntry, isAudited } from "@/storage/audit";
+import { isSynced, outboxEntry } from "@/storage/outbox";
 import {
   productSchema,
   saleSchema,
   stockMovementSchema,
   staffSchema,
   settingsSchema,
+  counterSchema,
+  refundSchema,
+  shiftSchema,
 } from "@/types/business";
 
 export interface ServiceResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  conflict?: boolean; // the write was refused because the record changed underneath it
 }
 
 const schemaMap: Partial<Record<StoreName, ZodTypeAny>> = {
@@ -21,115 +31,443 @@ const schemaMap: Partial<Record<StoreName, ZodTypeAny>> = {
   stock_movements: stockMovementSchema,
   staff: staffSchema,
   business_settings: settingsSchema,
+  counters: counterSchema,
+  refunds: refundSchema,
+  shifts: shiftSchema,
 };
 
+// Where a scan stopped: the index key (or primary key for store scans) and
+// primary key of the last item handed out. Pass back as `after` to resume.
+export interface PageCursor {
+  key: Key;
+  primaryKey: Key;
+}
+
+export interface ScanOptions<T> {
+  index?: string; // scan in this index's key order; primary key order otherwise
+  range?: Key | KeyRange;
+  direction?: IDBCursorDirection;
+  after?: PageCursor | null; // resume strictly after this position (not with *unique directions)
+  filter?: (item: T) => boolean;
+  offset?: number; // matches to skip (after filtering)
+}
+
+export interface PageOptions<T> extends ScanOptions<T> {
+  limit: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  next: PageCursor | null; // null once the scan is exhausted
+}
+
+/** Checks a record against its store's zod schema; stores without one accept anything. */
+export function validate<T>(store: StoreName, payload: unknown): ServiceResponse<T> {
+  const schema = schemaMap[store];
+  if (!schema) return { success: true, data: payload as T };
+  const parsed = (schema as ZodTypeAny).safeParse(payload as unknown);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.errors.map(e => e.message).join(", ") };
+  }
+  return { success: true, data: parsed.data };
+}
+
+// Every store is keyed by `id`
+function recordId(item: unknown) {
+  return String((item as { id?: unknown })?.id);
+}
+
+/**
+ * Handle passed to `StorageService.transaction` callbacks. Every call goes
+ * through the same adapter transaction, so only await these methods inside
+ * the callback — awaiting anything else lets IndexedDB auto-commit early.
+ * Throwing from the callback aborts every write made through the handle.
+ */
+export class StorageTransaction {
+  // `changes` collects what was written, for StorageService to publish once
+  // the transaction commits; `actor` is who audit entries are attributed to
+  constructor(
+    private tx: AdapterTransaction,
+    readonly changes: StorageChange[] = [],
+    private cipher: RecordCipher | null = null,
+    private actor: UUID | null = null,
+  ) {}
+
+  private async write(store: StoreName, item: unknown) {
+    const stored = this.cipher?.applies(store) ? await this.tx.waitFor(this.cipher.seal(store, item)) : item;
+    await this.tx.put(store, stored);
+  }
+
+  // Records the change from `before` to `after` in the audit log (needs
+  // `audit_log` in the transaction, which StorageService adds)
+  private async audit(store: StoreName, id: string, before: unknown, after: unknown) {
+    const entry = auditEntry(store, id, before, after, this.actor);
+    if (!entry) return;
+    await this.write("audit_log", entry);
+    this.changes.push({ store: "audit_log", ids: [entry.id], operation: "put" });
+  }
+
+  // Queues the write for the Supabase mirror (needs `outbox` in the
+  // transaction, which StorageService adds)
+  private async enqueue(store: StoreName, id: string, operation: "put" | "delete") {
+    const entry = outboxEntry(store, id, operation);
+    await this.tx.put("outbox", entry);
+    this.changes.push({ store: "outbox", ids: [entry.id], operation: "put" });
+  }
+
+  async get<T>(store: StoreName, id: string): Promise<T | undefined> {
+    const raw = await this.tx.get(store, id);
+    if (!this.cipher || !isSealed(raw)) return raw as T | undefined;
+    return this.tx.waitFor(this.cipher.open<T>(raw));
+  }
+
+  async getByIndex<T>(store: StoreName, index: string, key: Key | KeyRange): Promise<T[]> {
+    const raw = await this.tx.getAll(store, { index, range: key });
+    const cipher = this.cipher;
+    if (!cipher || !raw.some(isSealed)) return raw as T[];
+    return this.tx.waitFor(Promise.all(raw.map(r => cipher.open<T>(r))));
+  }
+
+  async getAll<T>(store: StoreName): Promise<T[]> {
+    const raw = await this.tx.getAll(store);
+    const cipher = this.cipher;
+    if (!cipher || !raw.some(isSealed)) return raw as T[];
+    return this.tx.waitFor(Promise.all(raw.map(r => cipher.open<T>(r))));
+  }
+
+  async put<T>(store: StoreName, item: T): Promise<T> {
+    const validation = validate<T>(store, item);
+    if (!validation.success) throw new Error(validation.error);
+    const id = recordId(item);
+    const before = isAudited(store) ? await this.get(store, id) : undefined;
+    await this.write(store, item);
+    if (isAudited(store)) await this.audit(store, id, before, item);
+    if (isSynced(store)) await this.enqueue(store, id, "put");
+    this.changes.push({ store, ids: [id], operation: "put" });
+    return item;
+  }
+
+  async delete(store: StoreName, id: string): Promise<void> {
+    const before = isAudited(store) ? await this.get(store, id) : undefined;
+    await this.tx.delete(store, id);
+    if (isAudited(store)) await this.audit(store, id, before, undefined);
+    if (isSynced(store)) await this.enqueue(store, id, "delete");
+    this.changes.push({ store, ids: [id], operation: "delete" });
+  }
+}
+
 export class StorageService {
-  constructor(private db: DatabaseManager) {}
+  // Committed writes, for this tab and every other one on the same database
+  readonly changes: ChangeFeed;
+
+  // Seals/opens records of the encrypted stores; null when encryption is off
+  private cipher: RecordCipher | null = null;
+
+  // Staff member writes are attributed to in the audit log
+  private actor: UUID | null = null;
+
+  constructor(readonly adapter: StorageAdapter) {
+    this.changes = new ChangeFeed(adapter.name);
+  }
+
+  /** Installed by EncryptionManager when encryption is turned on, unlocked or locked. */
+  setCipher(cipher: RecordCipher | null) {
+    this.cipher = cipher;
+  }
+
+  /** Set by StaffManager when someone signs in to the till (null once they sign out). */
+  setActor(staffId: UUID | null) {
+    this.actor = staffId;
+  }
+
+  private async seal(store: StoreName, item: unknown) {
+    return this.cipher ? this.cipher.seal(store, item) : item;
+  }
+
+  private async open<T>(raw: unknown): Promise<T> {
+    return this.cipher && isSealed(raw) ? this.cipher.open<T>(raw) : (raw as T);
+  }
 
   private validate<T>(store: StoreName, payload: unknown): ServiceResponse<T> {
-    const schema = schemaMap[store];
-    if (!schema) return { success: true, data: payload };
-    const parsed = (schema as ZodTypeAny).safeParse(payload as unknown);
-    if (!parsed.success) {
-      return { success: false, error: parsed.error.errors.map(e => e.message).join(", ") };
-    }
-    return { success: true, data: parsed.data };
+    return validate<T>(store, payload);
   }
 
-  async save<T>(store: StoreName, item: unknown): Promise<ServiceResponse<T>> {
-    const validation = this.validate<T>(store, item);
-    if (!validation.success) return validation;
+  /**
+   * Runs `fn` in one readwrite transaction across `stores`. Either every
+   * write made through the handle commits, or — if `fn` throws or a request
+   * fails — none of them do.
+   */
+  async transaction<T>(stores: StoreName[], fn: (tx: StorageTransaction) => Promise<T>): Promise<ServiceResponse<T>> {
+    return this.write(stores, fn, "Transaction failed");
+  }
 
+  // Every write goes through here, so each one is audited, queued for sync and published
+  private async write<T>(stores: StoreName[], fn: (tx: StorageTransaction) => Promise<T>, failure: string): Promise<ServiceResponse<T>> {
+    const scope = [...stores];
+    if (stores.some(isAudited) && !scope.includes("audit_log")) scope.push("audit_log");
+    if (stores.some(isSynced) && !scope.includes("outbox")) scope.push("outbox");
     try {
-      await this.db.withStore<IDBValidKey>(store, "readwrite", (os) => os.put(item));
-      return { success: true, data: item as T };
+      const changes: StorageChange[] = [];
+      const data = await this.adapter.transaction<T>(scope, "readwrite", (tx) => fn(new StorageTransaction(tx, changes, this.cipher, this.actor)));
+      this.changes.publish(changes);
+      return { success: true, data };
     } catch (e: unknown) {
       const err = e as Error;
-      return { success: false, error: err?.message ?? "Failed to save" };
+      return { success: false, error: err?.message ?? failure, conflict: e instanceof ConflictError };
     }
   }
 
+  /** Runs `fn` holding lock `name` for this database, across all tabs. */
+  locked<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    return withLock(`${this.adapter.name}:${name}`, fn);
+  }
+
+  async save<T>(store: StoreName, item: unknown): Promise<ServiceResponse<T>> {
+    const validation = this.validate<T>(store, item);
+    if (!validation.success) return validation;
+    return this.write<T>([store], (tx) => tx.put(store, item as T), "Failed to save");
+  }
+
   async saveMany<T>(store: StoreName, items: unknown[]): Promise<ServiceResponse<T[]>> {
     // Validate all first for atomicity-like behavior
     for (const item of items) {
       const v = this.validate<T>(store, item);
       if (!v.success) return { success: false, error: v.error };
     }
+    return this.write<T[]>([store], (tx) => Promise.all(items.map(item => tx.put(store, item as T))), "Failed to save batch");
+  }
+
+  async findById<T>(store: StoreName, id: string): Promise<ServiceResponse<T | undefined>> {
     try {
-      const db = await this.db.open();
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction(store, "readwrite");
-        const os = tx.objectStore(store);
-        for (const item of items) os.put(item);
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error ?? new Error("Batch save failed"));
+      const raw = await this.adapter.transaction([store], "readonly", (tx) => tx.get(store, id));
+      return { success: true, data: await this.open<T | undefined>(raw) };
+    } catch (e: unknown) {
+      const err = e as Error;
+      return { success: false, error: err?.message ?? "Failed to find" };
+    }
+  }
+
+  async findByIndex<T>(store: StoreName, index: string, key: Key | KeyRange): Promise<ServiceResponse<T[]>> {
+    try {
+      const raw = await this.adapter.transaction([store], "readonly", (tx) => tx.getAll(store, { index, range: key }));
+      return { success: true, data: await Promise.all(raw.map(r => this.open<T>(r))) };
+    } catch (e: unknown) {
+      const err = e as Error;
+      return { success: false, error: err?.message ?? "Failed to query index" };
+    }
+  }
+
+  /**
+   * Walks `store` with a cursor, calling `visit` for each matching record
+   * without loading the store into memory. `visit` runs inside the
+   * transaction, so it must be synchronous; return `false` to stop early.
+   * Resolves with the number of records visited.
+   */
+  async each<T>(
+    store: StoreName,
+    visit: (item: T, position: PageCursor) => boolean | void,
+    options: ScanOptions<T> = {},
+  ): Promise<ServiceResponse<number>> {
+    const { index, range, direction = "next", after, filter, offset = 0 } = options;
+    if (after && direction.endsWith("unique")) {
+      return { success: false, error: "Resuming a scan is not supported with unique directions" };
+    }
+
+    try {
+      const visited = await this.adapter.transaction([store], "readonly", async (tx) => {
+        let skipped = 0;
+        let count = 0;
+        await tx.scan(store, { index, range, direction, after }, ({ key, primaryKey, value }) => {
+          const handle = (item: T) => {
+            if (filter && !filter(item)) return;
+            if (skipped < offset) {
+              skipped += 1;
+              return;
+            }
+            count += 1;
+            return visit(item, { key, primaryKey });
+          };
+          return this.cipher && isSealed(value) ? this.cipher.open<T>(value).then(handle) : handle(value as T);
+        });
+        return count;
       });
-      return { success: true, data: items as unknown as T[] };
+      return { success: true, data: visited };
     } catch (e: unknown) {
       const err = e as Error;
-      return { success: false, error: err?.message ?? "Failed to save batch" };
+      return { success: false, error: err?.message ?? "Failed to scan" };
     }
   }
 
-  async findById<T>(store: StoreName, id: string): Promise<ServiceResponse<T | undefined>> {
+  /**
+   * One page of `limit` matches plus a cursor to fetch the next page with
+   * (`after`). Reads one record past the page to know whether more exist.
+   */
+  async page<T>(store: StoreName, options: PageOptions<T>): Promise<ServiceResponse<Page<T>>> {
+    const { limit, ...scan } = options;
+    const items: T[] = [];
+    let last: PageCursor | null = null;
+    let more = false;
+    const res = await this.each<T>(store, (item, position) => {
+      if (items.length === limit) { more = true; return false; }
+      items.push(item);
+      last = position;
+    }, scan);
+    if (!res.success) return { success: false, error: res.error };
+    return { success: true, data: { items, next: more ? last : null } };
+  }
+
+  /**
+   * Async iteration over every match, fetched `batchSize` records at a time so
+   * callers can await between items without holding the whole store.
+   */
+  async *stream<T>(store: StoreName, options: ScanOptions<T> = {}, batchSize = 200): AsyncGenerator<T> {
+    let after = options.after ?? null;
+    let offset = options.offset;
+    for (;;) {
+      const res = await this.page<T>(store, { ...options, after, offset, limit: batchSize });
+      if (!res.success || !res.data) throw new Error(res.error ?? "Failed to stream");
+      yield* res.data.items;
+      if (!res.data.next) return;
+      after = res.data.next;
+      offset = 0;
+    }
+  }
+
+  /**
+   * Rewrites every record of `store` through the current cipher, without
+   * revalidating, so existing data gets sealed (or unsealed) when encryption
+   * is turned on (or off). Each batch is read, sealed and written back in one
+   * transaction, so a write landing between batches is never overwritten by
+   * a stale copy. Resolves with the count.
+   */
+  async reseal(store: StoreName, batchSize = 200): Promise<ServiceResponse<number>> {
+    let after: { key: Key; primaryKey: Key } | null = null;
+    let total = 0;
     try {
-      const data = await this.db.withStore<T | undefined>(store, "readonly", (os) => os.get(id));
-      return { success: true, data };
+      for (;;) {
+        const batch = await this.adapter.transaction([store], "readwrite", async (tx) => {
+          const raw: ScanEntry[] = [];
+          await tx.scan(store, { after }, (entry) => {
+            raw.push(entry);
+            return raw.length < batchSize;
+          });
+          // Records already in the wanted form (from an interrupted run) are left alone
+          const sealing = !!this.cipher?.applies(store);
+          const stale = raw.filter(({ value }) => isSealed(value) !== sealing);
+          const stored = await tx.waitFor(Promise.all(stale.map(async ({ value }) => this.seal(store, await this.open(value)))));
+          for (const item of stored) await tx.put(store, item);
+          return raw;
+        });
+        total += batch.length;
+        if (batch.length < batchSize) break;
+        const last = batch[batch.length - 1];
+        after = { key: last.key, primaryKey: last.primaryKey };
+      }
+      return { success: true, data: total };
     } catch (e: unknown) {
       const err = e as Error;
-      return { success: false, error: err?.message ?? "Failed to find" };
+      return { success: false, error: err?.message ?? "Failed to rewrite records" };
     }
   }
 
-  async findByIndex<T>(store: StoreName, index: string, key: IDBValidKey | IDBKeyRange): Promise<ServiceResponse<T[]>> {
+  /** Index keys in order, each once when `unique` (e.g. the vocabulary of a multiEntry index). */
+  async indexKeys(store: StoreName, index: string, options: { range?: KeyRange; unique?: boolean } = {}): Promise<ServiceResponse<Key[]>> {
     try {
-      const data = await this.db.withStore<T[]>(store, "readonly", (os) => os.index(index).getAll(key));
-      return { success: true, data };
+      const keys = await this.adapter.transaction([store], "readonly", async (tx) => {
+        const out: Key[] = [];
+        await tx.scan(store, { index, range: options.range, direction: options.unique ? "nextunique" : "next", keysOnly: true }, ({ key }) => {
+          out.push(key);
+        });
+        return out;
+      });
+      return { success: true, data: keys };
     } catch (e: unknown) {
       const err = e as Error;
-      return { success: false, error: err?.message ?? "Failed to query index" };
+      return { success: false, error: err?.message ?? "Failed to read index keys" };
     }
   }
 
-  async queryDateRange<T>(store: StoreName, fromISO: string, toISO: string): Promise<ServiceResponse<T[]>> {
-    const range = IDBKeyRange.bound(fromISO, toISO);
-    return this.findByIndex<T>(store, "date", range);
+  /** Primary keys of the records an index maps `key` to, without loading the records. */
+  async primaryKeys(store: StoreName, index: string, key: Key | KeyRange): Promise<ServiceResponse<Key[]>> {
+    try {
+      const data = await this.adapter.transaction([store], "readonly", (tx) => tx.primaryKeys(store, { index, range: key }));
+      return { success: true, data };
+    } catch (e: unknown) {
+      const err = e as Error;
+      return { success: false, error: err?.message ?? "Failed to query index keys" };
+    }
   }
 
-  async getAll<T>(store: StoreName): Promise<ServiceResponse<T[]>> {
+  /** `primaryKeys` for several index keys at once, in one transaction; results line up with `keys`. */
+  async primaryKeysFor(store: StoreName, index: string, keys: Key[]): Promise<ServiceResponse<Key[][]>> {
+    if (!keys.length) return { success: true, data: [] };
     try {
-      const data = await this.db.withStore<T[]>(store, "readonly", (os) => os.getAll());
+      const data = await this.adapter.transaction([store], "readonly", async (tx) => {
+        const found: Key[][] = [];
+        for (const key of keys) found.push(await tx.primaryKeys(store, { index, range: key }));
+        return found;
+      });
       return { success: true, data };
     } catch (e: unknown) {
       const err = e as Error;
-      return { success: false, error: err?.message ?? "Failed to get all" };
+      return { success: false, error: err?.message ?? "Failed to query index keys" };
     }
   }
 
-  async delete(store: StoreName, id: string): Promise<ServiceResponse<true>> {
+  /** Counts records natively, or by scanning when a `filter` is given. */
+  async count<T>(store: StoreName, options: Pick<ScanOptions<T>, "index" | "range" | "filter"> = {}): Promise<ServiceResponse<number>> {
+    if (options.filter) return this.each<T>(store, () => undefined, options);
     try {
-      await this.db.withStore(store, "readwrite", (os) => os.delete(id));
-      return { success: true, data: true };
+      const data = await this.adapter.transaction([store], "readonly", (tx) =>
+        tx.count(store, { index: options.index, range: options.range }));
+      return { success: true, data };
     } catch (e: unknown) {
       const err = e as Error;
-      return { success: false, error: err?.message ?? "Failed to delete" };
+      return { success: false, error: err?.message ?? "Failed to count" };
     }
   }
 
-  async deleteMany(store: StoreName, ids: string[]): Promise<ServiceResponse<true>> {
+  async queryDateRange<T>(store: StoreName, fromISO: string, toISO: string): Promise<ServiceResponse<T[]>> {
+    const range = keyRange.bound(fromISO, toISO);
+    return this.findByIndex<T>(store, "date", range);
+  }
+
+  /** Every record of each of `stores`, read in one readonly transaction so they agree with each other; results line up with `stores`. */
+  async snapshot(stores: StoreName[]): Promise<ServiceResponse<unknown[][]>> {
     try {
-      const db = await this.db.open();
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction(store, "readwrite");
-        const os = tx.objectStore(store);
-        for (const id of ids) os.delete(id);
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error ?? new Error("Batch delete failed"));
+      const raw = await this.adapter.transaction(stores, "readonly", async (tx) => {
+        const all: unknown[][] = [];
+        for (const store of stores) all.push(await tx.getAll(store));
+        return all;
       });
-      return { success: true, data: true };
+      return { success: true, data: await Promise.all(raw.map(records => Promise.all(records.map(r => this.open(r))))) };
     } catch (e: unknown) {
       const err = e as Error;
-      return { success: false, error: err?.message ?? "Failed to delete batch" };
+      return { success: false, error: err?.message ?? "Failed to read a snapshot" };
     }
   }
+
+  async getAll<T>(store: StoreName): Promise<ServiceResponse<T[]>> {
+    try {
+      const raw = await this.adapter.transaction([store], "readonly", (tx) => tx.getAll(store));
+      return { success: true, data: await Promise.all(raw.map(r => this.open<T>(r))) };
+    } catch (e: unknown) {
+      const err = e as Error;
+      return { success: false, error: err?.message ?? "Failed to get all" };
+    }
+  }
+
+  async delete(store: StoreName, id: string): Promise<ServiceResponse<true>> {
+    return this.write<true>([store], async (tx) => {
+      await tx.delete(store, id);
+      return true;
+    }, "Failed to delete");
+  }
+
+  async deleteMany(store: StoreName, ids: string[]): Promise<ServiceResponse<true>> {
+    return this.write<true>([store], async (tx) => {
+      await Promise.all(ids.map(id => tx.delete(store, id)));
+      return true;
+    }, "Failed to delete batch");
+  }
 }
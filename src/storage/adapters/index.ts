@@ -0,0 +1,35 @@
+import { DatabaseManager } from "../DatabaseManager";
+import { IndexedDbAdapter } from "./indexeddb";
+import { MemoryAdapter } from "./memory";
+import { SqliteAdapter, sqliteSupported } from "./sqlite";
+import type { StorageAdapter } from "./types";
+
+export type { AdapterTransaction, QueryOptions, ScanEntry, ScanRequest, ScanVisitor, StorageAdapter, TransactionMode } from "./types";
+export { IndexedDbAdapter, MemoryAdapter, SqliteAdapter, sqliteSupported };
+
+export type AdapterKind = "indexeddb" | "sqlite" | "memory";
+
+const ADAPTER_KEY = "shop_storage_adapter";
+const KINDS: AdapterKind[] = ["indexeddb", "sqlite", "memory"];
+
+// Which backend this device stores the shop in, read once at startup
+export const getStorageAdapterKind = (): AdapterKind => {
+  const saved = typeof localStorage !== "undefined" ? localStorage.getItem(ADAPTER_KEY) : null;
+  return KINDS.includes(saved as AdapterKind) ? (saved as AdapterKind) : "indexeddb";
+};
+
+// Takes effect the next time the app starts; existing data is not copied across
+export const setStorageAdapterKind = (kind: AdapterKind) => {
+  localStorage.setItem(ADAPTER_KEY, kind);
+};
+
+/** The adapter for client `clientId`'s database. SQLite falls back to IndexedDB where OPFS is missing. */
+export function createAdapter(clientId: string, kind: AdapterKind = "indexeddb"): StorageAdapter {
+  const name = `shop_db_${clientId}`;
+  if (kind === "memory") return new MemoryAdapter(name);
+  if (kind === "sqlite") {
+    if (sqliteSupported()) return new SqliteAdapter(name);
+    console.warn("SQLite storage needs the origin private file system; using IndexedDB instead.");
+  }
+  return new IndexedDbAdapter(new DatabaseManager(clientId));
+}
@@ -0,0 +1,148 @@
+import type { StoreName } from "@/types/business";
+import { DatabaseManager } from "../DatabaseManager";
+import { isKeyRange, type Key, type KeyRange } from "../keys";
+import type { AdapterTransaction, QueryOptions, ScanRequest, ScanVisitor, StorageAdapter, TransactionMode } from "./types";
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("IndexedDB operation failed"));
+  });
+}
+
+function toQuery(range?: Key | KeyRange): IDBValidKey | IDBKeyRange | null {
+  if (range === undefined) return null;
+  if (!isKeyRange(range)) return range;
+  const { lower, upper, lowerOpen = false, upperOpen = false } = range;
+  if (lower !== undefined && upper !== undefined) return IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen);
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower, lowerOpen);
+  return IDBKeyRange.upperBound(upper!, upperOpen);
+}
+
+/**
+ * Awaits a non-IndexedDB promise (WebCrypto) from inside a transaction. A
+ * transaction commits as soon as it has no pending requests, so this keeps
+ * one cheap read in flight until `work` settles, and settles from inside that
+ * read's callback, where the transaction is active again.
+ */
+function keepAlive<T>(tx: IDBTransaction, work: Promise<T>): Promise<T> {
+  let outcome: { ok: boolean; value: unknown } | null = null;
+  work.then(value => { outcome = { ok: true, value }; }, (value: unknown) => { outcome = { ok: false, value }; });
+  const store = tx.objectStore(tx.objectStoreNames[0]);
+  return new Promise<T>((resolve, reject) => {
+    const ping = () => {
+      const req = store.get("\uffff");
+      req.onsuccess = () => {
+        if (!outcome) ping();
+        else if (outcome.ok) resolve(outcome.value as T);
+        else reject(outcome.value);
+      };
+      req.onerror = () => reject(req.error ?? new Error("IndexedDB operation failed"));
+    };
+    ping();
+  });
+}
+
+class IndexedDbTransaction implements AdapterTransaction {
+  constructor(private tx: IDBTransaction) {}
+
+  private source(store: StoreName, index?: string) {
+    const os = this.tx.objectStore(store);
+    return index ? os.index(index) : os;
+  }
+
+  get(store: StoreName, id: Key) {
+    return request<unknown>(this.tx.objectStore(store).get(id));
+  }
+
+  getAll(store: StoreName, query: QueryOptions = {}) {
+    return request<unknown[]>(this.source(store, query.index).getAll(toQuery(query.range)));
+  }
+
+  primaryKeys(store: StoreName, query: QueryOptions = {}) {
+    return request<IDBValidKey[]>(this.source(store, query.index).getAllKeys(toQuery(query.range)));
+  }
+
+  count(store: StoreName, query: QueryOptions = {}) {
+    return request<number>(this.source(store, query.index).count(toQuery(query.range) ?? undefined));
+  }
+
+  async put(store: StoreName, record: unknown) {
+    await request(this.tx.objectStore(store).put(record));
+  }
+
+  async delete(store: StoreName, id: Key) {
+    await request(this.tx.objectStore(store).delete(id));
+  }
+
+  scan(store: StoreName, scan: ScanRequest, visit: ScanVisitor) {
+    const { index, range, direction = "next", after, keysOnly } = scan;
+    const forward = direction.startsWith("next");
+    // >0 when position (key, primaryKey) lies ahead of `after` in scan order
+    const ahead = (key: IDBValidKey, primaryKey: IDBValidKey) => {
+      const d = indexedDB.cmp(key, after!.key) || (index ? indexedDB.cmp(primaryKey, after!.primaryKey) : 0);
+      return forward ? d : -d;
+    };
+
+    return new Promise<void>((resolve, reject) => {
+      const source = this.source(store, index);
+      const req = keysOnly ? source.openKeyCursor(toQuery(range), direction) : source.openCursor(toQuery(range), direction);
+      let jumped = !after;
+
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) { resolve(); return; }
+
+        if (after && !jumped) {
+          jumped = true;
+          if (ahead(cursor.key, cursor.primaryKey) < 0) {
+            if (index) cursor.continuePrimaryKey(after.key, after.primaryKey);
+            else cursor.continue(after.key);
+            return;
+          }
+        }
+        if (after && ahead(cursor.key, cursor.primaryKey) <= 0) {
+          cursor.continue();
+          return;
+        }
+
+        const value = keysOnly ? undefined : (cursor as IDBCursorWithValue).value;
+        const next = (result: boolean | void) => {
+          if (result === false) resolve();
+          else cursor.continue();
+        };
+        const result = visit({ key: cursor.key, primaryKey: cursor.primaryKey, value });
+        if (result instanceof Promise) keepAlive(this.tx, result).then(next, reject);
+        else next(result);
+      };
+      req.onerror = () => reject(req.error ?? new Error("Cursor failed"));
+    });
+  }
+
+  waitFor<T>(work: Promise<T>) {
+    return keepAlive(this.tx, work);
+  }
+}
+
+// The browser default: one IndexedDB database per client, schema from the migrations
+export class IndexedDbAdapter implements StorageAdapter {
+  readonly kind = "indexeddb";
+
+  constructor(readonly db: DatabaseManager) {}
+
+  get name() {
+    return this.db.name;
+  }
+
+  transaction<T>(stores: StoreName[], mode: TransactionMode, fn: (tx: AdapterTransaction) => Promise<T>) {
+    return this.db.withTransaction<T>(stores, mode, (tx) => fn(new IndexedDbTransaction(tx)));
+  }
+
+  close() {
+    return this.db.close();
+  }
+
+  destroy() {
+    return this.db.destroy();
+  }
+}
@@ -0,0 +1,181 @@
+import type { StoreName } from "@/types/business";
+import { MIGRATIONS, finalSchema, type Migration, type StoreSpec } from "../migrations";
+import { encodeKey, inRange, indexKeysOf, keyAt, type Key } from "../keys";
+import type { AdapterTransaction, QueryOptions, ScanEntry, ScanRequest, ScanVisitor, StorageAdapter, TransactionMode } from "./types";
+
+interface Row {
+  primaryKey: Key;
+  value: unknown;
+}
+
+// A scan position with its keys pre-encoded for ordering
+interface Position extends ScanEntry {
+  k: string;
+  pk: string;
+}
+
+type Table = Map<string, Row>; // by encoded primary key
+
+const comparePositions = (a: Position, b: Position) => (a.k < b.k ? -1 : a.k > b.k ? 1 : a.pk < b.pk ? -1 : a.pk > b.pk ? 1 : 0);
+
+export function constraintError(store: string, index: string) {
+  const err = new Error(`Another ${store} record already has this ${index}`);
+  err.name = "ConstraintError";
+  return err;
+}
+
+class MemoryTransaction implements AdapterTransaction {
+  // Previous row per written key, to put back if the transaction fails
+  readonly undo: Array<{ table: Table; key: string; row: Row | undefined }> = [];
+
+  constructor(
+    private tables: Map<string, Table>,
+    private schema: Record<string, Required<StoreSpec>>,
+    private stores: StoreName[],
+    private mode: TransactionMode,
+  ) {}
+
+  private table(store: StoreName) {
+    const table = this.tables.get(store);
+    if (!table || !this.stores.includes(store)) throw new Error(`Store ${store} is not part of this transaction`);
+    return table;
+  }
+
+  private writable(store: StoreName) {
+    if (this.mode !== "readwrite") throw new Error("Cannot write in a readonly transaction");
+    return this.table(store);
+  }
+
+  private positions(store: StoreName, { index, range, direction = "next", after }: ScanRequest): Position[] {
+    const table = this.table(store);
+    let out: Position[] = [];
+    if (index) {
+      const spec = this.schema[store].indexes.find(i => i.name === index);
+      if (!spec) throw new Error(`No index ${index} on ${store}`);
+      for (const [pk, row] of table) {
+        for (const key of indexKeysOf(row.value, spec)) {
+          if (range === undefined || inRange(key, range)) out.push({ key, primaryKey: row.primaryKey, k: encodeKey(key), pk });
+        }
+      }
+    } else {
+      for (const [pk, row] of table) {
+        if (range === undefined || inRange(row.primaryKey, range)) out.push({ key: row.primaryKey, primaryKey: row.primaryKey, k: pk, pk });
+      }
+    }
+    out.sort(comparePositions);
+    // Unique directions visit each key once, with its lowest primary key, in either order
+    if (direction.endsWith("unique")) out = out.filter((p, i) => i === 0 || p.k !== out[i - 1].k);
+    if (direction.startsWith("prev")) out.reverse();
+
+    if (after) {
+      const mark = { k: encodeKey(after.key), pk: index ? encodeKey(after.primaryKey) : "" };
+      const sign = direction.startsWith("prev") ? -1 : 1;
+      out = out.filter(p => sign * (p.k < mark.k ? -1 : p.k > mark.k ? 1 : index ? (p.pk < mark.pk ? -1 : p.pk > mark.pk ? 1 : 0) : 0) > 0);
+    }
+    return out;
+  }
+
+  async get(store: StoreName, id: Key) {
+    const row = this.table(store).get(encodeKey(id));
+    return row ? structuredClone(row.value) : undefined;
+  }
+
+  async getAll(store: StoreName, query: QueryOptions = {}) {
+    const table = this.table(store);
+    return this.positions(store, query).map(p => structuredClone(table.get(p.pk)!.value));
+  }
+
+  async primaryKeys(store: StoreName, query: QueryOptions = {}) {
+    return this.positions(store, query).map(p => p.primaryKey);
+  }
+
+  async count(store: StoreName, query: QueryOptions = {}) {
+    return this.positions(store, query).length;
+  }
+
+  async put(store: StoreName, record: unknown) {
+    const table = this.writable(store);
+    const spec = this.schema[store];
+    const primaryKey = keyAt(record, spec.keyPath);
+    if (primaryKey === undefined) throw new Error(`Record has no valid ${spec.keyPath} for ${store}`);
+    const pk = encodeKey(primaryKey);
+
+    for (const index of spec.indexes.filter(i => i.unique)) {
+      const keys = new Set(indexKeysOf(record, index).map(encodeKey));
+      if (keys.size === 0) continue;
+      for (const [otherPk, row] of table) {
+        if (otherPk !== pk && indexKeysOf(row.value, index).some(k => keys.has(encodeKey(k)))) throw constraintError(store, index.name);
+      }
+    }
+
+    this.undo.push({ table, key: pk, row: table.get(pk) });
+    table.set(pk, { primaryKey, value: structuredClone(record) });
+  }
+
+  async delete(store: StoreName, id: Key) {
+    const table = this.writable(store);
+    const pk = encodeKey(id);
+    if (!table.has(pk)) return;
+    this.undo.push({ table, key: pk, row: table.get(pk) });
+    table.delete(pk);
+  }
+
+  async scan(store: StoreName, scan: ScanRequest, visit: ScanVisitor) {
+    const table = this.table(store);
+    for (const p of this.positions(store, scan)) {
+      // Skip records deleted by the visitor earlier in the scan
+      const row = table.get(p.pk);
+      if (!row) continue;
+      const value = scan.keysOnly ? undefined : structuredClone(row.value);
+      if ((await visit({ key: p.key, primaryKey: p.primaryKey, value })) === false) return;
+    }
+  }
+
+  waitFor<T>(work: Promise<T>) {
+    return work;
+  }
+}
+
+/**
+ * Keeps every store in memory, for Node scripts and tests. Records are
+ * copied in and out like IndexedDB's structured clones, transactions run one
+ * at a time and a failed one is rolled back. Indexes are worked out from the
+ * records on each query, which is fine at script sizes.
+ */
+export class MemoryAdapter implements StorageAdapter {
+  readonly kind = "memory";
+
+  private schema: Record<string, Required<StoreSpec>>;
+  private tables = new Map<string, Table>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly name: string, migrations: Migration[] = MIGRATIONS) {
+    this.schema = finalSchema(migrations);
+    for (const store of Object.keys(this.schema)) this.tables.set(store, new Map());
+  }
+
+  transaction<T>(stores: StoreName[], mode: TransactionMode, fn: (tx: AdapterTransaction) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      const tx = new MemoryTransaction(this.tables, this.schema, stores, mode);
+      try {
+        return await fn(tx);
+      } catch (e) {
+        for (const { table, key, row } of tx.undo.reverse()) {
+          if (row) table.set(key, row);
+          else table.delete(key);
+        }
+        throw e;
+      }
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async close() {
+    // Nothing to release; the data lives as long as the adapter
+  }
+
+  async destroy() {
+    for (const table of this.tables.values()) table.clear();
+  }
+}
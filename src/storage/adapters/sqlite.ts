@@ -0,0 +1,357 @@
+import type { StoreName } from "@/types/business";
+import { MIGRATIONS, finalSchema, type Migration, type StoreSpec } from "../migrations";
+import { decodeKey, encodeKey, indexKeysOf, isKeyRange, keyAt, type Key, type KeyRange } from "../keys";
+import { constraintError } from "./memory";
+import type { AdapterTransaction, QueryOptions, ScanRequest, ScanVisitor, StorageAdapter, TransactionMode } from "./types";
+import type { SqlValue, WorkerCommand, WorkerRequest, WorkerResponse } from "./sqlite.worker";
+
+// Records live in one table keyed by (store, encoded primary key) as JSON,
+// and every index entry in another keyed by (store, index, encoded key,
+// primary key), so SQLite's own ordering gives IndexedDB's key order. (Its
+// text ordering is by UTF-8 bytes, which differs from IndexedDB only for
+// characters beyond U+FFFF against U+E000-U+FFFF.)
+const SCHEMA = [
+  "CREATE TABLE IF NOT EXISTS meta (name TEXT PRIMARY KEY, value TEXT NOT NULL) WITHOUT ROWID",
+  "CREATE TABLE IF NOT EXISTS records (store TEXT NOT NULL, pk TEXT NOT NULL, value TEXT NOT NULL, PRIMARY KEY (store, pk)) WITHOUT ROWID",
+  "CREATE TABLE IF NOT EXISTS entries (store TEXT NOT NULL, idx TEXT NOT NULL, key TEXT NOT NULL, pk TEXT NOT NULL, PRIMARY KEY (store, idx, key, pk)) WITHOUT ROWID",
+  "CREATE INDEX IF NOT EXISTS entries_by_record ON entries (store, pk)",
+];
+
+const SCAN_BATCH = 100;
+
+type Rows = Record<string, SqlValue>[];
+
+/** Runs SQL against one database file. */
+export interface SqlDriver {
+  query(sql: string, bind?: SqlValue[]): Promise<Rows>;
+  close(): Promise<void>;
+  destroy(): Promise<void>;
+}
+
+/** Whether this browser can run the SQLite adapter (OPFS with sync access handles in workers). */
+export function sqliteSupported() {
+  return typeof Worker !== "undefined"
+    && typeof navigator !== "undefined" && typeof navigator.storage?.getDirectory === "function"
+    && typeof FileSystemFileHandle !== "undefined" && "createSyncAccessHandle" in FileSystemFileHandle.prototype;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+const fromHex = (hex: string) => new Uint8Array(hex.match(/../g)?.map(h => parseInt(h, 16)) ?? []);
+
+// JSON with the binary and Date values records can hold (sealed records, the keyring) tagged
+function serialize(value: unknown) {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, v: unknown) {
+    const raw = this[key];
+    if (raw instanceof Date) return { $type: "date", value: raw.getTime() };
+    if (raw instanceof ArrayBuffer) return { $type: "buffer", value: toHex(new Uint8Array(raw)) };
+    if (raw instanceof Uint8Array) return { $type: "bytes", value: toHex(raw) };
+    return v;
+  });
+}
+
+function deserialize(text: SqlValue) {
+  return JSON.parse(String(text), (_key, v: unknown) => {
+    const tagged = v as { $type?: string; value?: unknown } | null;
+    if (tagged && typeof tagged === "object" && typeof tagged.$type === "string" && "value" in tagged) {
+      if (tagged.$type === "date") return new Date(tagged.value as number);
+      if (tagged.$type === "buffer") return fromHex(tagged.value as string).buffer;
+      if (tagged.$type === "bytes") return fromHex(tagged.value as string);
+    }
+    return v;
+  });
+}
+
+// WHERE fragment limiting `column` (holding encoded keys) to `range`
+function rangeClause(column: string, range?: Key | KeyRange): [string[], SqlValue[]] {
+  if (range === undefined) return [[], []];
+  if (!isKeyRange(range)) return [[`${column} = ?`], [encodeKey(range)]];
+  const where: string[] = [];
+  const bind: SqlValue[] = [];
+  if (range.lower !== undefined) { where.push(`${column} ${range.lowerOpen ? ">" : ">="} ?`); bind.push(encodeKey(range.lower)); }
+  if (range.upper !== undefined) { where.push(`${column} ${range.upperOpen ? "<" : "<="} ?`); bind.push(encodeKey(range.upper)); }
+  return [where, bind];
+}
+
+class SqliteTransaction implements AdapterTransaction {
+  constructor(
+    private sql: SqlDriver,
+    private schema: Record<string, Required<StoreSpec>>,
+    private mode: TransactionMode,
+  ) {}
+
+  private spec(store: StoreName) {
+    const spec = this.schema[store];
+    if (!spec) throw new Error(`No store named ${store}`);
+    return spec;
+  }
+
+  private writable(store: StoreName) {
+    if (this.mode !== "readwrite") throw new Error("Cannot write in a readonly transaction");
+    return this.spec(store);
+  }
+
+  async get(store: StoreName, id: Key) {
+    const rows = await this.sql.query("SELECT value FROM records WHERE store = ? AND pk = ?", [store, encodeKey(id)]);
+    return rows.length ? deserialize(rows[0].value) : undefined;
+  }
+
+  async getAll(store: StoreName, query: QueryOptions = {}) {
+    const out: unknown[] = [];
+    await this.scan(store, query, ({ value }) => { out.push(value); });
+    return out;
+  }
+
+  async primaryKeys(store: StoreName, query: QueryOptions = {}) {
+    const out: Key[] = [];
+    await this.scan(store, { ...query, keysOnly: true }, ({ primaryKey }) => { out.push(primaryKey); });
+    return out;
+  }
+
+  async count(store: StoreName, query: QueryOptions = {}) {
+    const [where, bind] = query.index ? rangeClause("key", query.range) : rangeClause("pk", query.range);
+    const rows = query.index
+      ? await this.sql.query(`SELECT COUNT(*) AS n FROM entries WHERE ${["store = ?", "idx = ?", ...where].join(" AND ")}`, [store, query.index, ...bind])
+      : await this.sql.query(`SELECT COUNT(*) AS n FROM records WHERE ${["store = ?", ...where].join(" AND ")}`, [store, ...bind]);
+    return Number(rows[0].n);
+  }
+
+  async put(store: StoreName, record: unknown) {
+    const spec = this.writable(store);
+    const primaryKey = keyAt(record, spec.keyPath);
+    if (primaryKey === undefined) throw new Error(`Record has no valid ${spec.keyPath} for ${store}`);
+    const pk = encodeKey(primaryKey);
+
+    const entries = spec.indexes.flatMap(index => indexKeysOf(record, index).map(key => ({ index, key: encodeKey(key) })));
+    for (const { index, key } of entries.filter(e => e.index.unique)) {
+      const taken = await this.sql.query(
+        "SELECT 1 FROM entries WHERE store = ? AND idx = ? AND key = ? AND pk <> ? LIMIT 1", [store, index.name, key, pk]);
+      if (taken.length) throw constraintError(store, index.name);
+    }
+
+    await this.sql.query("DELETE FROM entries WHERE store = ? AND pk = ?", [store, pk]);
+    await this.sql.query("INSERT OR REPLACE INTO records (store, pk, value) VALUES (?, ?, ?)", [store, pk, serialize(record)]);
+    if (entries.length) {
+      await this.sql.query(
+        `INSERT INTO entries (store, idx, key, pk) VALUES ${entries.map(() => "(?, ?, ?, ?)").join(", ")}`,
+        entries.flatMap(({ index, key }) => [store, index.name, key, pk]),
+      );
+    }
+  }
+
+  async delete(store: StoreName, id: Key) {
+    this.writable(store);
+    const pk = encodeKey(id);
+    await this.sql.query("DELETE FROM entries WHERE store = ? AND pk = ?", [store, pk]);
+    await this.sql.query("DELETE FROM records WHERE store = ? AND pk = ?", [store, pk]);
+  }
+
+  /** Reads the scan a batch at a time, resuming each batch after the last row of the one before. */
+  async scan(store: StoreName, scan: ScanRequest, visit: ScanVisitor) {
+    this.spec(store);
+    const { index, range, direction = "next", keysOnly } = scan;
+    const forward = direction.startsWith("next");
+    const unique = Boolean(index) && direction.endsWith("unique");
+    const [gt, order] = forward ? [">", "ASC"] : ["<", "DESC"];
+    let mark = scan.after ? { key: encodeKey(scan.after.key), pk: encodeKey(scan.after.primaryKey) } : null;
+
+    for (;;) {
+      let sql: string;
+      let bind: SqlValue[];
+      if (!index) {
+        const [where, whereBind] = rangeClause("pk", range);
+        if (mark) where.push(`pk ${gt} ?`);
+        sql = `SELECT pk AS key, pk${keysOnly ? "" : ", value"} FROM records WHERE ${["store = ?", ...where].join(" AND ")} ORDER BY pk ${order} LIMIT ?`;
+        bind = [store, ...whereBind, ...(mark ? [mark.key] : []), SCAN_BATCH];
+      } else if (unique) {
+        // Each key once, with its lowest primary key, as IndexedDB's unique cursors do
+        const [where, whereBind] = rangeClause("key", range);
+        if (mark) where.push(`key ${gt} ?`);
+        sql = `SELECT key, MIN(pk) AS pk FROM entries WHERE ${["store = ?", "idx = ?", ...where].join(" AND ")} GROUP BY key ORDER BY key ${order} LIMIT ?`;
+        bind = [store, index, ...whereBind, ...(mark ? [mark.key] : []), SCAN_BATCH];
+      } else {
+        const [where, whereBind] = rangeClause("e.key", range);
+        if (mark) where.push(`(e.key ${gt} ? OR (e.key = ? AND e.pk ${gt} ?))`);
+        sql = `SELECT e.key AS key, e.pk AS pk${keysOnly ? "" : ", r.value AS value"} FROM entries e`
+          + (keysOnly ? "" : " JOIN records r ON r.store = e.store AND r.pk = e.pk")
+          + ` WHERE ${["e.store = ?", "e.idx = ?", ...where].join(" AND ")} ORDER BY e.key ${order}, e.pk ${order} LIMIT ?`;
+        bind = [store, index, ...whereBind, ...(mark ? [mark.key, mark.key, mark.pk] : []), SCAN_BATCH];
+      }
+
+      const rows = await this.sql.query(sql, bind);
+      for (const row of rows) {
+        const key = String(row.key);
+        const pk = String(row.pk);
+        mark = { key, pk };
+        let value: unknown;
+        if (!keysOnly) {
+          value = "value" in row ? deserialize(row.value) : await this.get(store, decodeKey(pk));
+        }
+        if ((await visit({ key: decodeKey(key), primaryKey: decodeKey(pk), value })) === false) return;
+      }
+      if (rows.length < SCAN_BATCH) return;
+    }
+  }
+
+  waitFor<T>(work: Promise<T>) {
+    return work;
+  }
+}
+
+// Talks to sqlite.worker.ts; the worker is started on first use and again after close()
+class WorkerDriver implements SqlDriver {
+  private worker: Worker | null = null;
+  private opened: Promise<Rows> | null = null;
+  private pending = new Map<number, { resolve: (rows: Rows) => void; reject: (e: Error) => void }>();
+  private nextId = 1;
+
+  constructor(private filename: string) {}
+
+  private send(worker: Worker, message: WorkerCommand) {
+    const id = this.nextId++;
+    return new Promise<Rows>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ ...message, id } satisfies WorkerRequest);
+    });
+  }
+
+  private connect() {
+    if (this.worker && this.opened) return this.opened.then(() => this.worker!);
+    const worker = new Worker(new URL("./sqlite.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const reply = event.data;
+      const waiting = this.pending.get(reply.id);
+      if (!waiting) return;
+      this.pending.delete(reply.id);
+      if ("error" in reply) waiting.reject(new Error(reply.error));
+      else waiting.resolve(reply.rows);
+    };
+    worker.onerror = (event) => {
+      for (const waiting of this.pending.values()) waiting.reject(new Error(event.message || "SQLite worker failed"));
+      this.pending.clear();
+    };
+    this.worker = worker;
+    this.opened = this.send(worker, { op: "open", filename: this.filename });
+    this.opened.catch(() => this.terminate());
+    return this.opened.then(() => worker);
+  }
+
+  private terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.opened = null;
+  }
+
+  async query(sql: string, bind: SqlValue[] = []) {
+    const worker = await this.connect();
+    return this.send(worker, { op: "query", sql, bind });
+  }
+
+  async close() {
+    if (!this.worker) return;
+    await this.send(this.worker, { op: "close" }).catch(() => undefined);
+    this.terminate();
+  }
+
+  async destroy() {
+    const worker = await this.connect();
+    await this.send(worker, { op: "destroy" });
+    this.terminate();
+  }
+}
+
+/**
+ * Stores the shop in a SQLite database file in the origin private file
+ * system, run by `sqlite.worker.ts`. Transactions are SQLite transactions,
+ * one at a time per tab; the file can only be open in one tab at a time.
+ * Schema versions follow MIGRATIONS: record transforms are replayed and the
+ * index entries rebuilt whenever the version moves on.
+ */
+export class SqliteAdapter implements StorageAdapter {
+  readonly kind = "sqlite";
+
+  private schema: Record<string, Required<StoreSpec>>;
+  private ready: Promise<void> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // `driver` is only passed in to run against another SQLite build (Node scripts)
+  constructor(
+    readonly name: string,
+    private driver: SqlDriver = new WorkerDriver(name),
+    private migrations: Migration[] = MIGRATIONS,
+  ) {
+    this.schema = finalSchema(migrations);
+  }
+
+  private open() {
+    this.ready ??= this.migrate().catch((e: unknown) => {
+      this.ready = null;
+      throw e;
+    });
+    return this.ready;
+  }
+
+  private async migrate() {
+    for (const sql of SCHEMA) await this.driver.query(sql);
+    const rows = await this.driver.query("SELECT value FROM meta WHERE name = 'version'");
+    const version = rows.length ? Number(rows[0].value) : 0;
+    const latest = Math.max(0, ...this.migrations.map(m => m.version));
+    if (version === latest) return;
+    if (version > latest) throw new Error("This database was written by a newer version of the app");
+
+    const tx = new SqliteTransaction(this.driver, this.schema, "readwrite");
+    await this.driver.query("BEGIN IMMEDIATE");
+    try {
+      const pending = this.migrations.filter(m => m.version > version).sort((a, b) => a.version - b.version);
+      for (const m of pending) {
+        for (const store of m.deleteStores ?? []) await this.driver.query("DELETE FROM records WHERE store = ?", [store]);
+        for (const [store, fn] of Object.entries(m.transform ?? {})) {
+          const records = await this.driver.query("SELECT pk, value FROM records WHERE store = ?", [store]);
+          for (const row of records) {
+            const next = fn(deserialize(row.value) as Record<string, unknown>);
+            if (next === null) await this.driver.query("DELETE FROM records WHERE store = ? AND pk = ?", [store, row.pk]);
+            else if (next !== undefined) await this.driver.query("UPDATE records SET value = ? WHERE store = ? AND pk = ?", [serialize(next), store, row.pk]);
+          }
+        }
+      }
+      // Index definitions may have changed: rebuild every entry from the records
+      await this.driver.query("DELETE FROM entries");
+      for (const store of Object.keys(this.schema) as StoreName[]) {
+        for (const row of await this.driver.query("SELECT value FROM records WHERE store = ?", [store])) {
+          await tx.put(store, deserialize(row.value));
+        }
+      }
+      await this.driver.query("INSERT OR REPLACE INTO meta (name, value) VALUES ('version', ?)", [String(latest)]);
+      await this.driver.query("COMMIT");
+    } catch (e) {
+      await this.driver.query("ROLLBACK").catch(() => undefined);
+      throw e;
+    }
+  }
+
+  transaction<T>(stores: StoreName[], mode: TransactionMode, fn: (tx: AdapterTransaction) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      await this.open();
+      await this.driver.query(mode === "readwrite" ? "BEGIN IMMEDIATE" : "BEGIN");
+      try {
+        const result = await fn(new SqliteTransaction(this.driver, this.schema, mode));
+        await this.driver.query("COMMIT");
+        return result;
+      } catch (e) {
+        await this.driver.query("ROLLBACK").catch(() => undefined);
+        throw e;
+      }
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async close() {
+    this.ready = null;
+    await this.driver.close();
+  }
+
+  async destroy() {
+    this.ready = null;
+    await this.driver.destroy();
+  }
+}
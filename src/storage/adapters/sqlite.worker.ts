@@ -0,0 +1,64 @@
+// Runs SQLite (WASM) over the OPFS "SAH pool" VFS, which needs synchronous
+// file handles and so only works in a worker. The page sends one statement
+// per message and gets the result rows back; SqliteAdapter does the rest.
+
+import sqlite3InitModule from "@sqlite.org/sqlite-wasm";
+
+type Sqlite3 = Awaited<ReturnType<typeof sqlite3InitModule>>;
+type PoolUtil = Awaited<ReturnType<Sqlite3["installOpfsSAHPoolVfs"]>>;
+type Database = InstanceType<PoolUtil["OpfsSAHPoolDb"]>;
+
+export type SqlValue = string | number | null;
+
+export type WorkerCommand =
+  | { op: "open"; filename: string }
+  | { op: "query"; sql: string; bind: SqlValue[] }
+  | { op: "close" }
+  | { op: "destroy" };
+
+export type WorkerRequest = WorkerCommand & { id: number };
+
+export type WorkerResponse =
+  | { id: number; rows: Record<string, SqlValue>[] }
+  | { id: number; error: string };
+
+let pool: PoolUtil | null = null;
+let db: Database | null = null;
+let filename = "";
+
+async function open(name: string) {
+  if (!pool) {
+    const sqlite3 = await sqlite3InitModule();
+    try {
+      pool = await sqlite3.installOpfsSAHPoolVfs({ name: "shop-sahpool" });
+    } catch {
+      throw new Error("The shop is already open in another tab. The SQLite store can only be used by one tab at a time.");
+    }
+  }
+  db?.close();
+  db = new pool.OpfsSAHPoolDb(`/${name}.sqlite3`);
+  filename = name;
+}
+
+function query(sql: string, bind: SqlValue[]) {
+  if (!db) throw new Error("Database is not open");
+  return db.exec({ sql, bind: bind.length ? bind : undefined, rowMode: "object", returnValue: "resultRows" }) as Record<string, SqlValue>[];
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  try {
+    let rows: Record<string, SqlValue>[] = [];
+    if (message.op === "open") await open(message.filename);
+    else if (message.op === "query") rows = query(message.sql, message.bind);
+    else {
+      db?.close();
+      db = null;
+      if (message.op === "destroy" && pool && filename) pool.unlink(`/${filename}.sqlite3`);
+    }
+    self.postMessage({ id: message.id, rows } satisfies WorkerResponse);
+  } catch (e: unknown) {
+    const err = e as Error;
+    self.postMessage({ id: message.id, error: err?.message ?? String(e) } satisfies WorkerResponse);
+  }
+};
@@ -0,0 +1,57 @@
+// The contract between StorageService and a storage backend. StorageService
+// keeps everything backend-independent (validation, encryption, change
+// events, paging); an adapter only stores records by primary key, keeps the
+// indexes the migrations declare, and runs work in atomic transactions.
+
+import type { StoreName } from "@/types/business";
+import type { Key, KeyRange } from "../keys";
+
+export type TransactionMode = "readonly" | "readwrite";
+
+export interface QueryOptions {
+  index?: string; // query this index; the store's primary key otherwise
+  range?: Key | KeyRange;
+}
+
+export interface ScanRequest extends QueryOptions {
+  direction?: IDBCursorDirection;
+  // Resume strictly after this position in scan order (not with *unique directions)
+  after?: { key: Key; primaryKey: Key } | null;
+  keysOnly?: boolean; // entries come without `value`
+}
+
+export interface ScanEntry {
+  key: Key; // index key, or the primary key for store scans
+  primaryKey: Key;
+  value?: unknown;
+}
+
+// Return false to stop. A returned promise is awaited before moving on,
+// with the transaction kept open meanwhile.
+export type ScanVisitor = (entry: ScanEntry) => boolean | void | Promise<boolean | void>;
+
+export interface AdapterTransaction {
+  get(store: StoreName, id: Key): Promise<unknown>;
+  getAll(store: StoreName, query?: QueryOptions): Promise<unknown[]>;
+  primaryKeys(store: StoreName, query?: QueryOptions): Promise<Key[]>;
+  count(store: StoreName, query?: QueryOptions): Promise<number>;
+  put(store: StoreName, record: unknown): Promise<void>;
+  delete(store: StoreName, id: Key): Promise<void>;
+  scan(store: StoreName, request: ScanRequest, visit: ScanVisitor): Promise<void>;
+  // Awaits other async work (e.g. WebCrypto) without the transaction
+  // finishing underneath it
+  waitFor<T>(work: Promise<T>): Promise<T>;
+}
+
+export interface StorageAdapter {
+  readonly kind: string;
+  // Identifies the database; used to scope locks and change broadcasts
+  readonly name: string;
+  /**
+   * Runs `fn` in one transaction over `stores`. Resolves once its writes are
+   * committed; if `fn` throws or a write fails none of them are kept.
+   */
+  transaction<T>(stores: StoreName[], mode: TransactionMode, fn: (tx: AdapterTransaction) => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+  destroy(): Promise<void>;
+}
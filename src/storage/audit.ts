@@ -0,0 +1,51 @@
+// Field-level audit trail. StorageService diffs each record it writes against
+// the stored copy and puts an AuditEntry in `audit_log` in the same
+// transaction, attributed to the staff member set with `setActor`.
+
+import type { AuditEntry, FieldChange, StoreName, UUID } from "@/types/business";
+
+// Derived or internal stores whose writes aren't anyone's decision
+const UNAUDITED_STORES: StoreName[] = ["counters", "product_search", "keyring", "audit_log", "outbox"];
+
+export const isAudited = (store: StoreName) => !UNAUDITED_STORES.includes(store);
+
+// Recorded as changed, but with the values masked (a staff PIN's hash)
+const SECRET_FIELDS = ["pin"];
+const MASK = "••••";
+
+function uuid(): UUID { return (globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2)) as UUID; }
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Top-level fields that differ between two versions of a record (either may be missing). */
+export function diffRecords(before: unknown, after: unknown): FieldChange[] {
+  const from = (before ?? {}) as Record<string, unknown>;
+  const to = (after ?? {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort();
+  return fields
+    .filter(field => !same(from[field], to[field]))
+    .map(field => {
+      const shown = (value: unknown) => (SECRET_FIELDS.includes(field) && value != null ? MASK : value);
+      return {
+        field,
+        ...(field in from ? { before: shown(from[field]) } : {}),
+        ...(field in to ? { after: shown(to[field]) } : {}),
+      };
+    });
+}
+
+/** The entry for writing `after` over `before` (undefined = absent), or null when nothing changed. */
+export function auditEntry(store: StoreName, recordId: string, before: unknown, after: unknown, actorId: UUID | null): AuditEntry | null {
+  if (before === undefined && after === undefined) return null;
+  const changes = diffRecords(before, after);
+  if (!changes.length) return null;
+  return {
+    id: uuid(),
+    at: new Date().toISOString(),
+    actor_id: actorId,
+    store,
+    record_id: recordId,
+    operation: before === undefined ? "create" : after === undefined ? "delete" : "update",
+    changes,
+  };
+}
@@ -0,0 +1,81 @@
+// Change notifications for committed writes. Every StorageService write
+// publishes what it touched; listeners in this tab are called directly and
+// other tabs/windows on the same database hear it over a BroadcastChannel.
+
+import type { StoreName } from "@/types/business";
+
+export type ChangeOperation = "put" | "delete";
+
+export interface StorageChange {
+  store: StoreName;
+  ids: string[];
+  operation: ChangeOperation;
+}
+
+export interface ChangeEvent {
+  changes: StorageChange[];
+  source: string; // id of the feed (tab) that made the write
+  local: boolean; // true when the write happened in this tab
+}
+
+export type ChangeListener = (event: ChangeEvent) => void;
+
+// Folds per-record changes into one entry per store and operation
+export function mergeChanges(changes: StorageChange[]): StorageChange[] {
+  const merged = new Map<string, StorageChange>();
+  for (const c of changes) {
+    const key = `${c.store}:${c.operation}`;
+    const entry = merged.get(key);
+    if (entry) entry.ids.push(...c.ids);
+    else merged.set(key, { ...c, ids: [...c.ids] });
+  }
+  return Array.from(merged.values());
+}
+
+export class ChangeFeed {
+  readonly source = globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2);
+  private listeners = new Set<ChangeListener>();
+  private channel: BroadcastChannel | null = null;
+
+  constructor(databaseName: string) {
+    // Absent in some embedded webviews; the feed then only reaches this tab
+    if (typeof BroadcastChannel === "undefined") return;
+    this.channel = new BroadcastChannel(`changes:${databaseName}`);
+    this.channel.onmessage = (e: MessageEvent<Omit<ChangeEvent, "local">>) => {
+      if (!e.data || e.data.source === this.source || !Array.isArray(e.data.changes)) return;
+      this.emit({ ...e.data, local: false });
+    };
+  }
+
+  publish(changes: StorageChange[]) {
+    const merged = mergeChanges(changes.filter(c => c.ids.length));
+    if (!merged.length) return;
+    this.emit({ changes: merged, source: this.source, local: true });
+    try {
+      this.channel?.postMessage({ changes: merged, source: this.source });
+    } catch (e) {
+      console.warn("Failed to broadcast storage change", e);
+    }
+  }
+
+  subscribe(listener: ChangeListener) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  close() {
+    this.channel?.close();
+    this.channel = null;
+    this.listeners.clear();
+  }
+
+  private emit(event: ChangeEvent) {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(event);
+      } catch (e) {
+        console.error("Storage change listener failed", e);
+      }
+    }
+  }
+}
@@ -0,0 +1,15 @@
+const CLIENT_ID_KEY = "shop_client_id";
+
+// Names the IndexedDB database for this device (in a real app this would be user-specific)
+export const getClientId = () => {
+  let clientId = localStorage.getItem(CLIENT_ID_KEY);
+  if (!clientId) {
+    clientId = Math.random().toString(36).substring(2, 15);
+    localStorage.setItem(CLIENT_ID_KEY, clientId);
+  }
+  return clientId;
+};
+
+export const setClientId = (clientId: string) => {
+  localStorage.setItem(CLIENT_ID_KEY, clientId);
+};
@@ -0,0 +1,166 @@
+// Encryption at rest for sensitive stores (AES-GCM via WebCrypto).
+//
+// Records are encrypted whole with a random data key. Copies of the fields
+// the store's indexes read stay in clear next to the ciphertext, so index
+// lookups, ranges and unique constraints keep working; everything else (cost
+// prices, sale lines, customers, ...) is only readable once unlocked. The data
+// key itself is stored wrapped by a key derived from the passphrase with
+// PBKDF2, so changing the passphrase only rewraps that one key.
+
+import type { StoreName } from "@/types/business";
+import { indexedKeyPaths } from "./migrations";
+
+export const ENCRYPTED_STORES: StoreName[] = ["products", "sales", "refunds", "staff", "shifts", "audit_log"];
+
+export const KEYRING_ID = "keyring";
+const PBKDF2_ITERATIONS = 310_000;
+
+// Stored in the `keyring` store, in clear
+export interface Keyring {
+  id: typeof KEYRING_ID;
+  salt: Uint8Array;
+  iterations: number;
+  iv: Uint8Array;
+  wrapped_key: ArrayBuffer;
+  created_at: string;
+  updated_at: string;
+  sealed_at?: string; // set once every existing record has been sealed
+}
+
+// What a sealed record looks like on disk, besides its indexed fields
+interface SealedFields {
+  _sealed: { iv: Uint8Array; data: ArrayBuffer };
+}
+
+export class LockedError extends Error {
+  constructor() {
+    super("The shop database is locked. Enter the passphrase to unlock it.");
+    this.name = "LockedError";
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function randomBytes(length: number) {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+async function deriveWrappingKey(passphrase: string, salt: Uint8Array, iterations: number) {
+  const material = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"],
+  );
+}
+
+async function wrap(dataKey: CryptoKey, passphrase: string, created_at: string): Promise<Keyring> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const wrapping = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const wrapped_key = await crypto.subtle.wrapKey("raw", dataKey, wrapping, { name: "AES-GCM", iv });
+  return { id: KEYRING_ID, salt, iterations: PBKDF2_ITERATIONS, iv, wrapped_key, created_at, updated_at: new Date().toISOString() };
+}
+
+/** A fresh data key and the keyring that protects it with `passphrase`. */
+export async function createKeyring(passphrase: string) {
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+  return { key, keyring: await wrap(key, passphrase, new Date().toISOString()) };
+}
+
+/** Recovers the data key; throws when the passphrase is wrong. */
+export async function unlockKeyring(keyring: Keyring, passphrase: string) {
+  const wrapping = await deriveWrappingKey(passphrase, keyring.salt, keyring.iterations);
+  try {
+    return await crypto.subtle.unwrapKey(
+      "raw",
+      keyring.wrapped_key,
+      wrapping,
+      { name: "AES-GCM", iv: keyring.iv },
+      { name: "AES-GCM", length: 256 },
+      true,
+      ["encrypt", "decrypt"],
+    );
+  } catch {
+    throw new Error("Wrong passphrase");
+  }
+}
+
+/** Encrypts a whole payload (a backup) with the data key. */
+export async function sealBytes(key: CryptoKey, bytes: Uint8Array) {
+  const iv = randomBytes(12);
+  return { iv, data: new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, bytes)) };
+}
+
+/** Reverses `sealBytes`; throws when the key is not the one it was sealed with. */
+export async function openBytes(key: CryptoKey, iv: Uint8Array, data: Uint8Array) {
+  return new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, data));
+}
+
+/** The same data key wrapped under a new passphrase. */
+export async function rewrapKeyring(keyring: Keyring, key: CryptoKey, passphrase: string): Promise<Keyring> {
+  return { ...(await wrap(key, passphrase, keyring.created_at)), sealed_at: keyring.sealed_at };
+}
+
+function readPath(record: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<unknown>((v, part) => (v && typeof v === "object" ? (v as Record<string, unknown>)[part] : undefined), record);
+}
+
+function writePath(target: Record<string, unknown>, path: string, value: unknown) {
+  const parts = path.split(".");
+  let node = target;
+  for (const part of parts.slice(0, -1)) {
+    node[part] = (node[part] as Record<string, unknown> | undefined) ?? {};
+    node = node[part] as Record<string, unknown>;
+  }
+  node[parts[parts.length - 1]] = value;
+}
+
+export function isSealed(value: unknown): value is SealedFields {
+  return Boolean(value && typeof value === "object" && "_sealed" in value);
+}
+
+/**
+ * Seals and opens records for StorageService. `key` is null while locked:
+ * nothing sealed can be read and nothing can be written to encrypted stores.
+ * With `sealing` off, existing ciphertext is still opened but writes go out
+ * in clear (used while turning encryption off).
+ */
+export class RecordCipher {
+  private clearPaths = indexedKeyPaths();
+
+  constructor(private key: CryptoKey | null, private sealing = true) {}
+
+  get locked() {
+    return this.key === null;
+  }
+
+  applies(store: StoreName) {
+    return this.sealing && ENCRYPTED_STORES.includes(store);
+  }
+
+  async seal(store: StoreName, record: unknown): Promise<unknown> {
+    if (!this.applies(store)) return record;
+    if (!this.key) throw new LockedError();
+    const iv = randomBytes(12);
+    const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, this.key, encoder.encode(JSON.stringify(record)));
+    const sealed: Record<string, unknown> = { id: (record as { id: unknown }).id };
+    for (const path of this.clearPaths[store] ?? []) {
+      const value = readPath(record as Record<string, unknown>, path);
+      if (value !== undefined) writePath(sealed, path, value);
+    }
+    sealed._sealed = { iv, data };
+    return sealed;
+  }
+
+  // Records written before encryption was turned on come back unchanged
+  async open<T>(value: unknown): Promise<T> {
+    if (!isSealed(value)) return value as T;
+    if (!this.key) throw new LockedError();
+    const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: value._sealed.iv }, this.key, value._sealed.data);
+    return JSON.parse(decoder.decode(plain)) as T;
+  }
+}
@@ -0,0 +1,160 @@
+// Keys, key ranges and key ordering shared by every storage adapter. Ranges
+// are plain objects so managers can build them without IndexedDB around (in
+// Node scripts, with the in-memory adapter); each adapter translates them.
+//
+// `encodeKey` maps a key to a string whose plain string order matches
+// IndexedDB's key order (numbers < dates < strings < binary < arrays), which
+// is how the in-memory and SQLite adapters sort and compare keys.
+
+import type { IndexSpec } from "./migrations";
+
+export type Key = IDBValidKey;
+
+export interface KeyRange {
+  lower?: Key;
+  upper?: Key;
+  lowerOpen?: boolean;
+  upperOpen?: boolean;
+}
+
+export const keyRange = {
+  only: (key: Key): KeyRange => ({ lower: key, upper: key }),
+  bound: (lower: Key, upper: Key, lowerOpen = false, upperOpen = false): KeyRange => ({ lower, upper, lowerOpen, upperOpen }),
+  lowerBound: (lower: Key, open = false): KeyRange => ({ lower, lowerOpen: open }),
+  upperBound: (upper: Key, open = false): KeyRange => ({ upper, upperOpen: open }),
+};
+
+export function isKeyRange(value: unknown): value is KeyRange {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date)
+    && !ArrayBuffer.isView(value) && !(value instanceof ArrayBuffer) && ("lower" in (value as object) || "upper" in (value as object));
+}
+
+export function isValidKey(value: unknown): value is Key {
+  if (typeof value === "number") return !Number.isNaN(value);
+  if (typeof value === "string") return true;
+  if (value instanceof Date) return !Number.isNaN(value.getTime());
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) return true;
+  if (Array.isArray(value)) return value.every(isValidKey);
+  return false;
+}
+
+const TERMINATOR = "\u0001";
+const ESCAPE = "\u0002";
+
+function encodeFloat(n: number) {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, n === 0 ? 0 : n); // -0 and 0 are the same key
+  const bytes = new Uint8Array(view.buffer);
+  // Flip so that byte order is numeric order: all bits for negatives, the sign bit otherwise
+  if (bytes[0] & 0x80) bytes.forEach((b, i) => { bytes[i] = ~b & 0xff; });
+  else bytes[0] |= 0x80;
+  return Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+}
+
+function decodeFloat(hex: string) {
+  const bytes = new Uint8Array(hex.match(/../g)!.map(h => parseInt(h, 16)));
+  if (bytes[0] & 0x80) bytes[0] &= 0x7f;
+  else bytes.forEach((b, i) => { bytes[i] = ~b & 0xff; });
+  return new DataView(bytes.buffer).getFloat64(0);
+}
+
+function bytesOf(value: ArrayBuffer | ArrayBufferView) {
+  return value instanceof ArrayBuffer ? new Uint8Array(value) : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+// \u0000-\u0002 become \u0002 plus the char shifted up by two, so the
+// terminator sorts below every character a string can hold
+function escapeText(text: string) {
+  let out = "";
+  for (const c of text) out += c < "\u0003" ? ESCAPE + String.fromCharCode(c.charCodeAt(0) + 2) : c;
+  return out;
+}
+
+function unescapeText(text: string) {
+  let out = "";
+  for (let i = 0; i < text.length; i++) {
+    out += text[i] === ESCAPE ? String.fromCharCode(text.charCodeAt(++i) - 2) : text[i];
+  }
+  return out;
+}
+
+export function encodeKey(key: Key): string {
+  if (typeof key === "number") return "1" + encodeFloat(key);
+  if (key instanceof Date) return "2" + encodeFloat(key.getTime());
+  if (typeof key === "string") return "3" + escapeText(key) + TERMINATOR;
+  if (Array.isArray(key)) return "5" + key.map(encodeKey).join("") + TERMINATOR;
+  return "4" + Array.from(bytesOf(key as ArrayBuffer), b => b.toString(16).padStart(2, "0")).join("") + TERMINATOR;
+}
+
+export function decodeKey(encoded: string): Key {
+  let pos = 0;
+  const read = (): Key => {
+    const tag = encoded[pos++];
+    if (tag === "1" || tag === "2") {
+      const n = decodeFloat(encoded.slice(pos, pos + 16));
+      pos += 16;
+      return tag === "1" ? n : new Date(n);
+    }
+    if (tag === "5") {
+      const items: Key[] = [];
+      while (encoded[pos] !== TERMINATOR) items.push(read());
+      pos += 1;
+      return items;
+    }
+    const end = encoded.indexOf(TERMINATOR, pos);
+    const body = encoded.slice(pos, end);
+    pos = end + 1;
+    if (tag === "4") return new Uint8Array(body.match(/../g)?.map(h => parseInt(h, 16)) ?? []).buffer;
+    return unescapeText(body);
+  };
+  return read();
+}
+
+export function compareKeys(a: Key, b: Key) {
+  const x = encodeKey(a);
+  const y = encodeKey(b);
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+/** Whether `key` falls inside `range` (a single key means equality). */
+export function inRange(key: Key, range: Key | KeyRange) {
+  if (!isKeyRange(range)) return compareKeys(key, range) === 0;
+  if (range.lower !== undefined) {
+    const d = compareKeys(key, range.lower);
+    if (d < 0 || (d === 0 && range.lowerOpen)) return false;
+  }
+  if (range.upper !== undefined) {
+    const d = compareKeys(key, range.upper);
+    if (d > 0 || (d === 0 && range.upperOpen)) return false;
+  }
+  return true;
+}
+
+function readPath(record: unknown, path: string): unknown {
+  if (path === "") return record;
+  return path.split(".").reduce<unknown>((v, part) => (v && typeof v === "object" ? (v as Record<string, unknown>)[part] : undefined), record);
+}
+
+/** The value at `keyPath`, or undefined when it isn't a valid key. */
+export function keyAt(record: unknown, keyPath: string | string[]): Key | undefined {
+  const value = Array.isArray(keyPath) ? keyPath.map(p => readPath(record, p)) : readPath(record, keyPath);
+  return isValidKey(value) ? value : undefined;
+}
+
+/** The keys an index holds for `record`, following IndexedDB's rules for multiEntry and invalid keys. */
+export function indexKeysOf(record: unknown, index: IndexSpec): Key[] {
+  if (index.multiEntry && !Array.isArray(index.keyPath)) {
+    const value = readPath(record, index.keyPath);
+    if (Array.isArray(value)) {
+      const seen = new Set<string>();
+      return value.filter(isValidKey).filter(k => {
+        const e = encodeKey(k);
+        if (seen.has(e)) return false;
+        seen.add(e);
+        return true;
+      });
+    }
+  }
+  const key = keyAt(record, index.keyPath);
+  return key === undefined ? [] : [key];
+}
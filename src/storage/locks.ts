@@ -0,0 +1,30 @@
+// Serialises read-modify-write sequences (stock changes, product edits)
+// across every tab on a database with the Web Locks API. Records also carry a
+// `version` that writers check, so a write based on a stale read is refused
+// with a ConflictError even where locks aren't available.
+
+// Lock taken around everything that reads a product and writes it back
+export const STOCK_LOCK = "stock";
+
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+// Fallback queue per lock name when navigator.locks is missing (older
+// Safari, insecure origins): serialises this tab only
+const queues = new Map<string, Promise<unknown>>();
+
+/** Runs `fn` while holding the exclusive lock `name`. Don't nest locks of the same name. */
+export async function withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  const locks = typeof navigator !== "undefined" ? navigator.locks : undefined;
+  if (locks?.request) return locks.request(name, { mode: "exclusive" }, fn);
+
+  const run = (queues.get(name) ?? Promise.resolve()).then(fn);
+  const tail = run.catch(() => undefined);
+  queues.set(name, tail);
+  void tail.then(() => { if (queues.get(name) === tail) queues.delete(name); });
+  return run;
+}
@@ -0,0 +1,21 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { runMigrationHarness } from "@/storage/migrationHarness";
+import { LATEST_VERSION, MIGRATIONS } from "@/storage/migrations";
+
+// fake-indexeddb stands in for the browser's IndexedDB, so every change to
+// the migration list is checked by upgrading a seeded v1 database
+describe("migrations", () => {
+  it(`upgrade a v1 database to v${LATEST_VERSION} without losing records`, async () => {
+    const result = await runMigrationHarness();
+    expect(result.checks.filter(c => !c.ok)).toEqual([]);
+    expect(result).toMatchObject({ ok: true, from: 1, to: LATEST_VERSION });
+  });
+
+  it("catch a migration that drops records", async () => {
+    const lossy = [...MIGRATIONS, { version: LATEST_VERSION + 1, description: "lossy", transform: { sales: () => null } }];
+    const result = await runMigrationHarness(undefined, lossy, LATEST_VERSION + 1);
+    expect(result.ok).toBe(false);
+    expect(result.checks.find(c => c.name === "sales records kept")).toMatchObject({ ok: false, detail: "2 → 0" });
+  });
+});
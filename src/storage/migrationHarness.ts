@@ -0,0 +1,129 @@
+// Upgrade check for the migration list: builds a database exactly as a v1
+// install would have, fills it with v1-shaped records, reopens it at the
+// latest version and verifies the schema and data that come out.
+//
+// `npm test` runs it under fake-indexeddb (migrationHarness.test.ts). It can
+// also be run from the browser console against the dev server:
+//   const { runMigrationHarness } = await import("/src/storage/migrationHarness.ts");
+//   console.table((await runMigrationHarness()).checks);
+
+import { DatabaseManager } from "./DatabaseManager";
+import { LATEST_VERSION, MIGRATIONS, type Migration } from "./migrations";
+
+export type Fixtures = Record<string, Array<Record<string, unknown>>>;
+
+export interface HarnessCheck {
+  name: string;
+  ok: boolean;
+  detail?: string;
+}
+
+export interface HarnessResult {
+  ok: boolean;
+  from: number;
+  to: number;
+  checks: HarnessCheck[];
+}
+
+const day = (n: number) => new Date(Date.UTC(2024, 0, n, 9)).toISOString();
+
+// Records as v1 of the app wrote them: no receipts, tenders, status or shifts
+export const V1_FIXTURES: Fixtures = {
+  products: [
+    { id: "00000000-0000-4000-8000-000000000001", name: "Unga 2kg", sku: "SKU-1", barcode: "6161100110012", category: "Flour", cost_price: 180, selling_price: 210, current_stock: 20, low_stock_threshold: 5, created_at: day(1), updated_at: day(1) },
+    { id: "00000000-0000-4000-8000-000000000002", name: "Sukari 1kg", sku: "SKU-2", barcode: null, category: null, cost_price: 140, selling_price: 160, current_stock: 8, low_stock_threshold: 3, created_at: day(1), updated_at: day(2) },
+  ],
+  sales: [
+    {
+      id: "00000000-0000-4000-8000-000000000101", date: day(2), payment_method: "cash", total_amount: 420, staff_id: null, customer: null,
+      items: [{ product_id: "00000000-0000-4000-8000-000000000001", product_name: "Unga 2kg", quantity: 2, unit_price: 210, subtotal: 420 }],
+    },
+    {
+      id: "00000000-0000-4000-8000-000000000102", date: day(3), payment_method: "mpesa", total_amount: 160, staff_id: null, customer: null,
+      items: [{ product_id: "00000000-0000-4000-8000-000000000002", product_name: "Sukari 1kg", quantity: 1, unit_price: 160, subtotal: 160 }],
+    },
+  ],
+  stock_movements: [
+    { id: "00000000-0000-4000-8000-000000000201", product_id: "00000000-0000-4000-8000-000000000001", quantity: 22, type: "restock", date: day(1), supplier_id: null },
+  ],
+  staff: [
+    { id: "00000000-0000-4000-8000-000000000301", name: "Owner", email: "owner@example.com", role: "admin", created_at: day(1) },
+  ],
+  business_settings: [],
+};
+
+function seed(db: IDBDatabase, fixtures: Fixtures) {
+  const stores = Object.keys(fixtures);
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(stores, "readwrite");
+    for (const store of stores) for (const record of fixtures[store]) tx.objectStore(store).put(record);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error("Failed to seed fixtures"));
+  });
+}
+
+function readAll(db: IDBDatabase, store: string) {
+  return new Promise<Array<Record<string, unknown>>>((resolve, reject) => {
+    const req = db.transaction(store, "readonly").objectStore(store).getAll();
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Upgrades a throwaway v1 database seeded with `fixtures` to `toVersion` and
+ * reports what was checked. The database is deleted afterwards either way.
+ */
+export async function runMigrationHarness(
+  fixtures: Fixtures = V1_FIXTURES,
+  migrations: Migration[] = MIGRATIONS,
+  toVersion = LATEST_VERSION,
+): Promise<HarnessResult> {
+  const clientId = `migration_harness_${Date.now()}`;
+  const checks: HarnessCheck[] = [];
+  const check = (name: string, ok: boolean, detail?: string) => { checks.push({ name, ok, detail }); };
+
+  const legacy = new DatabaseManager(clientId, 1, migrations);
+  const upgraded = new DatabaseManager(clientId, toVersion, migrations);
+  try {
+    await seed(await legacy.open(), fixtures);
+    await legacy.close();
+
+    const db = await upgraded.open();
+    check("version", db.version === toVersion, `opened at v${db.version}`);
+
+    // Every store and index the migrations declare must exist
+    for (const m of migrations.filter(m => m.version <= toVersion)) {
+      for (const [store, spec] of Object.entries(m.createStores ?? {})) {
+        if (m.deleteStores?.includes(store)) continue;
+        check(`v${m.version} store ${store}`, db.objectStoreNames.contains(store));
+        for (const i of spec.indexes ?? []) {
+          check(`v${m.version} index ${store}.${i.name}`, db.transaction(store).objectStore(store).indexNames.contains(i.name));
+        }
+      }
+      for (const [store, indexes] of Object.entries(m.addIndexes ?? {})) {
+        for (const i of indexes) {
+          check(`v${m.version} index ${store}.${i.name}`, db.transaction(store).objectStore(store).indexNames.contains(i.name));
+        }
+      }
+    }
+
+    // Nothing lost; transforms applied
+    for (const [store, records] of Object.entries(fixtures)) {
+      const after = await readAll(db, store);
+      check(`${store} records kept`, after.length === records.length, `${records.length} → ${after.length}`);
+    }
+    if (toVersion >= 6) {
+      const sales = await readAll(db, "sales");
+      const backfilled = sales.every(s => s.status === "completed" && Array.isArray(s.tenders) && s.tenders.length > 0);
+      check("v6 sales backfilled", backfilled);
+    }
+  } catch (e: unknown) {
+    check("upgrade", false, e instanceof Error ? e.message : String(e));
+  } finally {
+    await legacy.close();
+    await upgraded.destroy().catch(() => undefined);
+  }
+
+  return { ok: checks.every(c => c.ok), from: 1, to: toVersion, checks };
+}
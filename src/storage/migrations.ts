@@ -0,0 +1,228 @@
+// Numbered IndexedDB schema migrations. Each entry describes what changes at
+// that version; DatabaseManager applies every migration above the version a
+// device is on, in order, inside the single upgrade transaction.
+//
+// Never edit a migration that has shipped: devices that already ran it won't
+// run it again. Add a new entry with the next version number instead.
+//
+// Transforms see records as stored: with encryption at rest on, records of
+// the encrypted stores arrive sealed (see encryption.ts) with only their
+// indexed fields readable.
+
+export interface IndexSpec {
+  name: string;
+  keyPath: string | string[];
+  unique?: boolean;
+  multiEntry?: boolean;
+}
+
+export interface StoreSpec {
+  keyPath: string;
+  indexes?: IndexSpec[];
+}
+
+// Rewrites one existing record: return the replacement, `null` to delete the
+// record, or `undefined` to leave it untouched.
+export type RecordTransform = (record: Record<string, unknown>) => unknown;
+
+export interface Migration {
+  version: number;
+  description: string;
+  createStores?: Record<string, StoreSpec>;
+  addIndexes?: Record<string, IndexSpec[]>;
+  dropIndexes?: Record<string, string[]>;
+  deleteStores?: string[];
+  // Run through a cursor after this migration's schema changes
+  transform?: Record<string, RecordTransform>;
+}
+
+const idx = (name: string, keyPath: string | string[] = name, unique = false): IndexSpec => ({ name, keyPath, unique });
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "initial stores",
+    createStores: {
+      products: {
+        keyPath: "id",
+        indexes: [idx("sku", "sku", true), idx("barcode"), idx("name"), idx("category"), idx("created_at"), idx("updated_at")],
+      },
+      sales: { keyPath: "id", indexes: [idx("date"), idx("payment_method"), idx("staff_id")] },
+      stock_movements: { keyPath: "id", indexes: [idx("date"), idx("product_id"), idx("type"), idx("supplier_id")] },
+      staff: { keyPath: "id", indexes: [idx("email", "email", true), idx("role")] },
+      business_settings: { keyPath: "id", indexes: [idx("business_name"), idx("updated_at")] },
+    },
+  },
+  {
+    version: 2,
+    description: "link sale/return movements back to their sale",
+    addIndexes: { stock_movements: [idx("sale_id")] },
+  },
+  {
+    version: 3,
+    description: "sequential document numbers, plus lookup of sales by receipt number",
+    createStores: { counters: { keyPath: "id" } },
+    addIndexes: { sales: [idx("receipt_number", "receipt.number")] },
+  },
+  {
+    version: 4,
+    description: "refunds / partial returns against earlier sales",
+    createStores: {
+      refunds: { keyPath: "id", indexes: [idx("date"), idx("sale_id"), idx("receipt_number", "receipt.number")] },
+    },
+  },
+  {
+    version: 5,
+    description: "cash drawer sessions; sales and refunds point at the shift they belong to",
+    createStores: { shifts: { keyPath: "id", indexes: [idx("status"), idx("opened_at")] } },
+    addIndexes: { sales: [idx("shift_id")], refunds: [idx("shift_id")] },
+  },
+  {
+    version: 6,
+    description: "backfill status and tenders on sales recorded before split payments",
+    transform: {
+      sales: (sale) => {
+        if (sale.status && sale.tenders) return undefined;
+        return {
+          ...sale,
+          status: sale.status ?? "completed",
+          tenders: sale.tenders ?? [{ method: sale.payment_method, amount: sale.total_amount }],
+        };
+      },
+    },
+  },
+  {
+    version: 7,
+    description: "product search index (filled lazily by ProductManager)",
+    createStores: {
+      product_search: { keyPath: "id", indexes: [{ name: "tokens", keyPath: "tokens", multiEntry: true }] },
+    },
+  },
+  {
+    version: 8,
+    description: "keyring for encryption at rest (records stay as they are until encryption is turned on)",
+    createStores: { keyring: { keyPath: "id" } },
+  },
+  {
+    version: 9,
+    description: "audit log of every write, by staff member",
+    createStores: {
+      audit_log: { keyPath: "id", indexes: [idx("at"), idx("store"), idx("record_id"), idx("actor_id")] },
+    },
+  },
+  {
+    version: 10,
+    description: "outbox of local writes waiting to be pushed to Supabase",
+    createStores: { outbox: { keyPath: "id", indexes: [idx("next_attempt_at"), idx("store")] } },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** Stores and their indexes as they stand after all of `migrations`. */
+export function finalSchema(migrations: Migration[] = MIGRATIONS) {
+  const stores: Record<string, { keyPath: string; indexes: Map<string, IndexSpec> }> = {};
+  for (const m of [...migrations].sort((a, b) => a.version - b.version)) {
+    for (const store of m.deleteStores ?? []) delete stores[store];
+    for (const [store, spec] of Object.entries(m.createStores ?? {})) {
+      stores[store] = { keyPath: spec.keyPath, indexes: new Map((spec.indexes ?? []).map(i => [i.name, i])) };
+    }
+    for (const [store, names] of Object.entries(m.dropIndexes ?? {})) names.forEach(n => stores[store]?.indexes.delete(n));
+    for (const [store, specs] of Object.entries(m.addIndexes ?? {})) specs.forEach(i => stores[store]?.indexes.set(i.name, i));
+  }
+  return Object.fromEntries(
+    Object.entries(stores).map(([name, s]) => [name, { keyPath: s.keyPath, indexes: Array.from(s.indexes.values()) }]),
+  ) as Record<string, Required<StoreSpec>>;
+}
+
+/** Every key path some index reads, per store, after all of `migrations`. */
+export function indexedKeyPaths(migrations: Migration[] = MIGRATIONS) {
+  return Object.fromEntries(
+    Object.entries(finalSchema(migrations)).map(([store, spec]) => [
+      store,
+      Array.from(new Set(spec.indexes.flatMap(i => (Array.isArray(i.keyPath) ? i.keyPath : [i.keyPath])))),
+    ]),
+  ) as Record<string, string[]>;
+}
+
+function applySchema(db: IDBDatabase, tx: IDBTransaction, m: Migration) {
+  for (const name of m.deleteStores ?? []) {
+    if (db.objectStoreNames.contains(name)) db.deleteObjectStore(name);
+  }
+  for (const [name, spec] of Object.entries(m.createStores ?? {})) {
+    const store = db.createObjectStore(name, { keyPath: spec.keyPath });
+    for (const i of spec.indexes ?? []) store.createIndex(i.name, i.keyPath, { unique: i.unique ?? false, multiEntry: i.multiEntry ?? false });
+  }
+  for (const [name, indexes] of Object.entries(m.dropIndexes ?? {})) {
+    const store = tx.objectStore(name);
+    for (const i of indexes) if (store.indexNames.contains(i)) store.deleteIndex(i);
+  }
+  for (const [name, indexes] of Object.entries(m.addIndexes ?? {})) {
+    const store = tx.objectStore(name);
+    for (const i of indexes) store.createIndex(i.name, i.keyPath, { unique: i.unique ?? false, multiEntry: i.multiEntry ?? false });
+  }
+}
+
+// Walks `store` with a cursor, applying `fn` to each record, then calls `done`
+function transformStore(tx: IDBTransaction, store: string, fn: RecordTransform, done: () => void) {
+  const req = tx.objectStore(store).openCursor();
+  req.onsuccess = () => {
+    const cursor = req.result;
+    if (!cursor) { done(); return; }
+    try {
+      const next = fn(cursor.value);
+      if (next === null) cursor.delete();
+      else if (next !== undefined) cursor.update(next);
+      cursor.continue();
+    } catch (e) {
+      console.error(`Transform of ${store} failed on record ${String(cursor.primaryKey)}`, e);
+      tx.abort();
+    }
+  };
+}
+
+/**
+ * Applies every migration in (oldVersion, newVersion] inside the upgrade
+ * transaction. Migrations run strictly one after another (a migration's
+ * cursor transforms finish before the next one's schema changes start) so a
+ * later transform always sees records the earlier ones produced. Chained
+ * through request callbacks rather than promises to keep the transaction
+ * active throughout.
+ */
+export function applyMigrations(
+  db: IDBDatabase,
+  tx: IDBTransaction,
+  oldVersion: number,
+  newVersion: number,
+  migrations: Migration[] = MIGRATIONS,
+) {
+  const pending = migrations
+    .filter(m => m.version > oldVersion && m.version <= newVersion)
+    .sort((a, b) => a.version - b.version);
+
+  const run = (i: number) => {
+    const m = pending[i];
+    if (!m) return;
+    try {
+      applySchema(db, tx, m);
+    } catch (e) {
+      console.error(`Migration ${m.version} (${m.description}) failed`, e);
+      tx.abort();
+      return;
+    }
+
+    const transforms = Object.entries(m.transform ?? {});
+    const step = (t: number) => {
+      if (t >= transforms.length) { run(i + 1); return; }
+      const [store, fn] = transforms[t];
+      try {
+        transformStore(tx, store, fn, () => step(t + 1));
+      } catch (e) {
+        console.error(`Migration ${m.version} transform of ${store} failed`, e);
+        tx.abort();
+      }
+    };
+    step(0);
+  };
+  run(0);
+}
@@ -0,0 +1,30 @@
+// Queue of local writes for the Supabase mirror. StorageService puts an
+// OutboxEntry in `outbox` in the same transaction as every write to a synced
+// store; SyncManager drains it.
+
+import type { OutboxEntry, StoreName } from "@/types/business";
+
+// Stores with a table on the Supabase side
+export const SYNCED_STORES: StoreName[] = ["business_settings", "staff", "products", "shifts", "sales", "refunds", "stock_movements"];
+
+export const isSynced = (store: StoreName) => SYNCED_STORES.includes(store);
+
+function uuid() { return globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2); }
+
+export const outboxId = (store: StoreName, recordId: string) => `${store}:${recordId}`;
+
+/** The entry for a write to `store`, due straight away. */
+export function outboxEntry(store: StoreName, recordId: string, operation: OutboxEntry["operation"]): OutboxEntry {
+  const now = new Date().toISOString();
+  return {
+    id: outboxId(store, recordId),
+    store,
+    record_id: recordId,
+    operation,
+    rev: uuid(),
+    queued_at: now,
+    attempts: 0,
+    next_attempt_at: now,
+    last_error: null,
+  };
+}
@@ -4,6 +4,20 @@ export type UUID = string;
 
 export type PaymentMethod = "cash" | "mpesa" | "card" | "other";
 
+export interface MpesaReference {
+  transaction_code: string; // e.g. QGH7XK2L9P
+  phone?: string | null; // payer's number
+}
+
+// One slice of a sale's payment; a split sale has several
+export interface Tender {
+  method: PaymentMethod;
+  amount: number; // applied to the sale
+  tendered?: number | null; // cash handed over, when more than `amount`
+  change?: number | null; // tendered - amount
+  mpesa?: MpesaReference | null; // mpesa tenders only
+}
+
 export interface Product {
   id: UUID;
   name: string;
@@ -14,6 +28,8 @@ export interface Product {
   selling_price: number; // per unit
   current_stock: number;
   low_stock_threshold?: number;
+  archived_at?: string | null; // ISO; archived products can't be sold but stay in history
+  version?: number; // bumped on every write; a write carrying an older version is a conflict
   created_at: string; // ISO
   updated_at: string; // ISO
 }
@@ -24,8 +40,11 @@ export interface SaleItem {
   quantity: number;
   unit_price: number;
   subtotal: number;
+  unit_cost?: number; // the product's cost price when rung up; missing on sales recorded before it was kept
 }
 
+export type ReceiptKind = "sale" | "credit_note";
+
 export interface Receipt {
   id: UUID;
   sale_id: UUID;
@@ -33,6 +52,59 @@ export interface Receipt {
   issued_at: string; // ISO
   total: number;
   payment_method: PaymentMethod;
+  kind?: ReceiptKind; // missing on receipts issued before credit notes existed
+  original_receipt_number?: string | null; // credit notes: the receipt being refunded
+  mpesa?: MpesaReference[]; // codes of the M-Pesa payments on the sale
+}
+
+// Derived search document for a product, kept in step with it by
+// ProductManager; `tokens` is a multiEntry index
+export interface ProductSearchEntry {
+  id: UUID; // product id
+  tokens: string[];
+}
+
+// One field of a record as it was before and after a write; a side is
+// missing when the field didn't exist on it
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Who changed which record when, written by StorageService alongside the write
+export interface AuditEntry {
+  id: UUID;
+  at: string; // ISO
+  actor_id: UUID | null; // staff on duty, null when nobody was signed in
+  store: StoreName;
+  record_id: string;
+  operation: "create" | "update" | "delete";
+  changes: FieldChange[];
+}
+
+// A local write waiting to be pushed to Supabase. One per record: a later
+// write replaces the queued entry, and the push sends the record as it is then
+export interface OutboxEntry {
+  id: string; // `${store}:${record_id}`
+  store: StoreName;
+  record_id: string;
+  operation: "put" | "delete";
+  rev: string; // changes with every write, so a push only clears the write it sent
+  queued_at: string; // ISO
+  attempts: number;
+  next_attempt_at: string; // ISO
+  last_error?: string | null;
+}
+
+// Monotonic counter backing sequential document numbers (e.g. receipts)
+export interface Counter {
+  id: string; // e.g. "receipt"
+  prefix: string;
+  value: number; // last number handed out
+  yearly_reset: boolean;
+  year?: number | null; // year `value` belongs to when yearly_reset is on
+  updated_at: string; // ISO
 }
 
 export interface Customer {
@@ -46,13 +118,63 @@ export interface Sale {
   date: string; // ISO
   items: SaleItem[];
   total_amount: number;
-  payment_method: PaymentMethod;
+  payment_method: PaymentMethod; // the largest tender's method on split sales
+  tenders?: Tender[]; // missing on sales recorded before split tenders
+  change_due?: number;
   staff_id?: UUID | null;
   customer?: Customer | null;
   receipt?: Receipt | null;
+  status?: SaleStatus;
+  voided_at?: string | null; // ISO
+  refunded_amount?: number;
+  shift_id?: UUID | null; // till session the sale was rung up in
+}
+
+export type SaleStatus = "completed" | "partially_refunded" | "refunded" | "voided";
+
+// Goods returned against an earlier sale, settled with a credit note
+export interface Refund {
+  id: UUID;
+  sale_id: UUID;
+  date: string; // ISO
+  items: SaleItem[];
+  total_amount: number;
+  tenders?: Tender[]; // how the money went back; missing on refunds recorded before it was kept
+  reason?: string | null;
+  staff_id?: UUID | null;
+  receipt: Receipt; // credit note
+  shift_id?: UUID | null; // till session the money was paid out from
 }
 
-export type StockMovementType = "restock" | "sale" | "adjustment";
+export type PaymentTotals = Record<PaymentMethod, number>;
+
+// X report (mid-shift) or Z report (stored when the shift closes)
+export interface ShiftReport {
+  kind: "X" | "Z";
+  generated_at: string; // ISO
+  sales_count: number;
+  refunds_count: number;
+  gross: number;
+  refunded: number;
+  opening_float: number;
+  expected: PaymentTotals; // float + takings - refunds, per method
+  counted?: PaymentTotals | null;
+  variance?: PaymentTotals | null; // counted - expected
+}
+
+// Cash drawer session, opened with a float and closed with a count
+export interface Shift {
+  id: UUID;
+  status: "open" | "closed";
+  opened_at: string; // ISO
+  opened_by?: UUID | null;
+  opening_float: number;
+  closed_at?: string | null; // ISO
+  closed_by?: UUID | null;
+  report?: ShiftReport | null; // Z report
+}
+
+export type StockMovementType = "restock" | "sale" | "return" | "adjustment";
 
 export interface StockMovement {
   id: UUID;
@@ -62,22 +184,34 @@ export interface StockMovement {
   date: string; // ISO
   notes?: string | null;
   supplier_id?: UUID | null;
+  sale_id?: UUID | null; // set for "sale" and "return" movements
 }
 
 export type AppRole = "admin" | "manager" | "cashier" | "viewer";
 
+// A staff PIN as stored: PBKDF2-SHA-256 of the PIN, base64 salt and hash
+export interface PinHash {
+  salt: string;
+  hash: string;
+  iterations: number;
+}
+
 export interface Staff {
   id: UUID;
   name: string;
   email: string;
   role: AppRole;
   created_at: string; // ISO
+  pin?: PinHash | null; // null until they first sign in and choose one
 }
 
 export interface BackupPreferences {
   enabled: boolean;
   frequency: "daily" | "weekly" | "monthly";
   last_run_at?: string | null;
+  destination?: "opfs" | "folder"; // browser storage on this device (default) or a folder the user picked
+  retention?: number; // scheduled backups kept before the oldest is deleted
+  incremental?: boolean; // between full backups, save only what changed since the last one
 }
 
 export interface BusinessSettings {
@@ -101,6 +235,8 @@ export const productSchema = z.object({
   selling_price: z.number().nonnegative(),
   current_stock: z.number().int(),
   low_stock_threshold: z.number().int().optional(),
+  archived_at: z.string().optional().nullable(),
+  version: z.number().int().nonnegative().optional(),
   created_at: z.string(),
   updated_at: z.string(),
 });
@@ -111,6 +247,12 @@ export const saleItemSchema = z.object({
   quantity: z.number().int().positive(),
   unit_price: z.number().nonnegative(),
   subtotal: z.number().nonnegative(),
+  unit_cost: z.number().nonnegative().optional(),
+});
+
+export const mpesaReferenceSchema = z.object({
+  transaction_code: z.string().regex(/^[A-Z0-9]{10}$/, "M-Pesa code must be 10 letters/digits"),
+  phone: z.string().optional().nullable(),
 });
 
 export const receiptSchema = z.object({
@@ -120,6 +262,17 @@ export const receiptSchema = z.object({
   issued_at: z.string(),
   total: z.number().nonnegative(),
   payment_method: z.enum(["cash", "mpesa", "card", "other"]),
+  kind: z.enum(["sale", "credit_note"]).optional(),
+  original_receipt_number: z.string().optional().nullable(),
+  mpesa: z.array(mpesaReferenceSchema).optional(),
+});
+
+export const tenderSchema = z.object({
+  method: z.enum(["cash", "mpesa", "card", "other"]),
+  amount: z.number().nonnegative(),
+  tendered: z.number().nonnegative().optional().nullable(),
+  change: z.number().nonnegative().optional().nullable(),
+  mpesa: mpesaReferenceSchema.optional().nullable(),
 });
 
 export const saleSchema = z.object({
@@ -128,22 +281,82 @@ export const saleSchema = z.object({
   items: z.array(saleItemSchema).min(1),
   total_amount: z.number().nonnegative(),
   payment_method: z.enum(["cash", "mpesa", "card", "other"]),
+  tenders: z.array(tenderSchema).optional(),
+  change_due: z.number().nonnegative().optional(),
   staff_id: z.string().uuid().optional().nullable(),
   customer: z
     .object({ id: z.string().uuid().optional(), name: z.string().optional(), phone: z.string().optional() })
     .optional()
     .nullable(),
   receipt: receiptSchema.optional().nullable(),
+  status: z.enum(["completed", "partially_refunded", "refunded", "voided"]).optional(),
+  voided_at: z.string().optional().nullable(),
+  refunded_amount: z.number().nonnegative().optional(),
+  shift_id: z.string().uuid().optional().nullable(),
+});
+
+export const refundSchema = z.object({
+  id: z.string().uuid(),
+  sale_id: z.string().uuid(),
+  date: z.string(),
+  items: z.array(saleItemSchema).min(1),
+  total_amount: z.number().nonnegative(),
+  tenders: z.array(tenderSchema).optional(),
+  reason: z.string().optional().nullable(),
+  staff_id: z.string().uuid().optional().nullable(),
+  receipt: receiptSchema,
+  shift_id: z.string().uuid().optional().nullable(),
+});
+
+export const counterSchema = z.object({
+  id: z.string().min(1),
+  prefix: z.string(),
+  value: z.number().int().nonnegative(),
+  yearly_reset: z.boolean(),
+  year: z.number().int().optional().nullable(),
+  updated_at: z.string(),
+});
+
+const paymentTotalsSchema = z.object({
+  cash: z.number(),
+  mpesa: z.number(),
+  card: z.number(),
+  other: z.number(),
+});
+
+export const shiftReportSchema = z.object({
+  kind: z.enum(["X", "Z"]),
+  generated_at: z.string(),
+  sales_count: z.number().int().nonnegative(),
+  refunds_count: z.number().int().nonnegative(),
+  gross: z.number(),
+  refunded: z.number(),
+  opening_float: z.number().nonnegative(),
+  expected: paymentTotalsSchema,
+  counted: paymentTotalsSchema.optional().nullable(),
+  variance: paymentTotalsSchema.optional().nullable(),
+});
+
+export const shiftSchema = z.object({
+  id: z.string().uuid(),
+  status: z.enum(["open", "closed"]),
+  opened_at: z.string(),
+  opened_by: z.string().uuid().optional().nullable(),
+  opening_float: z.number().nonnegative(),
+  closed_at: z.string().optional().nullable(),
+  closed_by: z.string().uuid().optional().nullable(),
+  report: shiftReportSchema.optional().nullable(),
 });
 
 export const stockMovementSchema = z.object({
   id: z.string().uuid(),
   product_id: z.string().uuid(),
   quantity: z.number().int(),
-  type: z.enum(["restock", "sale", "adjustment"]),
+  type: z.enum(["restock", "sale", "return", "adjustment"]),
   date: z.string(),
   notes: z.string().optional().nullable(),
   supplier_id: z.string().uuid().optional().nullable(),
+  sale_id: z.string().uuid().optional().nullable(),
 });
 
 export const staffSchema = z.object({
@@ -152,6 +365,7 @@ export const staffSchema = z.object({
   email: z.string().email(),
   role: z.enum(["admin", "manager", "cashier", "viewer"]),
   created_at: z.string(),
+  pin: z.object({ salt: z.string(), hash: z.string(), iterations: z.number().int().positive() }).nullable().optional(),
 });
 
 export const settingsSchema = z.object({
@@ -163,6 +377,9 @@ export const settingsSchema = z.object({
     enabled: z.boolean(),
     frequency: z.enum(["daily", "weekly", "monthly"]),
     last_run_at: z.string().optional().nullable(),
+    destination: z.enum(["opfs", "folder"]).optional(),
+    retention: z.number().int().positive().optional(),
+    incremental: z.boolean().optional(),
   }),
   created_at: z.string(),
   updated_at: z.string(),
@@ -173,4 +390,11 @@ export type StoreName =
   | "sales"
   | "stock_movements"
   | "staff"
-  | "business_settings";
+  | "business_settings"
+  | "counters"
+  | "refunds"
+  | "shifts"
+  | "product_search"
+  | "keyring"
+  | "audit_log"
+  | "outbox";
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MemoryAdapter } from "@/storage/adapters";
+import { StorageService } from "@/storage/StorageService";
+import { ProductManager } from "@/managers/ProductManager";
+import { SalesManager } from "@/managers/SalesManager";
+import { StockManager } from "@/managers/StockManager";
+import { createKeyring } from "@/storage/encryption";
+import { aggregateAllData, BACKUP_STORES, BackupLockedError, compressBackup, readBackup } from "@/utils/backup";
+
+let storage: StorageService;
+
+beforeEach(() => {
+  storage = new StorageService(new MemoryAdapter(`backup-test-${Math.random()}`));
+});
+
+afterEach(() => storage.changes.close());
+
+describe("aggregateAllData", () => {
+  it("reads every store in a single transaction", async () => {
+    const products = new ProductManager(storage);
+    const added = await products.addProduct({ name: "Tea", category: null, barcode: null, low_stock_threshold: 1, current_stock: 5, selling_price: 100 });
+    if (!added.success) throw new Error(added.error);
+    await new SalesManager(storage, products, new StockManager(storage)).recordSale({ items: [{ product: added.data!, quantity: 2 }], payment_method: "cash" });
+
+    const transaction = storage.adapter.transaction.bind(storage.adapter);
+    const opened: string[][] = [];
+    storage.adapter.transaction = ((stores, ...rest) => {
+      opened.push(stores);
+      return transaction(stores, ...rest);
+    }) as typeof transaction;
+    const bundle = await aggregateAllData(storage);
+
+    expect(opened).toEqual([BACKUP_STORES]);
+    expect(bundle.products[0].current_stock).toBe(3);
+    expect(bundle.sales).toHaveLength(1);
+    expect(bundle.stock_movements).toHaveLength(1);
+    expect(bundle.counters).toHaveLength(1);
+  });
+});
+
+describe("encrypted backups", () => {
+  it("open only with the passphrase, wherever they are read", async () => {
+    const products = new ProductManager(storage);
+    await products.addProduct({ name: "Secret blend", category: null, barcode: null, low_stock_threshold: 1, cost_price: 37 });
+    const bundle = await aggregateAllData(storage);
+    const file = await compressBackup(bundle, null, await createKeyring("correct horse"));
+
+    const raw = new TextDecoder().decode(await new Response(file.stream().pipeThrough(new DecompressionStream("gzip"))).arrayBuffer());
+    expect(raw).not.toContain("Secret blend");
+    await expect(readBackup(file)).rejects.toBeInstanceOf(BackupLockedError);
+    await expect(readBackup(file, "wrong horse")).rejects.toThrow("Wrong passphrase for this backup");
+
+    const opened = await readBackup(file, "correct horse");
+    expect(opened.bundle).toEqual(bundle);
+    expect(opened.manifest.counts.products).toBe(1);
+  });
+});
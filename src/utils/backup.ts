@@ -1,5 +1,8 @@
 import { StorageService } from "@/storage/StorageService";
-import type { Product, Sale, StockMovement, Staff, BusinessSettings } from "@/types/business";
+import { LATEST_VERSION } from "@/storage/migrations";
+import { keyRange } from "@/storage/keys";
+import { openBytes, sealBytes, unlockKeyring, KEYRING_ID, type Keyring } from "@/storage/encryption";
+import type { Product, Sale, StockMovement, Staff, BusinessSettings, Counter, Refund, Shift, AuditEntry } from "@/types/business";
 
 export interface BackupBundle {
   products: Product[];
@@ -7,30 +10,358 @@ export interface BackupBundle {
   stock_movements: StockMovement[];
   staff: Staff[];
   business_settings: BusinessSettings[];
+  counters: Counter[];
+  refunds: Refund[];
+  shifts: Shift[];
   generated_at: string; // ISO
+  deleted?: Partial<Record<BackupStore, string[]>>; // incrementals: ids removed since the parent backup
+}
+
+export type BackupStore = Exclude<keyof BackupBundle, "generated_at" | "deleted">;
+
+export const BACKUP_STORES: BackupStore[] = [
+  "products", "sales", "stock_movements", "staff", "business_settings", "counters", "refunds", "shifts",
+];
+
+// Describes a backup file and lets it be checked before anything is restored
+export interface BackupManifest {
+  format: "swbak";
+  format_version: number;
+  schema_version: number; // migrations version of the database it came from
+  app_version: string;
+  id: string; // incrementals name this as their parent
+  kind: "full" | "incremental";
+  parent_id?: string | null; // incrementals: the backup this one continues from
+  since?: string | null; // incrementals: holds what changed after this instant (ISO)
+  generated_at: string; // ISO
+  counts: Record<BackupStore, number>;
+  bytes: number; // length of the payload as written
+  checksum: string; // SHA-256 of the payload as written, hex
+  encryption?: BackupEncryption | null; // set when the payload is encrypted
+}
+
+// An encrypted payload is the gzipped bundle sealed with the shop's data key.
+// The keyring's wrapped copy of that key travels with it (base64), so the
+// file restores on any device given the passphrase.
+export interface BackupEncryption {
+  iv: string;
+  salt: string;
+  iterations: number;
+  key_iv: string;
+  wrapped_key: string;
+}
+
+// What scheduled and downloaded backups are sealed with while encryption is on
+export interface BackupSealing {
+  key: CryptoKey;
+  keyring: Keyring;
+}
+
+export const BACKUP_EXTENSION = ".swbak";
+const FORMAT_VERSION = 3; // 2: incremental backups, 3: encrypted payloads
+const APP_VERSION = typeof __APP_VERSION__ !== "undefined" ? __APP_VERSION__ : "dev";
+
+// The file is unusable: not a backup, damaged, or from a newer app
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+// The file is encrypted and no passphrase was given to open it with
+export class BackupLockedError extends BackupError {
+  constructor() {
+    super("This backup is encrypted. Enter the passphrase it was made with.");
+    this.name = "BackupLockedError";
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, b => String.fromCharCode(b)).join(""));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+async function gzip(bytes: Uint8Array, direction: "compress" | "decompress") {
+  const stream = new Blob([bytes]).stream().pipeThrough(direction === "compress" ? new CompressionStream("gzip") : new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function sealPayload(json: Uint8Array, { key, keyring }: BackupSealing) {
+  const { iv, data } = await sealBytes(key, await gzip(json, "compress"));
+  const encryption: BackupEncryption = {
+    iv: toBase64(iv),
+    salt: toBase64(keyring.salt),
+    iterations: keyring.iterations,
+    key_iv: toBase64(keyring.iv),
+    wrapped_key: toBase64(new Uint8Array(keyring.wrapped_key)),
+  };
+  return { payload: data, encryption };
+}
+
+async function openPayload(payload: Uint8Array, encryption: BackupEncryption, passphrase: string) {
+  const wrapped = fromBase64(encryption.wrapped_key);
+  const keyring: Keyring = {
+    id: KEYRING_ID,
+    salt: fromBase64(encryption.salt),
+    iterations: encryption.iterations,
+    iv: fromBase64(encryption.key_iv),
+    wrapped_key: wrapped.buffer.slice(wrapped.byteOffset, wrapped.byteOffset + wrapped.byteLength) as ArrayBuffer,
+    created_at: "",
+    updated_at: "",
+  };
+  const key = await unlockKeyring(keyring, passphrase).catch(() => { throw new BackupError("Wrong passphrase for this backup"); });
+  try {
+    return await gzip(await openBytes(key, fromBase64(encryption.iv), payload), "decompress");
+  } catch {
+    throw new BackupError("The backup data could not be decrypted");
+  }
 }
 
 export async function aggregateAllData(storage: StorageService): Promise<BackupBundle> {
-  const [products, sales, stock, staff, settings] = await Promise.all([
-    storage.getAll<Product>("products"),
-    storage.getAll<Sale>("sales"),
-    storage.getAll<StockMovement>("stock_movements"),
-    storage.getAll<Staff>("staff"),
-    storage.getAll<BusinessSettings>("business_settings"),
-  ]);
-
-  return {
-    products: products.data ?? [],
-    sales: sales.data ?? [],
-    stock_movements: stock.data ?? [],
-    staff: staff.data ?? [],
-    business_settings: settings.data ?? [],
-    generated_at: new Date().toISOString(),
+  // Taken before reading, so a write made during the reads is in the next incremental too
+  const generatedAt = new Date().toISOString();
+  // One transaction across every store, so a sale can't land between reading
+  // sales and reading the stock it moved
+  const res = await storage.snapshot(BACKUP_STORES);
+  // A store that failed to read must not turn into an empty list in the backup
+  if (!res.success || !res.data) throw new Error(res.error ?? "Failed to read data for the backup");
+
+  const bundle = { generated_at: generatedAt } as BackupBundle;
+  BACKUP_STORES.forEach((store, i) => { (bundle as unknown as Record<BackupStore, unknown[]>)[store] = res.data![i]; });
+  return bundle;
+}
+
+// The field that moves when a record is created (or, where there is one,
+// updated), and whether the store has an index on it
+const CHANGE_STAMPS: Record<BackupStore, { field: string; indexed: boolean }> = {
+  products: { field: "updated_at", indexed: true },
+  sales: { field: "date", indexed: true },
+  stock_movements: { field: "date", indexed: true },
+  staff: { field: "created_at", indexed: false },
+  business_settings: { field: "updated_at", indexed: true },
+  counters: { field: "updated_at", indexed: false },
+  refunds: { field: "date", indexed: true },
+  shifts: { field: "opened_at", indexed: true },
+};
+
+async function changedByStamp<T>(storage: StorageService, store: BackupStore, since: string) {
+  const { field, indexed } = CHANGE_STAMPS[store];
+  const res = indexed
+    ? await storage.findByIndex<T>(store, field, keyRange.lowerBound(since, true))
+    : await storage.getAll<T>(store);
+  if (!res.success) throw new Error(res.error ?? `Failed to read ${store} for the backup`);
+  return (res.data ?? []).filter(record => String((record as Record<string, unknown>)[field] ?? "") > since);
+}
+
+/**
+ * Everything created, changed or deleted after `since`, for an incremental
+ * backup. Records are picked by their stamp (`updated_at`, or `date` where
+ * records are written once), plus whatever the audit log shows was written or
+ * deleted since: voids, refunds against old sales, closed shifts and staff
+ * edits don't move a stamp, and deletions leave nothing to find otherwise.
+ */
+export async function aggregateChangesSince(storage: StorageService, since: string): Promise<BackupBundle> {
+  const generatedAt = new Date().toISOString();
+  const bundle = { generated_at: generatedAt, deleted: {} } as BackupBundle;
+  for (const store of BACKUP_STORES) {
+    (bundle as unknown as Record<BackupStore, unknown[]>)[store] = await changedByStamp(storage, store, since);
+  }
+
+  const audited = await storage.findByIndex<AuditEntry>("audit_log", "at", keyRange.lowerBound(since, true));
+  if (!audited.success) throw new Error(audited.error ?? "Failed to read the audit log for the backup");
+  const touched = new Map<BackupStore, Set<string>>();
+  for (const entry of audited.data ?? []) {
+    if (!BACKUP_STORES.includes(entry.store as BackupStore)) continue;
+    const store = entry.store as BackupStore;
+    if (!touched.has(store)) touched.set(store, new Set());
+    touched.get(store)!.add(entry.record_id);
+  }
+  for (const [store, ids] of touched) {
+    const records = bundle[store] as { id: string }[];
+    const have = new Set(records.map(r => r.id));
+    for (const id of ids) {
+      if (have.has(id)) continue;
+      const res = await storage.findById<{ id: string }>(store, id);
+      if (!res.success) throw new Error(res.error ?? `Failed to read ${store} for the backup`);
+      if (res.data) records.push(res.data);
+      else (bundle.deleted![store] ??= []).push(id);
+    }
+  }
+  return bundle;
+}
+
+async function sha256(bytes: Uint8Array) {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+const countsOf = (bundle: BackupBundle) =>
+  Object.fromEntries(BACKUP_STORES.map(store => [store, bundle[store]?.length ?? 0])) as Record<BackupStore, number>;
+
+/**
+ * A `.swbak` file: gzip of the manifest as one line of JSON, a newline, then
+ * the bundle as JSON. The manifest's checksum and length cover the payload
+ * bytes exactly as written. With a `parent`, the bundle is taken to hold only
+ * what changed since that backup (see `aggregateChangesSince`). With
+ * `sealing`, the payload is encrypted (see `BackupEncryption`).
+ */
+export async function compressBackup(bundle: BackupBundle, parent: BackupManifest | null = null, sealing: BackupSealing | null = null): Promise<Blob> {
+  const json = new TextEncoder().encode(JSON.stringify(bundle));
+  const { payload, encryption } = sealing ? await sealPayload(json, sealing) : { payload: json, encryption: null };
+  const manifest: BackupManifest = {
+    format: "swbak",
+    format_version: FORMAT_VERSION,
+    schema_version: LATEST_VERSION,
+    app_version: APP_VERSION,
+    id: globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2),
+    kind: parent ? "incremental" : "full",
+    parent_id: parent?.id ?? null,
+    since: parent?.generated_at ?? null,
+    generated_at: bundle.generated_at,
+    counts: countsOf(bundle),
+    bytes: payload.byteLength,
+    checksum: await sha256(payload),
+    encryption,
   };
+  const header = new TextEncoder().encode(JSON.stringify(manifest) + "\n");
+  const stream = new Blob([header, payload]).stream().pipeThrough(new CompressionStream("gzip"));
+  return new Response(stream).blob();
 }
 
-export async function compressBackup(bundle: BackupBundle): Promise<Blob> {
-  // Placeholder compression: JSON -> Blob. Future: add real compression (e.g., CompressionStream)
-  const json = JSON.stringify(bundle);
-  return new Blob([json], { type: "application/json" });
+/**
+ * Opens a `.swbak` file and checks it end to end (gzip integrity, manifest,
+ * length, checksum, record counts) before handing back the bundle. Throws a
+ * BackupError saying what is wrong otherwise, and a BackupLockedError for an
+ * encrypted file read without its `passphrase`.
+ */
+export async function readBackup(file: Blob, passphrase?: string): Promise<{ manifest: BackupManifest; bundle: BackupBundle }> {
+  const magic = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  if (magic[0] !== 0x1f || magic[1] !== 0x8b) throw new BackupError("This is not a shop backup file");
+
+  let bytes: Uint8Array;
+  try {
+    bytes = new Uint8Array(await new Response(file.stream().pipeThrough(new DecompressionStream("gzip"))).arrayBuffer());
+  } catch {
+    throw new BackupError("The backup file is damaged or incomplete");
+  }
+
+  const newline = bytes.indexOf(0x0a);
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(bytes.subarray(0, newline < 0 ? bytes.length : newline)));
+  } catch {
+    throw new BackupError("The backup file has no readable manifest");
+  }
+  if (manifest?.format !== "swbak" || newline < 0) throw new BackupError("This is not a shop backup file");
+  if (manifest.format_version > FORMAT_VERSION || manifest.schema_version > LATEST_VERSION) {
+    throw new BackupError(`This backup was made by a newer version of the app (${manifest.app_version}). Update the app to restore it.`);
+  }
+
+  // Format 1 files predate incrementals: always full, and without an id
+  manifest = { ...manifest, kind: manifest.kind ?? "full", id: manifest.id ?? manifest.checksum };
+
+  const payload = bytes.subarray(newline + 1);
+  if (payload.byteLength !== manifest.bytes) throw new BackupError("The backup file is incomplete");
+  if ((await sha256(payload)) !== manifest.checksum) throw new BackupError("The backup file is corrupt (checksum mismatch)");
+
+  let json = payload;
+  if (manifest.encryption) {
+    if (!passphrase) throw new BackupLockedError();
+    json = await openPayload(payload, manifest.encryption, passphrase);
+  }
+
+  let bundle: BackupBundle;
+  try {
+    bundle = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new BackupError("The backup data could not be read");
+  }
+  const counts = countsOf(bundle);
+  const wrong = BACKUP_STORES.find(store => counts[store] !== (manifest.counts[store] ?? 0));
+  if (wrong) throw new BackupError(`The backup has ${counts[wrong]} ${wrong} records but its manifest lists ${manifest.counts[wrong]}`);
+
+  return { manifest, bundle };
+}
+
+/**
+ * Just the manifest, without decompressing the rest of the file or checking
+ * it. Enough to chain the next incremental onto a backup already written.
+ */
+export async function readManifest(file: Blob): Promise<BackupManifest> {
+  const reader = file.stream().pipeThrough(new DecompressionStream("gzip")).getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  try {
+    while (!text.includes("\n")) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value, { stream: true });
+    }
+  } catch {
+    throw new BackupError("The backup file is damaged or incomplete");
+  } finally {
+    void reader.cancel().catch(() => undefined);
+  }
+  try {
+    const manifest = JSON.parse(text.slice(0, text.indexOf("\n"))) as BackupManifest;
+    if (manifest?.format !== "swbak") throw new Error();
+    return { ...manifest, kind: manifest.kind ?? "full", id: manifest.id ?? manifest.checksum };
+  } catch {
+    throw new BackupError("This is not a shop backup file");
+  }
+}
+
+/**
+ * Folds a full backup and the incrementals after it into one full bundle, as
+ * if it had been taken when the newest of them was. The files can come in any
+ * order; each incremental must continue from another of them, back to exactly
+ * one full backup, with no gaps or forks.
+ */
+export function mergeBackupChain(backups: { manifest: BackupManifest; bundle: BackupBundle }[]): { manifest: BackupManifest; bundle: BackupBundle } {
+  const fulls = backups.filter(b => b.manifest.kind === "full");
+  if (fulls.length !== 1) {
+    throw new BackupError(fulls.length ? "Pick only one full backup" : "Incremental backups need the full backup they start from");
+  }
+  const byParent = new Map<string, { manifest: BackupManifest; bundle: BackupBundle }>();
+  for (const b of backups) {
+    if (b.manifest.kind !== "incremental") continue;
+    if (byParent.has(b.manifest.parent_id ?? "")) throw new BackupError("Two of these incrementals continue from the same backup");
+    byParent.set(b.manifest.parent_id ?? "", b);
+  }
+
+  let current = fulls[0];
+  const bundle = JSON.parse(JSON.stringify(current.bundle)) as BackupBundle;
+  for (let next = byParent.get(current.manifest.id); next; next = byParent.get(current.manifest.id)) {
+    byParent.delete(current.manifest.id);
+    for (const store of BACKUP_STORES) {
+      const gone = new Set(next.bundle.deleted?.[store] ?? []);
+      const changed = new Map(((next.bundle[store] ?? []) as { id: string }[]).map(r => [r.id, r] as const));
+      const kept = ((bundle[store] ?? []) as { id: string }[]).filter(r => !gone.has(r.id) && !changed.has(r.id));
+      (bundle as unknown as Record<BackupStore, unknown[]>)[store] = [...kept, ...changed.values()];
+    }
+    bundle.generated_at = next.bundle.generated_at;
+    current = next;
+  }
+  if (byParent.size) throw new BackupError("Some incrementals don't follow on from the others; a backup in the chain is missing");
+  return { manifest: current.manifest, bundle };
+}
+
+// Incrementals are marked in the name so retention can keep whole chains
+// without opening files; the timestamp keeps names in time order
+export const backupFileName = (date = new Date(), kind: BackupManifest["kind"] = "full") =>
+  `shop_backup_${date.toISOString().slice(0, 19).replace(/[T:]/g, "-")}${kind === "incremental" ? "_inc" : ""}${BACKUP_EXTENSION}`;
+
+export const isIncrementalName = (name: string) => name.endsWith(`_inc${BACKUP_EXTENSION}`);
+
+/** Builds a backup of everything and hands it to the browser as a download, encrypted with `sealing` when given. */
+export async function downloadBackup(storage: StorageService, sealing: BackupSealing | null = null) {
+  const bundle = await aggregateAllData(storage);
+  const blob = await compressBackup(bundle, null, sealing);
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = backupFileName(new Date(bundle.generated_at));
+  a.click();
+  // Revoked once the browser has started the download; right away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return { bundle, size: blob.size };
 }
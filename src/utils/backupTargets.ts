@@ -0,0 +1,136 @@
+import { BACKUP_EXTENSION, isIncrementalName } from "@/utils/backup";
+import type { BackupPreferences } from "@/types/business";
+
+export type BackupDestination = NonNullable<BackupPreferences["destination"]>;
+
+export interface StoredBackup {
+  name: string;
+  size: number;
+  modified: number; // ms since epoch
+  incremental: boolean;
+}
+
+/**
+ * Somewhere scheduled backups are written: a directory in the origin private
+ * file system, or a folder the user picked. Only files named like
+ * `backupFileName()` output are listed or pruned; anything else in a picked
+ * folder is left alone.
+ */
+export class BackupTarget {
+  constructor(readonly label: string, private directory: () => Promise<FileSystemDirectoryHandle>) {}
+
+  async write(name: string, blob: Blob) {
+    const dir = await this.directory();
+    const file = await dir.getFileHandle(name, { create: true });
+    const writable = await file.createWritable();
+    try {
+      await writable.write(blob);
+      await writable.close();
+    } catch (e) {
+      await writable.abort().catch(() => undefined);
+      throw e;
+    }
+  }
+
+  /** Newest first. */
+  async list(): Promise<StoredBackup[]> {
+    const dir = await this.directory();
+    const found: StoredBackup[] = [];
+    for await (const handle of dir.values()) {
+      if (handle.kind !== "file" || !isBackupName(handle.name)) continue;
+      const file = await (handle as FileSystemFileHandle).getFile();
+      found.push({ name: handle.name, size: file.size, modified: file.lastModified, incremental: isIncrementalName(handle.name) });
+    }
+    return found.sort((a, b) => b.name.localeCompare(a.name));
+  }
+
+  async read(name: string): Promise<File> {
+    const dir = await this.directory();
+    return (await dir.getFileHandle(name)).getFile();
+  }
+
+  /** `name` and the backups it builds on, back to the full one it starts from; oldest first. */
+  async chain(name: string) {
+    const all = await this.list();
+    const start = all.findIndex(b => b.name === name);
+    if (start < 0) throw new Error(`${name} is no longer there`);
+    const end = all.findIndex((b, i) => i >= start && !b.incremental);
+    if (end < 0) throw new Error("The full backup this one builds on has been deleted");
+    return all.slice(start, end + 1).reverse();
+  }
+
+  /**
+   * Deletes all but the newest `keep` backups; returns how many went. Keeps
+   * going back past `keep` to the full backup the oldest kept incremental
+   * needs, so every kept backup can still be restored.
+   */
+  async prune(keep: number) {
+    const dir = await this.directory();
+    const all = await this.list();
+    let cut = Math.max(keep, 1);
+    while (cut < all.length && all[cut - 1].incremental) cut++;
+    const stale = all.slice(cut);
+    for (const backup of stale) await dir.removeEntry(backup.name);
+    return stale.length;
+  }
+}
+
+// backupFileName() timestamps sort lexicographically, oldest first
+const isBackupName = (name: string) => name.startsWith("shop_backup_") && name.endsWith(BACKUP_EXTENSION);
+
+export const opfsBackupsSupported = () =>
+  typeof navigator !== "undefined" && typeof navigator.storage?.getDirectory === "function";
+
+export const folderBackupsSupported = () => typeof window !== "undefined" && typeof window.showDirectoryPicker === "function";
+
+/** Backups kept in this browser's private storage, one directory per database. */
+export function opfsTarget(dbName: string) {
+  return new BackupTarget("this device", async () => {
+    const root = await navigator.storage.getDirectory();
+    const backups = await root.getDirectoryHandle("backups", { create: true });
+    return backups.getDirectoryHandle(dbName, { create: true });
+  });
+}
+
+/**
+ * Backups written to a folder the user picked. Browsers ask again for access
+ * after a restart, and that prompt needs a click, so a scheduled run fails
+ * until `grantFolderAccess` is called from one.
+ */
+export function folderTarget(handle: FileSystemDirectoryHandle) {
+  return new BackupTarget(handle.name, async () => {
+    if ((await handle.queryPermission({ mode: "readwrite" })) !== "granted") {
+      throw new Error(`Allow access to the "${handle.name}" folder again to keep backing up there`);
+    }
+    return handle;
+  });
+}
+
+export async function grantFolderAccess(handle: FileSystemDirectoryHandle) {
+  return (await handle.requestPermission({ mode: "readwrite" })) === "granted";
+}
+
+// Directory handles can't go in localStorage or the shop database (which may
+// not be IndexedDB), so they're kept in a small IndexedDB database of their own
+const HANDLE_DB = "shop_backup_folders";
+const HANDLE_STORE = "folders";
+
+function handleRequest<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(HANDLE_DB, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(HANDLE_STORE);
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const db = open.result;
+      const request = fn(db.transaction(HANDLE_STORE, mode).objectStore(HANDLE_STORE));
+      request.onsuccess = () => { db.close(); resolve(request.result as T); };
+      request.onerror = () => { db.close(); reject(request.error); };
+    };
+  });
+}
+
+export const loadBackupFolder = (dbName: string) =>
+  handleRequest<FileSystemDirectoryHandle | undefined>("readonly", (store) => store.get(dbName));
+
+export const saveBackupFolder = (dbName: string, handle: FileSystemDirectoryHandle) =>
+  handleRequest<IDBValidKey>("readwrite", (store) => store.put(handle, dbName));
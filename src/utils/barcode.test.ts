@@ -0,0 +1,66 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { barcodeWidths, decodeImageData, ean13CheckDigit, generateInternalEan13, isValidEan13 } from "@/utils/barcode";
+
+// The fixtures are greyscale PGM (P5) stills: fractional module widths, blur,
+// a shadow across the label and pixel noise, like a phone camera frame
+function loadPgm(name: string): ImageData {
+  const file = readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url));
+  const [, width, height] = /^P5\s+(\d+)\s+(\d+)\s+255\s/.exec(file.toString("latin1", 0, 32))!.map(Number);
+  const pixels = file.subarray(file.length - width * height);
+  const data = new Uint8ClampedArray(width * height * 4);
+  pixels.forEach((v, i) => data.set([v, v, v, 255], i * 4));
+  return { width, height, data, colorSpace: "srgb" } as ImageData;
+}
+
+// A clean render of `code` at `module` pixels per bar width
+function render(code: string, module = 3, quiet = 10): ImageData {
+  const { widths } = barcodeWidths(code);
+  const row: number[] = Array(quiet * module).fill(255);
+  widths.forEach((w, i) => row.push(...Array(w * module).fill(i % 2 === 0 ? 0 : 255)));
+  row.push(...Array(quiet * module).fill(255));
+  const height = 20;
+  const data = new Uint8ClampedArray(row.length * height * 4);
+  for (let y = 0; y < height; y++) row.forEach((v, x) => data.set([v, v, v, 255], (y * row.length + x) * 4));
+  return { width: row.length, height, data, colorSpace: "srgb" } as ImageData;
+}
+
+describe("decodeImageData", () => {
+  it("reads an EAN-13 still", () => {
+    expect(decodeImageData(loadPgm("ean13.pgm"))).toEqual({ format: "ean_13", text: "5901234123457" });
+  });
+
+  it("reads a UPC-A still held upside down", () => {
+    expect(decodeImageData(loadPgm("upca-upside-down.pgm"))).toEqual({ format: "upc_a", text: "036000291452" });
+  });
+
+  it("reads a Code 128 still with mixed case", () => {
+    expect(decodeImageData(loadPgm("code128.pgm"))).toEqual({ format: "code_128", text: "SKU-42-Ab" });
+  });
+
+  it("reads back what labels print", () => {
+    const internal = generateInternalEan13();
+    expect(decodeImageData(render(internal))).toEqual({ format: "ean_13", text: internal });
+    expect(decodeImageData(render("Code 128 / b", 2))).toEqual({ format: "code_128", text: "Code 128 / b" });
+  });
+
+  it("finds nothing in a blank or flat image", () => {
+    const blank = render("", 1, 40);
+    blank.data.fill(255);
+    expect(decodeImageData(blank)).toBeNull();
+  });
+});
+
+describe("EAN-13 check digits", () => {
+  it("computes and validates the check digit", () => {
+    expect(ean13CheckDigit("590123412345")).toBe("7");
+    expect(isValidEan13("5901234123457")).toBe(true);
+    expect(isValidEan13("5901234123458")).toBe(false);
+  });
+
+  it("generates internal codes in the restricted 20 range", () => {
+    const code = generateInternalEan13();
+    expect(code).toMatch(/^20\d{11}$/);
+    expect(isValidEan13(code)).toBe(true);
+  });
+});
@@ -0,0 +1,287 @@
+// 1D barcode decoding (EAN-13, UPC-A, Code 128) from still images / video frames.
+// Works on plain ImageData so it can be exercised without a camera.
+
+export type BarcodeFormat = "ean_13" | "upc_a" | "code_128";
+
+export interface DecodedBarcode {
+  format: BarcodeFormat;
+  text: string;
+}
+
+// ---- EAN-13 / UPC-A ------------------------------------------------------
+
+// Module widths of the L-code digits (space, bar, space, bar). R-codes use the
+// same widths with colours swapped; G-codes are the L widths reversed.
+const EAN_L: number[][] = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2],
+];
+const EAN_G = EAN_L.map(p => [...p].reverse());
+
+// L/G parity of the six left digits encodes the leading (13th) digit
+const EAN_FIRST_DIGIT = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+export function ean13CheckDigit(first12: string) {
+  const sum = first12.split("").reduce((s, d, i) => s + Number(d) * (i % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+export function isValidEan13(code: string) {
+  return /^\d{13}$/.test(code) && ean13CheckDigit(code.slice(0, 12)) === code[12];
+}
+
+// Average per-module deviation of `runs` from `pattern`, after scaling runs to
+// the pattern's total width
+function patternError(runs: number[], pattern: number[]) {
+  const total = runs.reduce((s, r) => s + r, 0);
+  const modules = pattern.reduce((s, p) => s + p, 0);
+  const unit = total / modules;
+  let err = 0;
+  for (let i = 0; i < pattern.length; i++) err += Math.abs(runs[i] / unit - pattern[i]);
+  return err / pattern.length;
+}
+
+function bestMatch(runs: number[], patterns: number[][], maxError: number) {
+  let best = -1;
+  let bestErr = maxError;
+  patterns.forEach((p, i) => {
+    const e = patternError(runs, p);
+    if (e < bestErr) { bestErr = e; best = i; }
+  });
+  return best;
+}
+
+const MAX_GUARD_ERROR = 0.5;
+const MAX_DIGIT_ERROR = 0.45;
+
+// `runs` alternates bar/space starting with a bar at `start`
+function decodeEanAt(runs: number[], start: number): string | null {
+  if (start + 59 > runs.length) return null;
+  if (patternError(runs.slice(start, start + 3), [1, 1, 1]) > MAX_GUARD_ERROR) return null;
+
+  let i = start + 3;
+  let digits = "";
+  let parity = "";
+  for (let d = 0; d < 6; d++, i += 4) {
+    const seg = runs.slice(i, i + 4);
+    const l = bestMatch(seg, EAN_L, MAX_DIGIT_ERROR);
+    const g = bestMatch(seg, EAN_G, MAX_DIGIT_ERROR);
+    if (l < 0 && g < 0) return null;
+    const useL = g < 0 || (l >= 0 && patternError(seg, EAN_L[l]) <= patternError(seg, EAN_G[g]));
+    digits += String(useL ? l : g);
+    parity += useL ? "L" : "G";
+  }
+
+  if (patternError(runs.slice(i, i + 5), [1, 1, 1, 1, 1]) > MAX_GUARD_ERROR) return null;
+  i += 5;
+
+  for (let d = 0; d < 6; d++, i += 4) {
+    const r = bestMatch(runs.slice(i, i + 4), EAN_L, MAX_DIGIT_ERROR);
+    if (r < 0) return null;
+    digits += String(r);
+  }
+  if (patternError(runs.slice(i, i + 3), [1, 1, 1]) > MAX_GUARD_ERROR) return null;
+
+  const first = EAN_FIRST_DIGIT.indexOf(parity);
+  if (first < 0) return null;
+  const code = `${first}${digits}`;
+  return isValidEan13(code) ? code : null;
+}
+
+// ---- Code 128 ------------------------------------------------------------
+
+// Bar/space module widths for symbol values 0-105; 106 is the stop pattern
+const CODE128: number[][] = [
+  [2, 1, 2, 2, 2, 2], [2, 2, 2, 1, 2, 2], [2, 2, 2, 2, 2, 1], [1, 2, 1, 2, 2, 3], [1, 2, 1, 3, 2, 2],
+  [1, 3, 1, 2, 2, 2], [1, 2, 2, 2, 1, 3], [1, 2, 2, 3, 1, 2], [1, 3, 2, 2, 1, 2], [2, 2, 1, 2, 1, 3],
+  [2, 2, 1, 3, 1, 2], [2, 3, 1, 2, 1, 2], [1, 1, 2, 2, 3, 2], [1, 2, 2, 1, 3, 2], [1, 2, 2, 2, 3, 1],
+  [1, 1, 3, 2, 2, 2], [1, 2, 3, 1, 2, 2], [1, 2, 3, 2, 2, 1], [2, 2, 3, 2, 1, 1], [2, 2, 1, 1, 3, 2],
+  [2, 2, 1, 2, 3, 1], [2, 1, 3, 2, 1, 2], [2, 2, 3, 1, 1, 2], [3, 1, 2, 1, 3, 1], [3, 1, 1, 2, 2, 2],
+  [3, 2, 1, 1, 2, 2], [3, 2, 1, 2, 2, 1], [3, 1, 2, 2, 1, 2], [3, 2, 2, 1, 1, 2], [3, 2, 2, 2, 1, 1],
+  [2, 1, 2, 1, 2, 3], [2, 1, 2, 3, 2, 1], [2, 3, 2, 1, 2, 1], [1, 1, 1, 3, 2, 3], [1, 3, 1, 1, 2, 3],
+  [1, 3, 1, 3, 2, 1], [1, 1, 2, 3, 1, 3], [1, 3, 2, 1, 1, 3], [1, 3, 2, 3, 1, 1], [2, 1, 1, 3, 1, 3],
+  [2, 3, 1, 1, 1, 3], [2, 3, 1, 3, 1, 1], [1, 1, 2, 1, 3, 3], [1, 1, 2, 3, 3, 1], [1, 3, 2, 1, 3, 1],
+  [1, 1, 3, 1, 2, 3], [1, 1, 3, 3, 2, 1], [1, 3, 3, 1, 2, 1], [3, 1, 3, 1, 2, 1], [2, 1, 1, 3, 3, 1],
+  [2, 3, 1, 1, 3, 1], [2, 1, 3, 1, 1, 3], [2, 1, 3, 3, 1, 1], [2, 1, 3, 1, 3, 1], [3, 1, 1, 1, 2, 3],
+  [3, 1, 1, 3, 2, 1], [3, 3, 1, 1, 2, 1], [3, 1, 2, 1, 1, 3], [3, 1, 2, 3, 1, 1], [3, 3, 2, 1, 1, 1],
+  [3, 1, 4, 1, 1, 1], [2, 2, 1, 4, 1, 1], [4, 3, 1, 1, 1, 1], [1, 1, 1, 2, 2, 4], [1, 1, 1, 4, 2, 2],
+  [1, 2, 1, 1, 2, 4], [1, 2, 1, 4, 2, 1], [1, 4, 1, 1, 2, 2], [1, 4, 1, 2, 2, 1], [1, 1, 2, 2, 1, 4],
+  [1, 1, 2, 4, 1, 2], [1, 2, 2, 1, 1, 4], [1, 2, 2, 4, 1, 1], [1, 4, 2, 1, 1, 2], [1, 4, 2, 2, 1, 1],
+  [2, 4, 1, 2, 1, 1], [2, 2, 1, 1, 1, 4], [4, 1, 3, 1, 1, 1], [2, 4, 1, 1, 1, 2], [1, 3, 4, 1, 1, 1],
+  [1, 1, 1, 2, 4, 2], [1, 2, 1, 1, 4, 2], [1, 2, 1, 2, 4, 1], [1, 1, 4, 2, 1, 2], [1, 2, 4, 1, 1, 2],
+  [1, 2, 4, 2, 1, 1], [4, 1, 1, 2, 1, 2], [4, 2, 1, 1, 1, 2], [4, 2, 1, 2, 1, 1], [2, 1, 2, 1, 4, 1],
+  [2, 1, 4, 1, 2, 1], [4, 1, 2, 1, 2, 1], [1, 1, 1, 1, 4, 3], [1, 1, 1, 3, 4, 1], [1, 3, 1, 1, 4, 1],
+  [1, 1, 4, 1, 1, 3], [1, 1, 4, 3, 1, 1], [4, 1, 1, 1, 1, 3], [4, 1, 1, 3, 1, 1], [1, 1, 3, 1, 4, 1],
+  [1, 1, 4, 1, 3, 1], [3, 1, 1, 1, 4, 1], [4, 1, 1, 1, 3, 1], [2, 1, 1, 4, 1, 2], [2, 1, 1, 2, 1, 4],
+  [2, 1, 1, 2, 3, 2], [2, 3, 3, 1, 1, 1, 2],
+];
+const C128_SYMBOLS = CODE128.map(p => p.slice(0, 6));
+const C128_START_A = 103;
+const C128_START_B = 104;
+const C128_START_C = 105;
+const C128_STOP = 106;
+const MAX_C128_ERROR = 0.4;
+
+function decodeCode128At(runs: number[], start: number): string | null {
+  const startValue = bestMatch(runs.slice(start, start + 6), C128_SYMBOLS, MAX_C128_ERROR);
+  if (startValue < C128_START_A || startValue > C128_START_C) return null;
+
+  const values: number[] = [];
+  let i = start + 6;
+  for (;;) {
+    if (i + 6 > runs.length) return null;
+    const v = bestMatch(runs.slice(i, i + 6), C128_SYMBOLS, MAX_C128_ERROR);
+    if (v < 0) return null;
+    i += 6;
+    if (v === C128_STOP) break;
+    if (v >= C128_START_A) return null;
+    values.push(v);
+  }
+  if (values.length < 2) return null;
+
+  const check = values.pop()!;
+  const sum = values.reduce((s, v, idx) => s + v * (idx + 1), startValue);
+  if (sum % 103 !== check) return null;
+
+  let set: "A" | "B" | "C" = startValue === C128_START_A ? "A" : startValue === C128_START_B ? "B" : "C";
+  let shift = false;
+  let text = "";
+  for (const v of values) {
+    const active = shift ? (set === "A" ? "B" : "A") : set;
+    shift = false;
+    if (active === "C") {
+      if (v < 100) { text += String(v).padStart(2, "0"); continue; }
+    } else if (v < 96) {
+      if (active === "A") text += String.fromCharCode(v < 64 ? v + 32 : v - 64);
+      else text += String.fromCharCode(v + 32);
+      continue;
+    }
+    // Function symbols: 98 shift, 99/100/101 code set changes, others (FNC) ignored
+    if (v === 98 && active !== "C") shift = true;
+    else if (v === 99) set = "C";
+    else if (v === 100 && active !== "B") set = "B";
+    else if (v === 101 && active !== "A") set = "A";
+  }
+  return text || null;
+}
+
+// ---- Image scanning -------------------------------------------------------
+
+// Run lengths of one row, starting at the first dark pixel (so runs[0] is a bar)
+function rowRuns(lum: Float32Array): number[] {
+  let min = 255;
+  let max = 0;
+  for (const v of lum) { if (v < min) min = v; if (v > max) max = v; }
+  if (max - min < 40) return [];
+  const threshold = (min + max) / 2;
+
+  const runs: number[] = [];
+  let x = 0;
+  while (x < lum.length && lum[x] >= threshold) x++;
+  let dark = true;
+  let len = 0;
+  for (; x < lum.length; x++) {
+    const isDark = lum[x] < threshold;
+    if (isDark === dark) {
+      len++;
+    } else {
+      runs.push(len);
+      dark = isDark;
+      len = 1;
+    }
+  }
+  if (dark) runs.push(len);
+  return runs;
+}
+
+function decodeRuns(runs: number[]): DecodedBarcode | null {
+  for (let s = 0; s < runs.length; s += 2) {
+    const ean = decodeEanAt(runs, s);
+    if (ean) return ean.startsWith("0") ? { format: "upc_a", text: ean.slice(1) } : { format: "ean_13", text: ean };
+    const c128 = decodeCode128At(runs, s);
+    if (c128) return { format: "code_128", text: c128 };
+  }
+  return null;
+}
+
+/**
+ * Looks for an EAN-13, UPC-A or Code 128 symbol along a spread of horizontal
+ * scanlines, in both directions so upside-down codes read too.
+ */
+export function decodeImageData(image: ImageData, scanlines = 15): DecodedBarcode | null {
+  const { width, height, data } = image;
+  const lum = new Float32Array(width);
+  const reversed = new Float32Array(width);
+
+  for (let n = 1; n <= scanlines; n++) {
+    const y = Math.floor((height * n) / (scanlines + 1));
+    const row = y * width * 4;
+    for (let x = 0; x < width; x++) {
+      const p = row + x * 4;
+      lum[x] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+      reversed[width - 1 - x] = lum[x];
+    }
+    const hit = decodeRuns(rowRuns(lum)) ?? decodeRuns(rowRuns(reversed));
+    if (hit) return hit;
+  }
+  return null;
+}
+
+let scratch: HTMLCanvasElement | null = null;
+
+/** Decodes straight from an <img>, <video> frame or canvas. */
+export function decodeImage(source: CanvasImageSource & { width?: number; height?: number; videoWidth?: number; videoHeight?: number }): DecodedBarcode | null {
+  const width = source.videoWidth || source.width || 0;
+  const height = source.videoHeight || source.height || 0;
+  if (!width || !height) return null;
+
+  scratch = scratch ?? document.createElement("canvas");
+  scratch.width = width;
+  scratch.height = height;
+  const ctx = scratch.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, width, height);
+  return decodeImageData(ctx.getImageData(0, 0, width, height));
+}
+
+// ---- Encoding (for printed labels) ----------------------------------------
+
+// Internal codes use the GS1 "restricted circulation" prefix 20, which is
+// never assigned to manufacturers, so they can't collide with a real product.
+const INTERNAL_EAN_PREFIX = "20";
+
+export function generateInternalEan13() {
+  const digits = Array.from(globalThis.crypto.getRandomValues(new Uint8Array(10)), b => String(b % 10)).join("");
+  const first12 = `${INTERNAL_EAN_PREFIX}${digits}`;
+  return first12 + ean13CheckDigit(first12);
+}
+
+/** Bar/space module widths (starting with a bar) for an EAN-13 or UPC-A code. */
+function encodeEan13(code: string): number[] {
+  const parity = EAN_FIRST_DIGIT[Number(code[0])];
+  const widths = [1, 1, 1];
+  for (let i = 1; i <= 6; i++) {
+    widths.push(...(parity[i - 1] === "L" ? EAN_L : EAN_G)[Number(code[i])]);
+  }
+  widths.push(1, 1, 1, 1, 1);
+  for (let i = 7; i <= 12; i++) widths.push(...EAN_L[Number(code[i])]);
+  widths.push(1, 1, 1);
+  return widths;
+}
+
+/** Code 128 (set B) widths; characters outside printable ASCII are dropped. */
+function encodeCode128(text: string): number[] {
+  const values = [...text].map(c => c.charCodeAt(0) - 32).filter(v => v >= 0 && v < 96);
+  const check = values.reduce((s, v, i) => s + v * (i + 1), C128_START_B) % 103;
+  return [C128_START_B, ...values, check, C128_STOP].flatMap(v => CODE128[v]);
+}
+
+/**
+ * Picks the symbology a label should print for `code`: EAN-13 (or UPC-A,
+ * printed as its EAN-13 form) when the digits check out, Code 128 otherwise.
+ */
+export function barcodeWidths(code: string): { format: BarcodeFormat; widths: number[] } {
+  if (isValidEan13(code)) return { format: "ean_13", widths: encodeEan13(code) };
+  if (isValidEan13(`0${code}`)) return { format: "upc_a", widths: encodeEan13(`0${code}`) };
+  return { format: "code_128", widths: encodeCode128(code) };
+}
@@ -0,0 +1,49 @@
+import { jsPDF } from "jspdf";
+import type { Product } from "@/types/business";
+import { barcodeWidths } from "@/utils/barcode";
+
+// A4 sheet of 3 × 8 labels (63.5 × 33.9 mm, the common 24-up stock)
+const SHEET = { cols: 3, rows: 8, labelW: 63.5, labelH: 33.9, marginX: 7.2, marginY: 12.9, gapX: 2.5 };
+
+function drawBarcode(doc: jsPDF, code: string, x: number, y: number, maxWidth: number, height: number) {
+  const { widths } = barcodeWidths(code);
+  const modules = widths.reduce((s, w) => s + w, 0);
+  const unit = Math.min(maxWidth / modules, 0.4);
+  let cx = x + (maxWidth - modules * unit) / 2;
+  widths.forEach((w, i) => {
+    if (i % 2 === 0) doc.rect(cx, y, w * unit, height, "F");
+    cx += w * unit;
+  });
+}
+
+/**
+ * Builds a printable sheet of shelf labels: product name, selling price and a
+ * scannable barcode. Products without a barcode are skipped, so callers should
+ * assign internal codes first.
+ */
+export function printShelfLabels(products: Product[], copies = 1) {
+  const labelled = products.filter(p => p.barcode).flatMap(p => Array<Product>(copies).fill(p));
+  if (labelled.length === 0) throw new Error("No products with a barcode to print");
+
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const perPage = SHEET.cols * SHEET.rows;
+
+  labelled.forEach((product, n) => {
+    if (n > 0 && n % perPage === 0) doc.addPage();
+    const slot = n % perPage;
+    const x = SHEET.marginX + (slot % SHEET.cols) * (SHEET.labelW + SHEET.gapX);
+    const y = SHEET.marginY + Math.floor(slot / SHEET.cols) * SHEET.labelH;
+    const pad = 3;
+
+    doc.setFontSize(9);
+    doc.text(doc.splitTextToSize(product.name, SHEET.labelW - pad * 2)[0], x + pad, y + pad + 3);
+    doc.setFontSize(13);
+    doc.text(`KSh ${product.selling_price.toFixed(2)}`, x + pad, y + pad + 9);
+
+    drawBarcode(doc, product.barcode!, x + pad, y + 14, SHEET.labelW - pad * 2, 12);
+    doc.setFontSize(7);
+    doc.text(product.barcode!, x + SHEET.labelW / 2, y + 29.5, { align: "center" });
+  });
+
+  doc.save(`shelf_labels_${new Date().toISOString().slice(0, 10)}.pdf`);
+}
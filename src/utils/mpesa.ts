@@ -0,0 +1,135 @@
+import type { Sale, Tender, UUID } from "@/types/business";
+
+// A money-in line from an M-Pesa (till / paybill) statement export
+export interface MpesaPayment {
+  transaction_code: string;
+  completed_at: string; // ISO
+  amount: number;
+  details: string; // payer name / number as printed on the statement
+}
+
+export interface MpesaMatch {
+  payment: MpesaPayment;
+  sale_id: UUID;
+  receipt_number?: string | null;
+  tender_index: number;
+  by: "code" | "amount_time";
+}
+
+export interface MpesaReconciliation {
+  matched: MpesaMatch[];
+  unmatched_payments: MpesaPayment[]; // money received with no sale behind it
+  unpaid_sales: Array<{ sale_id: UUID; receipt_number?: string | null; tender_index: number; amount: number; date: string }>;
+}
+
+// Splits one CSV line, honouring double-quoted fields
+function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') { cur += '"'; i++; }
+      else quoted = !quoted;
+    } else if (ch === "," && !quoted) {
+      out.push(cur.trim());
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+function parseAmount(value: string | undefined) {
+  const n = parseFloat((value ?? "").replace(/[^0-9.-]/g, ""));
+  return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * Reads the CSV export of an M-Pesa statement. Column names differ slightly
+ * between statement types, so each field is located by a few known headers.
+ * Only completed, money-in rows are returned.
+ */
+export function parseMpesaStatement(csv: string): MpesaPayment[] {
+  const lines = csv.split(/\r?\n/).filter(l => l.trim());
+  const headerIndex = lines.findIndex(l => /receipt\s*no|transaction\s*id/i.test(l));
+  if (headerIndex < 0) throw new Error("Not an M-Pesa statement: no receipt number column");
+
+  const header = splitCsvLine(lines[headerIndex]).map(h => h.toLowerCase().replace(/[^a-z]/g, ""));
+  const col = (...names: string[]) => header.findIndex(h => names.includes(h));
+  const codeCol = col("receiptno", "transactionid", "receiptnumber");
+  const timeCol = col("completiontime", "transactiondate", "date", "time");
+  const amountCol = col("paidin", "amount", "credit");
+  const statusCol = col("transactionstatus", "status");
+  const detailsCol = col("otherpartyinfo", "details", "description");
+  if (timeCol < 0 || amountCol < 0) throw new Error("Statement is missing a time or amount column");
+
+  const payments: MpesaPayment[] = [];
+  for (const line of lines.slice(headerIndex + 1)) {
+    const cells = splitCsvLine(line);
+    const code = (cells[codeCol] ?? "").toUpperCase();
+    const amount = parseAmount(cells[amountCol]);
+    const status = statusCol >= 0 ? (cells[statusCol] ?? "").toLowerCase() : "completed";
+    const time = new Date(cells[timeCol] ?? "");
+    if (!code || amount <= 0 || !status.startsWith("completed") || Number.isNaN(time.getTime())) continue;
+    payments.push({
+      transaction_code: code,
+      completed_at: time.toISOString(),
+      amount,
+      details: detailsCol >= 0 ? cells[detailsCol] ?? "" : "",
+    });
+  }
+  return payments;
+}
+
+/**
+ * Pairs statement payments with the mpesa tenders of `sales`. A tender that
+ * already carries a transaction code matches on it; the rest match on exact
+ * amount within `windowMinutes`, closest time first.
+ */
+export function reconcileMpesa(sales: Sale[], payments: MpesaPayment[], windowMinutes = 15): MpesaReconciliation {
+  const tenders = sales
+    .filter(s => s.status !== "voided")
+    .flatMap(s => (s.tenders ?? [{ method: s.payment_method, amount: s.total_amount } as Tender]).map((t, i) => ({ sale: s, tender: t, index: i })))
+    .filter(x => x.tender.method === "mpesa");
+
+  const matched: MpesaMatch[] = [];
+  const usedTenders = new Set<string>();
+  const usedPayments = new Set<string>();
+  const key = (x: { sale: Sale; index: number }) => `${x.sale.id}:${x.index}`;
+
+  for (const x of tenders) {
+    const code = x.tender.mpesa?.transaction_code;
+    const payment = code ? payments.find(p => p.transaction_code === code) : undefined;
+    if (!payment) continue;
+    matched.push({ payment, sale_id: x.sale.id, receipt_number: x.sale.receipt?.number, tender_index: x.index, by: "code" });
+    usedTenders.add(key(x));
+    usedPayments.add(payment.transaction_code);
+  }
+
+  const windowMs = windowMinutes * 60 * 1000;
+  for (const payment of payments) {
+    if (usedPayments.has(payment.transaction_code)) continue;
+    const paidAt = new Date(payment.completed_at).getTime();
+    const best = tenders
+      .filter(x => !usedTenders.has(key(x)) && Math.abs(x.tender.amount - payment.amount) < 0.005)
+      .map(x => ({ x, gap: Math.abs(new Date(x.sale.date).getTime() - paidAt) }))
+      .filter(c => c.gap <= windowMs)
+      .sort((a, b) => a.gap - b.gap)[0];
+    if (!best) continue;
+    matched.push({ payment, sale_id: best.x.sale.id, receipt_number: best.x.sale.receipt?.number, tender_index: best.x.index, by: "amount_time" });
+    usedTenders.add(key(best.x));
+    usedPayments.add(payment.transaction_code);
+  }
+
+  return {
+    matched,
+    unmatched_payments: payments.filter(p => !usedPayments.has(p.transaction_code)),
+    unpaid_sales: tenders
+      .filter(x => !usedTenders.has(key(x)))
+      .map(x => ({ sale_id: x.sale.id, receipt_number: x.sale.receipt?.number, tender_index: x.index, amount: x.tender.amount, date: x.sale.date })),
+  };
+}
@@ -0,0 +1,12 @@
+import type { PaymentMethod } from "@/types/business";
+
+export const PAYMENT_METHODS: PaymentMethod[] = ["cash", "mpesa", "card", "other"];
+
+export function paymentMethodLabel(method: PaymentMethod) {
+  switch (method) {
+    case "cash": return "Cash";
+    case "mpesa": return "M-Pesa";
+    case "card": return "Card";
+    default: return "Other";
+  }
+}
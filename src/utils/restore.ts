@@ -0,0 +1,158 @@
+import { StorageService, validate, type ServiceResponse } from "@/storage/StorageService";
+import { STOCK_LOCK } from "@/storage/locks";
+import { diffRecords } from "@/storage/audit";
+import { productTokens } from "@/utils/search";
+import { aggregateAllData, BACKUP_STORES, type BackupBundle, type BackupStore } from "@/utils/backup";
+import type { Counter, Product, ProductSearchEntry } from "@/types/business";
+
+// replace: this device ends up exactly as the backup (records it doesn't
+// have are deleted). merge: records are matched by id and the newer
+// `updated_at` wins; anything only on this device is kept.
+export type RestoreMode = "replace" | "merge";
+
+// A record both sides have, edited on both, where the backup's copy isn't
+// clearly newer. Merge keeps this device's copy; replace overwrites it.
+export interface RestoreConflict {
+  id: string;
+  local_updated_at?: string;
+  backup_updated_at?: string;
+}
+
+export interface RestoreStoreSummary {
+  added: number; // only in the backup
+  changed: number; // the backup's copy will be written over this device's
+  unchanged: number;
+  removed: number; // only on this device; replace deletes them
+  conflicts: RestoreConflict[];
+}
+
+export interface InvalidRecord {
+  store: BackupStore;
+  id: string;
+  error: string;
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  stores: Record<BackupStore, RestoreStoreSummary>;
+  invalid: InvalidRecord[]; // a backup with any of these is never applied
+}
+
+type StoredRecord = { id: string; updated_at?: string };
+
+interface StoreDiff {
+  summary: RestoreStoreSummary;
+  writes: StoredRecord[];
+  deletes: string[];
+}
+
+/** Every record in the bundle that fails its store's schema. */
+export function validateBundle(bundle: BackupBundle): InvalidRecord[] {
+  const invalid: InvalidRecord[] = [];
+  for (const store of BACKUP_STORES) {
+    (bundle[store] ?? []).forEach((record: unknown, i) => {
+      const res = validate(store, record);
+      if (!res.success) {
+        const id = (record as { id?: unknown })?.id;
+        invalid.push({ store, id: typeof id === "string" ? id : `#${i + 1}`, error: res.error ?? "Invalid record" });
+      }
+    });
+  }
+  return invalid;
+}
+
+// Counters only ever move forward; the higher one is kept so receipt
+// numbers already handed out on this device are never reissued
+const counterAhead = (a: Counter, b: Counter) =>
+  (a.year ?? 0) !== (b.year ?? 0) ? (a.year ?? 0) > (b.year ?? 0) : a.value > b.value;
+
+function diffStore(store: BackupStore, local: StoredRecord[], backup: StoredRecord[] | undefined, mode: RestoreMode): StoreDiff {
+  const summary: RestoreStoreSummary = { added: 0, changed: 0, unchanged: 0, removed: 0, conflicts: [] };
+  const writes: StoredRecord[] = [];
+  const deletes: string[] = [];
+  const localById = new Map(local.map(r => [r.id, r]));
+
+  for (const record of backup ?? []) {
+    const current = localById.get(record.id);
+    localById.delete(record.id);
+    if (!current) {
+      summary.added++;
+      writes.push(record);
+      continue;
+    }
+    if (!diffRecords(current, record).length) {
+      summary.unchanged++;
+      continue;
+    }
+    if (store === "counters" && mode === "merge") {
+      if (counterAhead(record as unknown as Counter, current as unknown as Counter)) {
+        summary.changed++;
+        writes.push(record);
+      } else {
+        summary.unchanged++;
+      }
+      continue;
+    }
+    const backupNewer = !!record.updated_at && !!current.updated_at && record.updated_at > current.updated_at;
+    if (!backupNewer) summary.conflicts.push({ id: record.id, local_updated_at: current.updated_at, backup_updated_at: record.updated_at });
+    if (backupNewer || mode === "replace") {
+      summary.changed++;
+      writes.push(record);
+    }
+  }
+
+  // A store missing from an older backup format is left alone rather than wiped
+  if (mode === "replace" && backup) {
+    summary.removed = localById.size;
+    deletes.push(...localById.keys());
+  }
+  return { summary, writes, deletes };
+}
+
+const summariesOf = (diffs: Record<BackupStore, StoreDiff>) =>
+  Object.fromEntries(BACKUP_STORES.map(store => [store, diffs[store].summary])) as Record<BackupStore, RestoreStoreSummary>;
+
+/** Dry run: what restoring `bundle` would do to this device, without writing anything. */
+export async function planRestore(storage: StorageService, bundle: BackupBundle, mode: RestoreMode): Promise<RestorePlan> {
+  const local = await aggregateAllData(storage);
+  const diffs = Object.fromEntries(BACKUP_STORES.map(store => [
+    store,
+    diffStore(store, local[store] as StoredRecord[], bundle[store] as StoredRecord[] | undefined, mode),
+  ])) as Record<BackupStore, StoreDiff>;
+  return { mode, stores: summariesOf(diffs), invalid: validateBundle(bundle) };
+}
+
+/**
+ * Applies `bundle` in one transaction across every backed-up store, so a
+ * failure part way leaves this device as it was. The diff is worked out
+ * again inside the transaction; the returned plan is what was actually done.
+ */
+export async function restoreBackup(storage: StorageService, bundle: BackupBundle, mode: RestoreMode): Promise<ServiceResponse<RestorePlan>> {
+  const invalid = validateBundle(bundle);
+  if (invalid.length) {
+    return { success: false, error: `The backup has ${invalid.length} invalid record${invalid.length === 1 ? "" : "s"}; nothing was restored` };
+  }
+
+  return storage.locked(STOCK_LOCK, () => storage.transaction<RestorePlan>([...BACKUP_STORES, "product_search"], async (tx) => {
+    const diffs = {} as Record<BackupStore, StoreDiff>;
+    for (const store of BACKUP_STORES) {
+      diffs[store] = diffStore(store, await tx.getAll<StoredRecord>(store), bundle[store] as StoredRecord[] | undefined, mode);
+    }
+
+    for (const store of BACKUP_STORES) {
+      const { writes, deletes } = diffs[store];
+      for (const id of deletes) {
+        await tx.delete(store, id);
+        if (store === "products") await tx.delete("product_search", id);
+      }
+      for (const record of writes) {
+        await tx.put(store, record);
+        if (store === "products") {
+          const product = record as unknown as Product;
+          await tx.put<ProductSearchEntry>("product_search", { id: product.id, tokens: productTokens(product) });
+        }
+      }
+    }
+    return { mode, stores: summariesOf(diffs), invalid: [] };
+  }));
+}
@@ -0,0 +1,118 @@
+// Tokenising and matching for the product search index. Pure functions, so
+// the same normalisation is used when indexing and when querying.
+
+// Common duka stock, both ways round. Indexing adds the other language's word
+// so "sugar" finds "Sukari 1kg" and "mafuta" finds "Cooking Oil".
+const SYNONYM_PAIRS: Array<[string, string[]]> = [
+  ["sukari", ["sugar"]],
+  ["unga", ["flour", "maize flour"]],
+  ["mafuta", ["oil", "fat"]],
+  ["maziwa", ["milk"]],
+  ["mchele", ["rice"]],
+  ["chumvi", ["salt"]],
+  ["sabuni", ["soap", "detergent"]],
+  ["chai", ["tea"]],
+  ["majani", ["tea leaves"]],
+  ["mkate", ["bread"]],
+  ["maji", ["water"]],
+  ["mayai", ["eggs", "egg"]],
+  ["yai", ["egg"]],
+  ["nyama", ["meat", "beef"]],
+  ["kuku", ["chicken"]],
+  ["samaki", ["fish"]],
+  ["viazi", ["potatoes", "potato"]],
+  ["nyanya", ["tomatoes", "tomato"]],
+  ["vitunguu", ["onions", "onion"]],
+  ["maharagwe", ["beans"]],
+  ["ndizi", ["bananas", "banana"]],
+  ["soda", ["soft drink"]],
+  ["juisi", ["juice"]],
+  ["kiberiti", ["matches"]],
+  ["mshumaa", ["candle", "candles"]],
+  ["dawa", ["medicine"]],
+  ["karatasi", ["paper", "tissue"]],
+  ["mswaki", ["toothbrush"]],
+  ["nazi", ["coconut"]],
+  ["siagi", ["butter"]],
+  ["asali", ["honey"]],
+  ["pilipili", ["pepper", "chilli"]],
+];
+
+const SYNONYMS = new Map<string, Set<string>>();
+for (const [sw, en] of SYNONYM_PAIRS) {
+  const group = [sw, ...en].flatMap(words => words.split(" "));
+  for (const word of group) {
+    const set = SYNONYMS.get(word) ?? new Set<string>();
+    group.filter(w => w !== word).forEach(w => set.add(w));
+    SYNONYMS.set(word, set);
+  }
+}
+
+export function normalize(text: string) {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+export function tokenize(text: string) {
+  return normalize(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+export interface SearchableProduct {
+  name: string;
+  sku: string;
+  barcode?: string | null;
+  category?: string | null;
+}
+
+/** Every token a product should be findable by, synonyms included. */
+export function productTokens(p: SearchableProduct) {
+  const words = [...tokenize(p.name), ...tokenize(p.category ?? "")];
+  const tokens = new Set<string>(words);
+  words.forEach(w => SYNONYMS.get(w)?.forEach(s => tokens.add(s)));
+  // Codes are matched whole (and by their dash-separated parts) so a cashier
+  // can type the start of a SKU or barcode
+  tokens.add(normalize(p.sku).replace(/\s+/g, ""));
+  tokenize(p.sku).forEach(t => tokens.add(t));
+  if (p.barcode) tokens.add(normalize(p.barcode).replace(/\s+/g, ""));
+  return Array.from(tokens);
+}
+
+/** Optimal string alignment distance (Levenshtein plus adjacent swaps), capped at `max + 1`. */
+export function editDistance(a: string, b: string, max = 2) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) rows.push([i]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    let best = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, rows[i - 2][j - 2] + 1);
+      rows[i][j] = d;
+      best = Math.min(best, d);
+    }
+    if (best > max) return max + 1;
+  }
+  return rows[a.length][b.length];
+}
+
+// Typos allowed for a query token of this length
+function allowedTypos(length: number) {
+  if (length < 4) return 0;
+  return length < 8 ? 1 : 2;
+}
+
+/**
+ * How well index token `token` answers query token `q`: 1 exact, 0.8 prefix,
+ * 0.5 within typo distance (of the whole token or of its same-length prefix),
+ * 0 no match.
+ */
+export function tokenScore(q: string, token: string) {
+  if (token === q) return 1;
+  if (token.startsWith(q)) return 0.8;
+  const typos = allowedTypos(q.length);
+  if (typos === 0) return 0;
+  if (editDistance(q, token, typos) <= typos) return 0.5;
+  if (token.length > q.length && editDistance(q, token.slice(0, q.length), typos) <= typos) return 0.5;
+  return 0;
+}
@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+// package.json version, injected by vite.config.ts
+declare const __APP_VERSION__: string;
+
+// File System Access API pieces TypeScript's DOM types don't include yet
+interface FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemHandle>;
+  queryPermission(descriptor?: { mode?: "read" | "readwrite" }): Promise<PermissionState>;
+  requestPermission(descriptor?: { mode?: "read" | "readwrite" }): Promise<PermissionState>;
+}
+
+interface Window {
+  showDirectoryPicker?(options?: { id?: string; mode?: "read" | "readwrite" }): Promise<FileSystemDirectoryHandle>;
+}
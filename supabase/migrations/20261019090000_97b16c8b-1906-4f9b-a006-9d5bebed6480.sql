@@ -0,0 +1,303 @@
+-- Align the schema with the local model: a sale is one row with its lines in
+-- sale_items, and stock movements, staff, settings and receipts get tables of
+-- their own, so the app's outbox can mirror every synced store as it is on the device
+
+-- Staff (first: sales reference it)
+CREATE TABLE IF NOT EXISTS public.staff (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'cashier' CHECK (role IN ('admin', 'manager', 'cashier', 'viewer')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.staff ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff viewable by owner" ON public.staff;
+CREATE POLICY "Staff viewable by owner"
+ON public.staff FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Staff insertable by owner" ON public.staff;
+CREATE POLICY "Staff insertable by owner"
+ON public.staff FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Staff updatable by owner" ON public.staff;
+CREATE POLICY "Staff updatable by owner"
+ON public.staff FOR UPDATE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Staff deletable by owner" ON public.staff;
+CREATE POLICY "Staff deletable by owner"
+ON public.staff FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_staff_user ON public.staff(user_id);
+
+DROP TRIGGER IF EXISTS trg_staff_updated_at ON public.staff;
+CREATE TRIGGER trg_staff_updated_at
+BEFORE UPDATE ON public.staff
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Products: the identifiers, archive flag and write version the device keeps
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS sku TEXT,
+  ADD COLUMN IF NOT EXISTS barcode TEXT,
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_products_sku ON public.products(sku);
+CREATE INDEX IF NOT EXISTS idx_products_barcode ON public.products(barcode);
+
+-- Sales: one row per sale, with how it was paid and what has happened to it since
+ALTER TABLE public.sales
+  ADD COLUMN IF NOT EXISTS payment_method TEXT NOT NULL DEFAULT 'cash' CHECK (payment_method IN ('cash', 'mpesa', 'card', 'other')),
+  ADD COLUMN IF NOT EXISTS tenders JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS change_due NUMERIC(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS staff_id UUID REFERENCES public.staff(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS customer JSONB,
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('completed', 'partially_refunded', 'refunded', 'voided')),
+  ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS shift_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_sales_status ON public.sales(status);
+CREATE INDEX IF NOT EXISTS idx_sales_staff ON public.sales(staff_id);
+
+-- Sale lines (product_name denormalized for reporting stability, as before)
+CREATE TABLE IF NOT EXISTS public.sale_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  sale_id UUID NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+  line INTEGER NOT NULL,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE RESTRICT,
+  product_name TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  unit_price NUMERIC(10,2) NOT NULL,
+  subtotal NUMERIC(10,2) NOT NULL,
+  profit NUMERIC(10,2),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (sale_id, line)
+);
+ALTER TABLE public.sale_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Sale items viewable by owner" ON public.sale_items;
+CREATE POLICY "Sale items viewable by owner"
+ON public.sale_items FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Sale items insertable by owner" ON public.sale_items;
+CREATE POLICY "Sale items insertable by owner"
+ON public.sale_items FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Sale items updatable by owner" ON public.sale_items;
+CREATE POLICY "Sale items updatable by owner"
+ON public.sale_items FOR UPDATE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Sale items deletable by owner" ON public.sale_items;
+CREATE POLICY "Sale items deletable by owner"
+ON public.sale_items FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_sale_items_user ON public.sale_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_sale_items_product ON public.sale_items(product_id);
+
+DROP TRIGGER IF EXISTS trg_sale_items_updated_at ON public.sale_items;
+CREATE TRIGGER trg_sale_items_updated_at
+BEFORE UPDATE ON public.sale_items
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Move the old one-product rows into that shape. Rows the app pushed under
+-- the old mapping carry version-8 UUIDs derived from a local sale; the device
+-- pushes that sale again whole. Until it does they are the only remote copy,
+-- so they move to sales_legacy_rows, as they were, rather than being dropped.
+-- Anything else becomes a sale of one line.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'sales' AND column_name = 'product_id'
+  ) THEN
+    CREATE TABLE IF NOT EXISTS public.sales_legacy_rows (LIKE public.sales INCLUDING DEFAULTS INCLUDING INDEXES);
+    ALTER TABLE public.sales_legacy_rows ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ NOT NULL DEFAULT now();
+    ALTER TABLE public.sales_legacy_rows ENABLE ROW LEVEL SECURITY;
+
+    DROP POLICY IF EXISTS "Legacy sale rows viewable by owner" ON public.sales_legacy_rows;
+    CREATE POLICY "Legacy sale rows viewable by owner"
+    ON public.sales_legacy_rows FOR SELECT
+    USING (auth.uid() = user_id);
+
+    DROP POLICY IF EXISTS "Legacy sale rows deletable by owner" ON public.sales_legacy_rows;
+    CREATE POLICY "Legacy sale rows deletable by owner"
+    ON public.sales_legacy_rows FOR DELETE
+    USING (auth.uid() = user_id);
+
+    INSERT INTO public.sales_legacy_rows
+    SELECT s.*, now() FROM public.sales s
+    WHERE substr(s.id::text, 15, 1) = '8'
+    ON CONFLICT (id) DO NOTHING;
+
+    DELETE FROM public.sales WHERE substr(id::text, 15, 1) = '8';
+
+    INSERT INTO public.sale_items (id, user_id, sale_id, line, product_id, product_name, quantity, unit_price, subtotal, profit, created_at, updated_at)
+    SELECT id, user_id, id, 0, product_id, product_name, quantity, unit_price, total_amount, profit, created_at, updated_at
+    FROM public.sales
+    ON CONFLICT (id) DO NOTHING;
+
+    UPDATE public.sales
+    SET tenders = jsonb_build_array(jsonb_build_object('method', 'cash', 'amount', total_amount))
+    WHERE tenders = '[]'::jsonb;
+
+    DROP INDEX IF EXISTS public.idx_sales_product;
+    ALTER TABLE public.sales
+      DROP COLUMN product_id,
+      DROP COLUMN product_name,
+      DROP COLUMN quantity,
+      DROP COLUMN unit_price,
+      DROP COLUMN profit;
+  END IF;
+END $$;
+
+-- Receipts (sale receipts and credit notes)
+CREATE TABLE IF NOT EXISTS public.receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  sale_id UUID NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+  number TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'sale' CHECK (kind IN ('sale', 'credit_note')),
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  total NUMERIC(10,2) NOT NULL,
+  payment_method TEXT NOT NULL CHECK (payment_method IN ('cash', 'mpesa', 'card', 'other')),
+  original_receipt_number TEXT,
+  mpesa JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.receipts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Receipts viewable by owner" ON public.receipts;
+CREATE POLICY "Receipts viewable by owner"
+ON public.receipts FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Receipts insertable by owner" ON public.receipts;
+CREATE POLICY "Receipts insertable by owner"
+ON public.receipts FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Receipts updatable by owner" ON public.receipts;
+CREATE POLICY "Receipts updatable by owner"
+ON public.receipts FOR UPDATE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Receipts deletable by owner" ON public.receipts;
+CREATE POLICY "Receipts deletable by owner"
+ON public.receipts FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_receipts_user ON public.receipts(user_id);
+CREATE INDEX IF NOT EXISTS idx_receipts_sale ON public.receipts(sale_id);
+CREATE INDEX IF NOT EXISTS idx_receipts_number ON public.receipts(number);
+
+DROP TRIGGER IF EXISTS trg_receipts_updated_at ON public.receipts;
+CREATE TRIGGER trg_receipts_updated_at
+BEFORE UPDATE ON public.receipts
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stock movements: every change to stock, signed (restocks, sales, returns, adjustments)
+CREATE TABLE IF NOT EXISTS public.stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('restock', 'sale', 'return', 'adjustment')),
+  notes TEXT,
+  supplier_id UUID,
+  sale_id UUID REFERENCES public.sales(id) ON DELETE SET NULL,
+  date TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Stock movements viewable by owner" ON public.stock_movements;
+CREATE POLICY "Stock movements viewable by owner"
+ON public.stock_movements FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Stock movements insertable by owner" ON public.stock_movements;
+CREATE POLICY "Stock movements insertable by owner"
+ON public.stock_movements FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Stock movements updatable by owner" ON public.stock_movements;
+CREATE POLICY "Stock movements updatable by owner"
+ON public.stock_movements FOR UPDATE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Stock movements deletable by owner" ON public.stock_movements;
+CREATE POLICY "Stock movements deletable by owner"
+ON public.stock_movements FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_user ON public.stock_movements(user_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product ON public.stock_movements(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_sale ON public.stock_movements(sale_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_date ON public.stock_movements(date);
+
+DROP TRIGGER IF EXISTS trg_stock_movements_updated_at ON public.stock_movements;
+CREATE TRIGGER trg_stock_movements_updated_at
+BEFORE UPDATE ON public.stock_movements
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Restocks recorded so far carry over as restock movements; the restocks
+-- table stays for the receipt and cost details only it has
+INSERT INTO public.stock_movements (id, user_id, product_id, quantity, type, notes, date, created_at, updated_at)
+SELECT id, user_id, product_id, quantity, 'restock', notes, date, created_at, updated_at
+FROM public.restocks
+ON CONFLICT (id) DO NOTHING;
+
+-- Business settings, one row per device database
+CREATE TABLE IF NOT EXISTS public.settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  business_name TEXT NOT NULL,
+  default_currency TEXT NOT NULL DEFAULT 'KES',
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  backup JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Settings viewable by owner" ON public.settings;
+CREATE POLICY "Settings viewable by owner"
+ON public.settings FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Settings insertable by owner" ON public.settings;
+CREATE POLICY "Settings insertable by owner"
+ON public.settings FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Settings updatable by owner" ON public.settings;
+CREATE POLICY "Settings updatable by owner"
+ON public.settings FOR UPDATE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Settings deletable by owner" ON public.settings;
+CREATE POLICY "Settings deletable by owner"
+ON public.settings FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_settings_user ON public.settings(user_id);
+
+DROP TRIGGER IF EXISTS trg_settings_updated_at ON public.settings;
+CREATE TRIGGER trg_settings_updated_at
+BEFORE UPDATE ON public.settings
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
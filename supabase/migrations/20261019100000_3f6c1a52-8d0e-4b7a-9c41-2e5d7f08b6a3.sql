@@ -0,0 +1,99 @@
+-- Refunds and till shifts get tables of their own, so the app's outbox can
+-- mirror them like sales. A refund's credit note goes in receipts, linked to
+-- the refund as well as to the sale it was issued against.
+
+-- Shifts (first: refunds reference them)
+CREATE TABLE IF NOT EXISTS public.shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  opened_by UUID REFERENCES public.staff(id) ON DELETE SET NULL,
+  opening_float NUMERIC(10,2) NOT NULL DEFAULT 0,
+  closed_at TIMESTAMPTZ,
+  closed_by UUID REFERENCES public.staff(id) ON DELETE SET NULL,
+  report JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.shifts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Shifts viewable by owner" ON public.shifts;
+CREATE POLICY "Shifts viewable by owner"
+ON public.shifts FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Shifts insertable by owner" ON public.shifts;
+CREATE POLICY "Shifts insertable by owner"
+ON public.shifts FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Shifts updatable by owner" ON public.shifts;
+CREATE POLICY "Shifts updatable by owner"
+ON public.shifts FOR UPDATE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Shifts deletable by owner" ON public.shifts;
+CREATE POLICY "Shifts deletable by owner"
+ON public.shifts FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_shifts_user ON public.shifts(user_id);
+CREATE INDEX IF NOT EXISTS idx_shifts_opened_at ON public.shifts(opened_at);
+
+DROP TRIGGER IF EXISTS trg_shifts_updated_at ON public.shifts;
+CREATE TRIGGER trg_shifts_updated_at
+BEFORE UPDATE ON public.shifts
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Refunds: goods taken back against a sale, lines kept as they were returned
+CREATE TABLE IF NOT EXISTS public.refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  sale_id UUID NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+  date TIMESTAMPTZ NOT NULL DEFAULT now(),
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  total_amount NUMERIC(10,2) NOT NULL,
+  tenders JSONB NOT NULL DEFAULT '[]'::jsonb,
+  reason TEXT,
+  staff_id UUID REFERENCES public.staff(id) ON DELETE SET NULL,
+  shift_id UUID REFERENCES public.shifts(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Refunds viewable by owner" ON public.refunds;
+CREATE POLICY "Refunds viewable by owner"
+ON public.refunds FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Refunds insertable by owner" ON public.refunds;
+CREATE POLICY "Refunds insertable by owner"
+ON public.refunds FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Refunds updatable by owner" ON public.refunds;
+CREATE POLICY "Refunds updatable by owner"
+ON public.refunds FOR UPDATE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Refunds deletable by owner" ON public.refunds;
+CREATE POLICY "Refunds deletable by owner"
+ON public.refunds FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_user ON public.refunds(user_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_sale ON public.refunds(sale_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_date ON public.refunds(date);
+
+DROP TRIGGER IF EXISTS trg_refunds_updated_at ON public.refunds;
+CREATE TRIGGER trg_refunds_updated_at
+BEFORE UPDATE ON public.refunds
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Credit notes name the refund they were issued for
+ALTER TABLE public.receipts
+  ADD COLUMN IF NOT EXISTS refund_id UUID REFERENCES public.refunds(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_receipts_refund ON public.receipts(refund_id);
@@ -4,9 +4,13 @@ import path from "path";
 import { componentTagger } from "lovable-tagger";
 import { VitePWA } from "vite-plugin-pwa";
 import manifestJson from './public/manifest.json';
+import packageJson from './package.json';
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
+  define: {
+    __APP_VERSION__: JSON.stringify(packageJson.version),
+  },
   server: {
     host: "::",
     port: 8080,
@@ -22,7 +26,7 @@ export default defineConfig(({ mode }) => ({
         orientation: 'portrait-primary', // valid value for VitePWA
       },
       workbox: {
-        globPatterns: ['**/*.{js,css,html,ico,png,svg,webmanifest,json}'],
+        globPatterns: ['**/*.{js,css,html,ico,png,svg,webmanifest,json,wasm}'],
         runtimeCaching: [
           {
             urlPattern: /^https:\/\/.*/,
@@ -39,6 +43,13 @@ export default defineConfig(({ mode }) => ({
       },
     }),
   ].filter(Boolean),
+  // sqlite-wasm loads its .wasm relative to itself, which pre-bundling breaks
+  optimizeDeps: {
+    exclude: ["@sqlite.org/sqlite-wasm"],
+  },
+  worker: {
+    format: "es",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),